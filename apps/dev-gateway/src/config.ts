@@ -28,6 +28,7 @@ const DEFAULT_ROUTES: RouteConfig[] = [
     function: 'automata-api',
   },
   { type: 'http', method: 'ANY', path: '/v1/accounts/me/devices', function: 'automata-api' },
+  { type: 'http', method: 'GET', path: '/v1/accounts/me/usage', function: 'automata-api' },
 
   { type: 'http', method: 'ANY', path: '/v1/accounts/{accountId}', function: 'automata-api' },
 
@@ -69,6 +70,12 @@ const DEFAULT_ROUTES: RouteConfig[] = [
     path: '/v1/accounts/{accountId}/automatas/{automataId}/unarchive',
     function: 'automata-api',
   },
+  {
+    type: 'http',
+    method: 'ANY',
+    path: '/v1/accounts/{accountId}/automatas/{automataId}/migrate',
+    function: 'automata-api',
+  },
   {
     type: 'http',
     method: 'ANY',
@@ -76,6 +83,17 @@ const DEFAULT_ROUTES: RouteConfig[] = [
     function: 'automata-api',
   },
 
+  // Blueprint 路由
+  { type: 'http', method: 'POST', path: '/v1/blueprints/validate', function: 'automata-api' },
+  { type: 'http', method: 'POST', path: '/v1/blueprints/simulate', function: 'automata-api' },
+  { type: 'http', method: 'POST', path: '/v1/blueprints/compare', function: 'automata-api' },
+  {
+    type: 'http',
+    method: 'ANY',
+    path: '/v1/blueprints/{appId}/{name}/latest',
+    function: 'automata-api',
+  },
+
   // WebSocket Token 路由
   { type: 'http', method: 'POST', path: '/v1/ws/token', function: 'automata-api' },
 
@@ -97,6 +115,8 @@ const DEFAULT_CONFIG: GatewayConfig = {
   functions: {
     httpApi: 'stacks/automabase/src/functions/automata-api/index.ts',
     websocket: 'stacks/automabase/src/functions/automata-ws/index.ts',
+    statsAggregator: 'stacks/automabase/src/functions/stats-aggregator/index.ts',
+    broadcastWorker: 'stacks/automabase/src/functions/broadcast-worker/index.ts',
   },
   sam: {
     templatePath: 'template.yaml',
@@ -11,6 +11,8 @@
  * - JWT 验证 (JWKS / 本地公钥 / 跳过)
  * - Lambda 调用 (直接调用 / SAM / 远程)
  * - Management API (PostToConnection)
+ * - DynamoDB Streams 轮询 (stats-aggregator，仅 direct 模式)
+ * - 本地广播队列 (broadcast-worker，仅 direct 模式)
  *
  * Usage:
  *   bun run apps/dev-gateway/src/index.ts [options]
@@ -27,6 +29,8 @@ import * as path from 'node:path';
 import { loadConfig } from './config';
 import { JwtVerifier } from './jwt-verifier';
 import { LambdaInvoker } from './lambda-invoker';
+import { LocalBroadcastQueue } from './local-broadcast-queue';
+import { StreamPoller } from './stream-poller';
 import { clearLogs } from './timing-logger';
 import { createUnifiedGateway, getActiveConnectionCount } from './unified-gateway';
 
@@ -65,19 +69,53 @@ async function main() {
   // 创建 Lambda 调用器
   const lambdaInvoker = new LambdaInvoker(config);
 
+  // 本地广播队列（替代 SQS，由 broadcast-worker 消费）
+  const broadcastQueue =
+    config.lambdaMode === 'direct' ? new LocalBroadcastQueue(lambdaInvoker) : undefined;
+
   // 启动统一网关
-  const server = createUnifiedGateway(config, jwtVerifier, lambdaInvoker);
+  const server = createUnifiedGateway(config, jwtVerifier, lambdaInvoker, broadcastQueue);
 
   server.listen(config.port, () => {
     console.log(`✅ Unified Gateway listening on:`);
     console.log(`   HTTP API:       http://localhost:${config.port}`);
     console.log(`   WebSocket:      ws://localhost:${config.port}`);
     console.log(`   Management API: http://localhost:${config.port}/@connections/{connectionId}`);
+    if (broadcastQueue) {
+      console.log(`   Broadcast Queue: http://localhost:${config.port}/@broadcast-queue`);
+    }
     console.log('');
   });
 
   // 设置环境变量供 Lambda 使用
   process.env.WEBSOCKET_API_ENDPOINT = `http://localhost:${config.port}`;
+  if (broadcastQueue) {
+    process.env.LOCAL_BROADCAST_QUEUE_ENDPOINT = `http://localhost:${config.port}/@broadcast-queue`;
+  }
+
+  // 启动本地 Stream 轮询器（替代 Lambda 的 DynamoDB Streams 事件源）
+  let streamPoller: StreamPoller | null = null;
+  if (config.lambdaMode === 'direct' && process.env.DYNAMODB_ENDPOINT) {
+    streamPoller = new StreamPoller(
+      {
+        endpoint: process.env.DYNAMODB_ENDPOINT,
+        tableName: process.env.AUTOMABASE_TABLE || 'automabase-dev',
+        region: process.env.AWS_REGION,
+      },
+      lambdaInvoker
+    );
+    const started = await streamPoller.start().catch((err) => {
+      console.warn('⚠️  Stream poller failed to start:', err);
+      return false;
+    });
+    if (started) {
+      console.log('📡 Stream poller started (stats-aggregator)\n');
+    } else {
+      console.log(
+        '📡 Stream poller disabled: table has no stream (recreate it from table-definition.json)\n'
+      );
+    }
+  }
 
   console.log('📝 Tips:');
   console.log(`   - All APIs unified on port ${config.port}`);
@@ -97,6 +135,8 @@ async function main() {
   // 优雅关闭
   const shutdown = () => {
     console.log('\n👋 Shutting down...');
+    streamPoller?.stop();
+    broadcastQueue?.stop();
     server.close();
     process.exit(0);
   };
@@ -14,9 +14,17 @@ import * as os from 'node:os';
 import * as path from 'node:path';
 import * as url from 'node:url';
 import { SamTimer } from './timing-logger';
-import type { GatewayConfig, LambdaHttpEvent, LambdaResult, LambdaWsEvent } from './types';
-
-type LambdaEvent = LambdaHttpEvent | LambdaWsEvent;
+import type {
+  GatewayConfig,
+  LambdaHttpEvent,
+  LambdaQueueEvent,
+  LambdaQueueResult,
+  LambdaResult,
+  LambdaStreamEvent,
+  LambdaWsEvent,
+} from './types';
+
+type LambdaEvent = LambdaHttpEvent | LambdaWsEvent | LambdaStreamEvent | LambdaQueueEvent;
 
 /**
  * Handler 缓存
@@ -178,12 +186,16 @@ export class LambdaInvoker {
     this.functionPathMap = {
       'automata-api': config.functions.httpApi,
       'automata-ws': config.functions.websocket,
+      'stats-aggregator': config.functions.statsAggregator,
+      'broadcast-worker': config.functions.broadcastWorker,
     };
 
     // 设置 SAM 函数名映射
     this.samFunctionNameMap = {
       'automata-api': config.sam?.httpApiFunctionName || 'AutomataApiFunction',
       'automata-ws': config.sam?.websocketFunctionName || 'AutomataWsFunction',
+      'stats-aggregator': 'AutomataStatsAggregatorFunction',
+      'broadcast-worker': 'BroadcastWorkerFunction',
     };
   }
 
@@ -242,4 +254,33 @@ export class LambdaInvoker {
         throw new Error(`Unknown lambda mode: ${this.config.lambdaMode}`);
     }
   }
+
+  /**
+   * 调用 DynamoDB Stream 消费 Lambda（仅 direct 模式，由本地 Stream 轮询器使用）
+   */
+  async invokeStream(event: LambdaStreamEvent, functionName?: string): Promise<void> {
+    const name = functionName || 'stats-aggregator';
+
+    if (this.config.lambdaMode !== 'direct') {
+      throw new Error(`Stream invocation is only supported in direct mode`);
+    }
+
+    await invokeDirect(this.getFunctionPath(name), event);
+  }
+
+  /**
+   * 调用 SQS 消费 Lambda（仅 direct 模式，由本地广播队列使用）
+   */
+  async invokeQueue(event: LambdaQueueEvent, functionName?: string): Promise<LambdaQueueResult> {
+    const name = functionName || 'broadcast-worker';
+
+    if (this.config.lambdaMode !== 'direct') {
+      throw new Error(`Queue invocation is only supported in direct mode`);
+    }
+
+    const result = (await invokeDirect(this.getFunctionPath(name), event)) as unknown as
+      | LambdaQueueResult
+      | undefined;
+    return { batchItemFailures: result?.batchItemFailures ?? [] };
+  }
 }
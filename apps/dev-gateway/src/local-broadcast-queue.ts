@@ -0,0 +1,155 @@
+/**
+ * Local Broadcast Queue
+ *
+ * 本地替代 SQS 广播队列：
+ * Lambda 通过 POST /@broadcast-queue 入队，队列按批次交给 broadcast-worker 处理
+ */
+
+import * as crypto from 'node:crypto';
+import type { LambdaInvoker } from './lambda-invoker';
+import type { LambdaQueueEvent } from './types';
+
+/**
+ * 单批最大消息数，对应 BatchSize
+ */
+const BATCH_SIZE = 10;
+
+/**
+ * 失败消息的重试间隔（毫秒），对应 VisibilityTimeout（本地缩短）
+ */
+const RETRY_DELAY_MS = 2000;
+
+/**
+ * 最大接收次数，超过后丢弃（对应 DLQ 的 maxReceiveCount）
+ */
+const MAX_RECEIVE_COUNT = 5;
+
+interface QueuedMessage {
+  messageId: string;
+  body: string;
+  receiveCount: number;
+}
+
+/**
+ * 进程内广播队列
+ */
+export class LocalBroadcastQueue {
+  private messages: QueuedMessage[] = [];
+  private draining = false;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(private lambdaInvoker: LambdaInvoker) {}
+
+  /**
+   * 入队（对应 SendMessage）
+   */
+  enqueue(body: string): string {
+    const messageId = crypto.randomUUID();
+    this.messages.push({ messageId, body, receiveCount: 0 });
+    this.scheduleDrain(0);
+    return messageId;
+  }
+
+  /**
+   * 队列中待处理的消息数
+   */
+  get size(): number {
+    return this.messages.length;
+  }
+
+  /**
+   * 停止处理（丢弃待重试的消息）
+   */
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.messages = [];
+  }
+
+  private scheduleDrain(delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.drain().catch((err) => console.error('[BroadcastQueue] Drain failed:', err));
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  /**
+   * 按批次处理所有待处理的消息
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    try {
+      while (this.messages.length > 0) {
+        const batch = this.messages.splice(0, BATCH_SIZE);
+        const failed = await this.processBatch(batch);
+        this.retry(failed);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * 调用 broadcast-worker 处理一批消息
+   *
+   * @returns 处理失败的消息
+   */
+  private async processBatch(batch: QueuedMessage[]): Promise<QueuedMessage[]> {
+    const event: LambdaQueueEvent = {
+      Records: batch.map((message) => {
+        message.receiveCount++;
+        return {
+          messageId: message.messageId,
+          receiptHandle: message.messageId,
+          body: message.body,
+          attributes: { ApproximateReceiveCount: String(message.receiveCount) },
+          messageAttributes: {},
+          md5OfBody: crypto.createHash('md5').update(message.body).digest('hex'),
+          eventSource: 'aws:sqs',
+          eventSourceARN: 'arn:aws:sqs:local:000000000000:automabase-broadcast-local',
+          awsRegion: 'local',
+        };
+      }),
+    };
+
+    try {
+      const { batchItemFailures } = await this.lambdaInvoker.invokeQueue(event);
+      const failedIds = new Set(batchItemFailures.map((failure) => failure.itemIdentifier));
+      return batch.filter((message) => failedIds.has(message.messageId));
+    } catch (err) {
+      console.error('[BroadcastQueue] broadcast-worker failed:', err);
+      return batch;
+    }
+  }
+
+  /**
+   * 失败消息延迟后重新入队，超过最大接收次数时丢弃
+   */
+  private retry(failed: QueuedMessage[]): void {
+    const retryable = failed.filter((message) => {
+      if (message.receiveCount >= MAX_RECEIVE_COUNT) {
+        console.warn(
+          `[BroadcastQueue] Dropping message ${message.messageId} after ${message.receiveCount} attempts`
+        );
+        return false;
+      }
+      return true;
+    });
+
+    if (retryable.length > 0) {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.messages.push(...retryable);
+        this.scheduleDrain(0);
+      }, RETRY_DELAY_MS);
+      this.timers.add(timer);
+    }
+  }
+}
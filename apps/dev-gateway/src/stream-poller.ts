@@ -0,0 +1,155 @@
+/**
+ * Local DynamoDB Streams Poller
+ *
+ * 本地替代 Lambda 的 DynamoDB Streams 事件源：
+ * 轮询 DynamoDB Local 的 Stream，将记录批量交给 stats-aggregator 处理
+ */
+
+import { DescribeTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DescribeStreamCommand,
+  DynamoDBStreamsClient,
+  GetRecordsCommand,
+  GetShardIteratorCommand,
+} from '@aws-sdk/client-dynamodb-streams';
+import type { LambdaInvoker } from './lambda-invoker';
+
+/**
+ * 轮询间隔（毫秒），对应 MaximumBatchingWindowInSeconds
+ */
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * 单次 GetRecords 的最大记录数，对应 BatchSize
+ */
+const BATCH_SIZE = 100;
+
+export interface StreamPollerOptions {
+  endpoint: string;
+  tableName: string;
+  region?: string;
+}
+
+/**
+ * Stream 轮询器
+ */
+export class StreamPoller {
+  private dynamodb: DynamoDBClient;
+  private streams: DynamoDBStreamsClient;
+  private tableName: string;
+
+  /** shardId -> 下一个 shard iterator */
+  private iterators = new Map<string, string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private streamArn: string | null = null;
+
+  constructor(
+    options: StreamPollerOptions,
+    private lambdaInvoker: LambdaInvoker
+  ) {
+    const clientConfig = {
+      endpoint: options.endpoint,
+      region: options.region || 'ap-northeast-1',
+      credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+    };
+    this.dynamodb = new DynamoDBClient(clientConfig);
+    this.streams = new DynamoDBStreamsClient(clientConfig);
+    this.tableName = options.tableName;
+  }
+
+  /**
+   * 开始轮询
+   *
+   * @returns 表未开启 Stream 时返回 false
+   */
+  async start(): Promise<boolean> {
+    const table = await this.dynamodb.send(new DescribeTableCommand({ TableName: this.tableName }));
+    this.streamArn = table.Table?.LatestStreamArn ?? null;
+    if (!this.streamArn) {
+      return false;
+    }
+
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * 停止轮询
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch((err) => console.error('[StreamPoller] Poll failed:', err))
+        .finally(() => {
+          if (this.timer) {
+            this.schedule();
+          }
+        });
+    }, POLL_INTERVAL_MS);
+  }
+
+  /**
+   * 刷新 shard 列表，为新 shard 获取 iterator（从最新位置开始）
+   */
+  private async refreshShards(): Promise<void> {
+    const stream = await this.streams.send(
+      new DescribeStreamCommand({ StreamArn: this.streamArn! })
+    );
+
+    for (const shard of stream.StreamDescription?.Shards || []) {
+      if (!shard.ShardId || this.iterators.has(shard.ShardId)) {
+        continue;
+      }
+      // 已关闭的 shard 不会再有新记录
+      if (shard.SequenceNumberRange?.EndingSequenceNumber) {
+        continue;
+      }
+      const result = await this.streams.send(
+        new GetShardIteratorCommand({
+          StreamArn: this.streamArn!,
+          ShardId: shard.ShardId,
+          ShardIteratorType: 'LATEST',
+        })
+      );
+      if (result.ShardIterator) {
+        this.iterators.set(shard.ShardId, result.ShardIterator);
+      }
+    }
+  }
+
+  /**
+   * 读取所有 shard 的新记录并调用聚合函数
+   */
+  private async poll(): Promise<void> {
+    await this.refreshShards();
+
+    for (const [shardId, iterator] of this.iterators) {
+      const result = await this.streams.send(
+        new GetRecordsCommand({ ShardIterator: iterator, Limit: BATCH_SIZE })
+      );
+
+      if (result.NextShardIterator) {
+        this.iterators.set(shardId, result.NextShardIterator);
+      } else {
+        this.iterators.delete(shardId);
+      }
+
+      const records = result.Records || [];
+      if (records.length > 0) {
+        await this.lambdaInvoker.invokeStream({
+          Records: records.map((record) => ({
+            ...record,
+            eventSourceARN: this.streamArn!,
+          })),
+        });
+      }
+    }
+  }
+}
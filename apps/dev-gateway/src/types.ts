@@ -124,6 +124,16 @@ export interface FunctionPaths {
    * WebSocket Lambda 函数路径
    */
   websocket: string;
+
+  /**
+   * Stats 聚合 Lambda 函数路径（由本地 Stream 轮询器调用）
+   */
+  statsAggregator: string;
+
+  /**
+   * 广播 Worker Lambda 函数路径（由本地广播队列调用）
+   */
+  broadcastWorker: string;
 }
 
 export interface SamConfig {
@@ -185,6 +195,37 @@ export interface LambdaWsEvent {
   isBase64Encoded: boolean;
 }
 
+/**
+ * DynamoDB Stream 事件（本地 Stream 轮询器构造）
+ */
+export interface LambdaStreamEvent {
+  Records: Array<Record<string, unknown>>;
+}
+
+/**
+ * SQS 事件（本地广播队列构造）
+ */
+export interface LambdaQueueEvent {
+  Records: Array<{
+    messageId: string;
+    receiptHandle: string;
+    body: string;
+    attributes: Record<string, string>;
+    messageAttributes: Record<string, unknown>;
+    md5OfBody: string;
+    eventSource: 'aws:sqs';
+    eventSourceARN: string;
+    awsRegion: string;
+  }>;
+}
+
+/**
+ * SQS 批处理结果（ReportBatchItemFailures）
+ */
+export interface LambdaQueueResult {
+  batchItemFailures: Array<{ itemIdentifier: string }>;
+}
+
 export interface LambdaResult {
   statusCode: number;
   body: string;
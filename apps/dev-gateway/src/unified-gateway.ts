@@ -5,6 +5,7 @@
  * - HTTP 请求按路由转发到对应的 Lambda
  * - WebSocket 请求处理 $connect / $disconnect / $default
  * - Management API (POST /@connections/{connectionId})
+ * - 本地广播队列 (POST /@broadcast-queue)
  *
  * 路由配置与 AWS API Gateway 保持一致
  */
@@ -14,6 +15,7 @@ import * as http from 'node:http';
 import WebSocket, { WebSocketServer } from 'ws';
 import type { JwtVerifier } from './jwt-verifier';
 import type { LambdaInvoker } from './lambda-invoker';
+import type { LocalBroadcastQueue } from './local-broadcast-queue';
 import type {
   GatewayConfig,
   JwtClaims,
@@ -174,6 +176,32 @@ function handleManagementApi(
   }
 }
 
+/**
+ * 处理本地广播队列的入队请求（替代 SQS SendMessage）
+ */
+async function handleBroadcastQueue(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  method: string,
+  broadcastQueue: LocalBroadcastQueue | undefined
+): Promise<void> {
+  if (method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'Method Not Allowed' }));
+    return;
+  }
+  if (!broadcastQueue) {
+    res.writeHead(503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'Broadcast queue is not enabled' }));
+    return;
+  }
+
+  const body = (await readRequestBody(req)).toString('utf-8');
+  const messageId = broadcastQueue.enqueue(body);
+  res.writeHead(202, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ messageId }));
+}
+
 /**
  * 处理 HTTP API 请求
  */
@@ -434,7 +462,8 @@ async function handleWebSocketConnection(
 export function createUnifiedGateway(
   config: GatewayConfig,
   jwtVerifier: JwtVerifier,
-  lambdaInvoker: LambdaInvoker
+  lambdaInvoker: LambdaInvoker,
+  broadcastQueue?: LocalBroadcastQueue
 ): http.Server {
   // HTTP 服务器
   const server = http.createServer(async (req, res) => {
@@ -458,6 +487,12 @@ export function createUnifiedGateway(
       return;
     }
 
+    // 本地广播队列: /@broadcast-queue
+    if (url.pathname === '/@broadcast-queue') {
+      await handleBroadcastQueue(req, res, method, broadcastQueue);
+      return;
+    }
+
     // 普通 HTTP 请求
     await handleHttpRequest(req, res, config, jwtVerifier, lambdaInvoker);
   });
@@ -0,0 +1,93 @@
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateLocalKeyPair, signLocalJwt } from '../utils/local-jwt';
+import { type SecurityConfig, SignatureVerificationError, validateSecurity } from './security';
+
+describe('validateSecurity', () => {
+  let config: SecurityConfig;
+  let token: string;
+
+  beforeAll(async () => {
+    const { privateKey, publicKey } = await generateLocalKeyPair();
+    token = await signLocalJwt({ sub: 'user-1' }, { privateKey, issuer: 'test' });
+    config = {
+      jwt: { userPoolId: '', region: 'us-east-1' },
+      localDev: { enabled: true, localPublicKey: publicKey, localIssuer: 'test' },
+      antiReplay: { tableName: 'request-ids' },
+      skipAntiReplay: true,
+    };
+  });
+
+  function createEvent(method: string, signature?: string): APIGatewayProxyEvent {
+    return {
+      httpMethod: method,
+      path: '/v1/accounts/account-1/automatas',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(signature ? { 'X-Signature': signature } : {}),
+      },
+      queryStringParameters: null,
+      body: '{}',
+    } as unknown as APIGatewayProxyEvent;
+  }
+
+  async function catchSignatureError(
+    promise: Promise<unknown>
+  ): Promise<SignatureVerificationError> {
+    try {
+      await promise;
+    } catch (error) {
+      if (error instanceof SignatureVerificationError) {
+        return error;
+      }
+      throw error;
+    }
+    throw new Error('Expected SignatureVerificationError');
+  }
+
+  it('should not require signature for read operations', async () => {
+    const getPublicKey = vi.fn();
+
+    const result = await validateSecurity(createEvent('GET'), config, getPublicKey);
+
+    expect(result.authContext.cognitoUserId).toBe('user-1');
+    expect(getPublicKey).not.toHaveBeenCalled();
+  });
+
+  it('should resolve accountId when JWT has none', async () => {
+    const error = await catchSignatureError(
+      validateSecurity(createEvent('POST'), config, vi.fn(), async () => undefined)
+    );
+
+    expect(error.code).toBe('ACCOUNT_NOT_REGISTERED');
+  });
+
+  it('should require DeviceId in signature header', async () => {
+    const error = await catchSignatureError(
+      validateSecurity(
+        createEvent('POST', 'Algorithm=Ed25519, Signature=abc'),
+        config,
+        vi.fn(),
+        async () => 'account-1'
+      )
+    );
+
+    expect(error.code).toBe('MISSING_DEVICE_ID');
+  });
+
+  it('should look up public key by account and device', async () => {
+    const getPublicKey = vi.fn(async () => null);
+
+    const error = await catchSignatureError(
+      validateSecurity(
+        createEvent('POST', 'Algorithm=Ed25519, DeviceId=device-1, Signature=abc'),
+        config,
+        getPublicKey,
+        async () => 'account-1'
+      )
+    );
+
+    expect(error.code).toBe('PUBLIC_KEY_NOT_FOUND');
+    expect(getPublicKey).toHaveBeenCalledWith('account-1', 'device-1');
+  });
+});
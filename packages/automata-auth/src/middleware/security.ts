@@ -14,6 +14,8 @@ import {
   verifyAndExtractContextWithDevMode,
 } from '../utils/jwt-verifier';
 import {
+  parseSignatureHeader,
+  type SignatureAlgorithm,
   SignatureVerificationError,
   verifyRequestSignatureOrThrow,
 } from '../utils/request-signature';
@@ -47,6 +49,12 @@ export interface SecurityResult {
 
   /** 请求信息（用于签名验证） */
   requestInfo: RequestInfo;
+
+  /** 请求所属账户 ID（JWT 中没有时由 resolveAccountId 解析） */
+  accountId?: string;
+
+  /** 签名设备 ID（仅写操作且验证了签名时存在） */
+  deviceId?: string;
 }
 
 /**
@@ -74,9 +82,28 @@ export function extractRequestInfo(event: APIGatewayProxyEvent): RequestInfo {
 }
 
 /**
- * 获取公钥的函数类型
+ * 设备公钥
+ */
+export interface DevicePublicKey {
+  /** Base64URL 编码的公钥 */
+  publicKey: string;
+
+  /** 公钥算法 */
+  keyAlgorithm: SignatureAlgorithm;
+}
+
+/**
+ * 获取公钥的函数类型（按签名头中的 DeviceId 从设备注册表查询）
+ */
+export type GetPublicKeyFn = (
+  accountId: string,
+  deviceId: string
+) => Promise<DevicePublicKey | null>;
+
+/**
+ * 解析账户 ID 的函数类型（JWT 中没有 accountId 时使用，例如通过 OAuth 信息查询）
  */
-export type GetPublicKeyFn = (accountId: string) => Promise<string | null>;
+export type ResolveAccountIdFn = (authContext: AuthContext) => Promise<string | undefined>;
 
 /**
  * 完整的安全验证
@@ -88,11 +115,13 @@ export type GetPublicKeyFn = (accountId: string) => Promise<string | null>;
  * @param event - API Gateway 事件
  * @param config - 安全配置
  * @param getPublicKey - 获取公钥的函数
+ * @param resolveAccountId - 解析账户 ID 的函数（可选）
  */
 export async function validateSecurity(
   event: APIGatewayProxyEvent,
   config: SecurityConfig,
-  getPublicKey: GetPublicKeyFn
+  getPublicKey: GetPublicKeyFn,
+  resolveAccountId?: ResolveAccountIdFn
 ): Promise<SecurityResult> {
   // 1. JWT 验证
   const token = event.headers.Authorization || event.headers.authorization;
@@ -101,6 +130,8 @@ export async function validateSecurity(
 
   // 2. 提取请求信息
   const requestInfo = extractRequestInfo(event);
+  const accountId = authContext.accountId ?? (await resolveAccountId?.(authContext));
+  let deviceId: string | undefined;
 
   // 3. 判断是否为写操作
   const isWriteOperation = ['POST', 'PUT', 'PATCH', 'DELETE'].includes(
@@ -111,36 +142,49 @@ export async function validateSecurity(
   if (isWriteOperation) {
     // 4.1 验证签名
     if (!config.skipSignatureVerification) {
-      if (!authContext.accountId) {
+      if (!accountId) {
         throw new SignatureVerificationError(
           'Account not registered, cannot verify signature',
           'ACCOUNT_NOT_REGISTERED'
         );
       }
 
-      const publicKey = await getPublicKey(authContext.accountId);
-      if (!publicKey) {
+      const signatureHeader = event.headers['X-Signature'] || event.headers['x-signature'];
+      deviceId = parseSignatureHeader(signatureHeader).deviceId;
+      if (!deviceId) {
+        throw new SignatureVerificationError(
+          'Missing DeviceId in X-Signature header',
+          'MISSING_DEVICE_ID'
+        );
+      }
+
+      const deviceKey = await getPublicKey(accountId, deviceId);
+      if (!deviceKey) {
         throw new SignatureVerificationError(
-          'Public key not found for account',
+          'Public key not found for device',
           'PUBLIC_KEY_NOT_FOUND'
         );
       }
 
-      const signatureHeader = event.headers['X-Signature'] || event.headers['x-signature'];
-      await verifyRequestSignatureOrThrow(requestInfo, signatureHeader || '', publicKey);
+      await verifyRequestSignatureOrThrow(
+        requestInfo,
+        signatureHeader || '',
+        deviceKey.publicKey,
+        deviceKey.keyAlgorithm
+      );
     }
 
     // 4.2 防重放验证
-    if (!config.skipAntiReplay && authContext.accountId) {
+    if (!config.skipAntiReplay && accountId) {
       const requestId = event.headers['X-Request-Id'] || event.headers['x-request-id'];
       const timestamp =
         event.headers['X-Request-Timestamp'] || event.headers['x-request-timestamp'];
 
-      await validateAntiReplay(requestId, timestamp, authContext.accountId, config.antiReplay);
+      await validateAntiReplay(requestId, timestamp, accountId, config.antiReplay);
     }
   }
 
-  return { authContext, requestInfo };
+  return { authContext, requestInfo, accountId, deviceId };
 }
 
 /**
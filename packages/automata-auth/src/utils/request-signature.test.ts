@@ -0,0 +1,80 @@
+import * as crypto from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { buildAndHashCanonicalRequest, type RequestInfo } from './canonical-request';
+import {
+  parseSignatureHeader,
+  SignatureVerificationError,
+  verifyRequestSignature,
+} from './request-signature';
+
+const request: RequestInfo = {
+  method: 'POST',
+  path: '/v1/accounts/acc-1/automatas/a-1/events',
+  headers: {
+    host: 'api.example.com',
+    'content-type': 'application/json',
+    'x-request-id': '5f0c6a1e-8f3b-4c1d-9a52-2e6d0f7b9c11',
+    'x-request-timestamp': '2026-01-15T08:00:00.000Z',
+  },
+  body: JSON.stringify({ eventType: 'SET', eventData: { v: 1 } }),
+};
+
+describe('parseSignatureHeader', () => {
+  it('should parse algorithm, device id and signature', () => {
+    expect(parseSignatureHeader('Algorithm=ecdsa-p256, DeviceId=dev-1, Signature=abc')).toEqual({
+      algorithm: 'ECDSA-P256',
+      deviceId: 'dev-1',
+      signature: 'abc',
+    });
+  });
+
+  it('should reject unsupported algorithms', () => {
+    expect(() => parseSignatureHeader('Algorithm=RSA, Signature=abc')).toThrow(
+      SignatureVerificationError
+    );
+  });
+});
+
+describe('verifyRequestSignature', () => {
+  const { hashedRequest } = buildAndHashCanonicalRequest(request);
+
+  it('should verify Ed25519 request signatures', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+    const signature = crypto.sign(null, Buffer.from(hashedRequest), privateKey);
+    const header = `Algorithm=Ed25519, Signature=${signature.toString('base64url')}`;
+
+    await expect(
+      verifyRequestSignature(request, header, rawPublicKey.toString('base64url'), 'Ed25519')
+    ).resolves.toBe(true);
+  });
+
+  it('should verify ECDSA P-256 request signatures made like CryptoProvider.sign', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-65);
+    const digest = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ hash: hashedRequest }))
+      .digest();
+    const signature = crypto.sign('sha256', digest, { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    const header = `Algorithm=ECDSA-P256, Signature=${signature.toString('base64url')}`;
+
+    await expect(
+      verifyRequestSignature(request, header, rawPublicKey.toString('base64url'), 'ECDSA-P256')
+    ).resolves.toBe(true);
+    await expect(
+      verifyRequestSignature(
+        { ...request, body: '{}' },
+        header,
+        rawPublicKey.toString('base64url'),
+        'ECDSA-P256'
+      )
+    ).resolves.toBe(false);
+  });
+
+  it('should reject signatures whose algorithm differs from the device key', async () => {
+    await expect(
+      verifyRequestSignature(request, 'Algorithm=Ed25519, Signature=abc', 'key', 'ECDSA-P256')
+    ).rejects.toMatchObject({ code: 'ALGORITHM_MISMATCH' });
+  });
+});
@@ -1,12 +1,26 @@
 /**
  * 请求签名验证
  *
- * 使用 Ed25519 验证请求的完整性和来源
+ * 使用设备密钥（Ed25519 或 ECDSA P-256）验证请求的完整性和来源
  */
 
-import { verify } from '@noble/ed25519';
+import * as crypto from 'node:crypto';
+import { verifyAsync } from '@noble/ed25519';
 import { buildAndHashCanonicalRequest, type RequestInfo } from './canonical-request';
 
+/**
+ * 支持的签名算法（与设备密钥算法一致）
+ */
+export type SignatureAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+/**
+ * 签名头中的算法名（小写） -> 签名算法
+ */
+const SIGNATURE_ALGORITHMS: Record<string, SignatureAlgorithm> = {
+  ed25519: 'Ed25519',
+  'ecdsa-p256': 'ECDSA-P256',
+};
+
 /**
  * 签名验证错误
  */
@@ -22,11 +36,14 @@ export class SignatureVerificationError extends Error {
 
 /**
  * 签名头格式
- * X-Signature: Algorithm=Ed25519, Signature={base64url-signature}
+ * X-Signature: Algorithm={Ed25519|ECDSA-P256}, DeviceId={deviceId}, Signature={base64url-signature}
  */
 export interface SignatureHeader {
-  algorithm: string;
+  algorithm: SignatureAlgorithm;
   signature: string;
+
+  /** 签名设备 ID（用于从设备注册表获取公钥） */
+  deviceId?: string;
 }
 
 /**
@@ -49,12 +66,13 @@ export function parseSignatureHeader(header: string | undefined): SignatureHeade
 
   if (!parsed.algorithm || !parsed.signature) {
     throw new SignatureVerificationError(
-      'Invalid X-Signature format, expected: Algorithm=Ed25519, Signature={signature}',
+      'Invalid X-Signature format, expected: Algorithm={algorithm}, DeviceId={deviceId}, Signature={signature}',
       'INVALID_SIGNATURE_FORMAT'
     );
   }
 
-  if (parsed.algorithm.toLowerCase() !== 'ed25519') {
+  const algorithm = SIGNATURE_ALGORITHMS[parsed.algorithm.toLowerCase()];
+  if (!algorithm) {
     throw new SignatureVerificationError(
       `Unsupported signature algorithm: ${parsed.algorithm}`,
       'UNSUPPORTED_ALGORITHM'
@@ -62,8 +80,9 @@ export function parseSignatureHeader(header: string | undefined): SignatureHeade
   }
 
   return {
-    algorithm: parsed.algorithm,
+    algorithm,
     signature: parsed.signature,
+    deviceId: parsed.deviceid,
   };
 }
 
@@ -83,22 +102,64 @@ function base64UrlDecode(str: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * 验证 ECDSA P-256 签名
+ *
+ * 与 SDK 的 CryptoProvider.sign(accountId, { hash }) 一致：
+ * 对 JSON {"hash": hashedRequest} 的 SHA-256 摘要做 ECDSA-SHA256 签名（IEEE P1363 格式）
+ */
+function verifyEcdsaP256(
+  hashedRequest: string,
+  signatureBytes: Uint8Array,
+  publicKeyBytes: Uint8Array
+): boolean {
+  const digest = crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ hash: hashedRequest }))
+    .digest();
+
+  const keyObject = crypto.createPublicKey({
+    key: Buffer.concat([
+      // P-256 SPKI header (26 bytes)
+      Buffer.from('3059301306072a8648ce3d020106082a8648ce3d030107034200', 'hex'),
+      publicKeyBytes,
+    ]),
+    format: 'der',
+    type: 'spki',
+  });
+
+  return crypto.verify(
+    'sha256',
+    digest,
+    { key: keyObject, dsaEncoding: 'ieee-p1363' },
+    signatureBytes
+  );
+}
+
 /**
  * 验证请求签名
  *
  * @param request - 请求信息
  * @param signatureHeader - X-Signature 头的值
  * @param publicKey - 签名者的公钥 (base64url 编码)
+ * @param keyAlgorithm - 公钥算法（提供时必须与签名头中的算法一致）
  * @returns 验证是否通过
  */
 export async function verifyRequestSignature(
   request: RequestInfo,
   signatureHeader: string,
-  publicKey: string
+  publicKey: string,
+  keyAlgorithm?: SignatureAlgorithm
 ): Promise<boolean> {
   try {
     // 1. 解析签名头
-    const { signature } = parseSignatureHeader(signatureHeader);
+    const { algorithm, signature } = parseSignatureHeader(signatureHeader);
+    if (keyAlgorithm && keyAlgorithm !== algorithm) {
+      throw new SignatureVerificationError(
+        `Signature algorithm ${algorithm} does not match device key algorithm ${keyAlgorithm}`,
+        'ALGORITHM_MISMATCH'
+      );
+    }
 
     // 2. 构造 Canonical Request
     const { hashedRequest } = buildAndHashCanonicalRequest(request);
@@ -107,12 +168,14 @@ export async function verifyRequestSignature(
     const signatureBytes = base64UrlDecode(signature);
     const publicKeyBytes = base64UrlDecode(publicKey);
 
-    // 4. 验证签名
-    // 签名的内容是 Canonical Request 的 SHA256 哈希
-    const messageBytes = new TextEncoder().encode(hashedRequest);
-    const isValid = await verify(signatureBytes, messageBytes, publicKeyBytes);
+    // 4. 按算法验证签名
+    if (algorithm === 'ECDSA-P256') {
+      return verifyEcdsaP256(hashedRequest, signatureBytes, publicKeyBytes);
+    }
 
-    return isValid;
+    // Ed25519: 签名的内容是 Canonical Request 的 SHA256 哈希
+    const messageBytes = new TextEncoder().encode(hashedRequest);
+    return await verifyAsync(signatureBytes, messageBytes, publicKeyBytes);
   } catch (error) {
     if (error instanceof SignatureVerificationError) {
       throw error;
@@ -130,9 +193,10 @@ export async function verifyRequestSignature(
 export async function verifyRequestSignatureOrThrow(
   request: RequestInfo,
   signatureHeader: string,
-  publicKey: string
+  publicKey: string,
+  keyAlgorithm?: SignatureAlgorithm
 ): Promise<void> {
-  const isValid = await verifyRequestSignature(request, signatureHeader, publicKey);
+  const isValid = await verifyRequestSignature(request, signatureHeader, publicKey, keyAlgorithm);
 
   if (!isValid) {
     throw new SignatureVerificationError('Invalid request signature', 'INVALID_SIGNATURE');
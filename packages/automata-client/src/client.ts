@@ -6,32 +6,51 @@
  * Uses CryptoProvider for cryptographic operations.
  */
 
-import { generateRequestId, generateRequestTimestamp, signRequest } from './signing';
+import { isVersionConflictResponse, VersionConflictError } from './errors';
+import { generateRequestId, generateRequestTimestamp, signRequest, signWsEvent } from './signing';
 import type {
   ApiResponse,
   ArchiveAutomataResponse,
+  BlueprintLatestPointer,
+  BlueprintLatestUpdate,
+  BlueprintMigration,
+  BlueprintReference,
   ClientConfig,
+  CompareBlueprintsResponse,
   CreateAccountResponse,
   CreateAutomataResponse,
   CryptoProvider,
+  DeviceKeyAlgorithm,
   GetAccountResponse,
   GetAutomataResponse,
+  GetAutomataStateAtVersionResponse,
   GetAutomataStateResponse,
   GetEventResponse,
   GetMeResponse,
+  GetUsageRangeResponse,
+  GetUsageResponse,
   GetWsTokenResponse,
   ListAutomatasOptions,
   ListAutomatasResponse,
   ListDevicesResponse,
   ListEventsOptions,
   ListEventsResponse,
+  MigrateAutomataOptions,
+  MigrateAutomataResponse,
   RegisterDeviceResponse,
   RequestOptions,
   RevokeDeviceResponse,
+  SendEventOptions,
   SendEventResponse,
+  SimulateBlueprintResponse,
+  SimulationEventInput,
   TokenProvider,
   UnarchiveAutomataResponse,
   UpdateAccountResponse,
+  UsageGranularity,
+  ValidateBlueprintResponse,
+  VersionConflictResponse,
+  WsSendEventMessage,
 } from './types';
 
 /**
@@ -51,6 +70,7 @@ export interface AutomataClientState {
   readonly tokenProvider?: TokenProvider;
   readonly cryptoProvider: CryptoProvider;
   readonly accountId: string;
+  readonly deviceId?: string;
 }
 
 /**
@@ -109,6 +129,7 @@ export class AutomataClient {
       tokenProvider: this.state.tokenProvider,
       cryptoProvider: this.state.cryptoProvider,
       accountId: this.state.accountId,
+      deviceId: this.state.deviceId,
     });
   }
 
@@ -126,9 +147,20 @@ export class AutomataClient {
       tokenProvider,
       cryptoProvider: this.state.cryptoProvider,
       accountId: this.state.accountId,
+      deviceId: this.state.deviceId,
     });
   }
 
+  /**
+   * Create a new client instance that signs requests as the given device
+   *
+   * @param deviceId - Device ID returned when the device was registered
+   * @returns New client instance with updated device ID
+   */
+  withDeviceId(deviceId: string): AutomataClient {
+    return new AutomataClient({ ...this.state, deviceId });
+  }
+
   /**
    * Get the current authentication token
    */
@@ -143,6 +175,13 @@ export class AutomataClient {
     return this.state.accountId;
   }
 
+  /**
+   * Get the device ID used for request signatures
+   */
+  getDeviceId(): string | undefined {
+    return this.state.deviceId;
+  }
+
   /**
    * Get the current token, refreshing if a token provider is available
    *
@@ -204,7 +243,8 @@ export class AutomataClient {
           headers,
           bodyStr,
           this.state.accountId,
-          this.state.cryptoProvider
+          this.state.cryptoProvider,
+          this.state.deviceId
         );
       }
     }
@@ -264,17 +304,20 @@ export class AutomataClient {
    *
    * @param options - Optional parameters
    * @param options.publicKey - ECDSA P-256 public key (Base64URL encoded) for device registration
+   * @param options.keyAlgorithm - Key algorithm of publicKey (defaults to ECDSA-P256)
    * @param options.deviceName - Device name (required if publicKey is provided)
    * @returns Account data, device data (if registered), and whether account was newly created
    */
   async createAccount(options?: {
     publicKey?: string;
+    keyAlgorithm?: DeviceKeyAlgorithm;
     deviceName?: string;
   }): Promise<ApiResponse<CreateAccountResponse>> {
+    const body = options?.publicKey ? { keyAlgorithm: 'ECDSA-P256', ...options } : options || {};
     return this.request({
       method: 'POST',
       path: '/v1/accounts',
-      body: options || {},
+      body,
     });
   }
 
@@ -327,20 +370,22 @@ export class AutomataClient {
   /**
    * Register a new device
    *
-   * @param publicKey - ECDSA P-256 public key (Base64URL encoded)
+   * @param publicKey - Public key (Base64URL encoded, raw format)
    * @param deviceName - Human-readable device name
    * @param deviceType - Optional device type
+   * @param keyAlgorithm - Key algorithm (defaults to ECDSA-P256, as generated by CryptoProvider)
    * @returns Registered device data
    */
   async registerDevice(
     publicKey: string,
     deviceName: string,
-    deviceType?: 'browser' | 'mobile' | 'desktop' | 'server' | 'other'
+    deviceType?: 'browser' | 'mobile' | 'desktop' | 'server' | 'other',
+    keyAlgorithm: DeviceKeyAlgorithm = 'ECDSA-P256'
   ): Promise<ApiResponse<RegisterDeviceResponse>> {
     return this.request({
       method: 'POST',
       path: '/v1/accounts/me/devices',
-      body: { publicKey, deviceName, deviceType },
+      body: { publicKey, keyAlgorithm, deviceName, deviceType },
     });
   }
 
@@ -357,6 +402,42 @@ export class AutomataClient {
     });
   }
 
+  // ===========================================================================
+  // Usage API
+  // ===========================================================================
+
+  /**
+   * Get cumulative usage (automata and event counts) of the current account
+   *
+   * @returns Cumulative consumer usage
+   */
+  async getUsage(): Promise<ApiResponse<GetUsageResponse>> {
+    return this.request({
+      method: 'GET',
+      path: '/v1/accounts/me/usage',
+    });
+  }
+
+  /**
+   * Get usage of the current account over a time range
+   *
+   * @param granularity - Bucket size: 'hour' (kept 7 days), 'day' (kept 90 days) or 'month'
+   * @param from - First period, e.g. '2024-01-20T10', '2024-01-20' or '2024-01'
+   * @param to - Last period (inclusive), same format as `from`
+   * @returns Usage per period and the range total
+   */
+  async getUsageRange(
+    granularity: UsageGranularity,
+    from: string,
+    to: string
+  ): Promise<ApiResponse<GetUsageRangeResponse>> {
+    const params = new URLSearchParams({ granularity, from, to });
+    return this.request({
+      method: 'GET',
+      path: `/v1/accounts/me/usage?${params.toString()}`,
+    });
+  }
+
   // ===========================================================================
   // Automata API
   // ===========================================================================
@@ -371,24 +452,41 @@ export class AutomataClient {
   /**
    * Create a new automata (state machine instance)
    *
-   * @param blueprint - Blueprint definition
+   * Pass a stored blueprint ID or a `BlueprintReference` (for example
+   * `{ appId, name, version: 'latest' }`) to avoid sending the full definition.
+   *
+   * `initialState` overrides `state.initial` and `initialEvent` is applied as
+   * version 000000 -> 000001 in the same transaction as the creation.
+   * `params` must match the blueprint's `params.schema` and cannot be changed
+   * afterwards; transitions and guards read them as `$.params`.
+   *
+   * @param blueprint - Blueprint definition, reference or stored blueprint ID
    * @param options - Additional options
    * @returns Created automata info
    */
   async createAutomata(
-    blueprint: unknown,
+    blueprint: BlueprintReference | string | unknown,
     options?: {
       blueprintSignature?: string;
+      initialState?: unknown;
+      initialEvent?: { eventType: string; eventData?: unknown };
+      params?: unknown;
       accountId?: string;
     }
   ): Promise<ApiResponse<CreateAutomataResponse>> {
     const accountId = this.resolveAccountId(options?.accountId);
+    const source =
+      typeof blueprint === 'string'
+        ? { blueprintId: blueprint }
+        : { blueprint, blueprintSignature: options?.blueprintSignature };
     return this.request({
       method: 'POST',
       path: `/v1/accounts/${accountId}/automatas`,
       body: {
-        blueprint,
-        blueprintSignature: options?.blueprintSignature,
+        ...source,
+        initialState: options?.initialState,
+        initialEvent: options?.initialEvent,
+        params: options?.params,
       },
     });
   }
@@ -448,6 +546,28 @@ export class AutomataClient {
     });
   }
 
+  /**
+   * Get automata's state at a historical version
+   *
+   * The server rebuilds the state from the nearest snapshot by replaying events.
+   *
+   * @param automataId - Automata ID
+   * @param version - Target version (6-character Base62)
+   * @param accountId - Optional account ID override
+   * @returns State at the requested version
+   */
+  async getAutomataStateAtVersion(
+    automataId: string,
+    version: string,
+    accountId?: string
+  ): Promise<ApiResponse<GetAutomataStateAtVersionResponse>> {
+    const targetAccountId = this.resolveAccountId(accountId);
+    return this.request({
+      method: 'GET',
+      path: `/v1/accounts/${targetAccountId}/automatas/${automataId}/state?version=${encodeURIComponent(version)}`,
+    });
+  }
+
   /**
    * Archive an automata
    *
@@ -484,6 +604,175 @@ export class AutomataClient {
     });
   }
 
+  /**
+   * Migrate an automata to a new hash of its blueprint
+   *
+   * The migration must be signed by a device of the app owner. The server
+   * records a `$MIGRATED` event, so history stays replayable across the switch.
+   *
+   * @param automataId - Automata ID to migrate
+   * @param migration - Migration (from-hash, to-hash, JSONata transform)
+   * @param migrationSignature - App owner signature of the migration
+   * @param options - Target blueprint and account override
+   * @returns New version, state and blueprint ID
+   * @throws VersionConflictError if a concurrent writer moved the automata on;
+   *   the error carries the current version and state
+   */
+  async migrateAutomata(
+    automataId: string,
+    migration: BlueprintMigration,
+    migrationSignature: string,
+    options?: MigrateAutomataOptions
+  ): Promise<ApiResponse<MigrateAutomataResponse>> {
+    const targetAccountId = this.resolveAccountId(options?.accountId);
+    const response = await this.request<MigrateAutomataResponse | VersionConflictResponse>({
+      method: 'POST',
+      path: `/v1/accounts/${targetAccountId}/automatas/${automataId}/migrate`,
+      body: {
+        migration,
+        migrationSignature,
+        blueprint: options?.blueprint,
+        blueprintSignature: options?.blueprintSignature,
+      },
+    });
+
+    if (isVersionConflictResponse(response)) {
+      throw new VersionConflictError(
+        automataId,
+        response.data.currentVersion,
+        response.data.currentState
+      );
+    }
+
+    return response as ApiResponse<MigrateAutomataResponse>;
+  }
+
+  // ===========================================================================
+  // Blueprint API
+  // ===========================================================================
+
+  /**
+   * Validate a blueprint without storing it
+   *
+   * Runs the same checks as automata creation and returns the computed
+   * blueprintId / hash, so the exact content can be signed afterwards.
+   *
+   * @param blueprint - Blueprint definition
+   * @returns Validation errors and warnings
+   */
+  async validateBlueprint(blueprint: unknown): Promise<ApiResponse<ValidateBlueprintResponse>> {
+    return this.request({
+      method: 'POST',
+      path: '/v1/blueprints/validate',
+      body: { blueprint },
+      skipSignature: true,
+    });
+  }
+
+  /**
+   * Dry-run a sequence of events against a blueprint without persisting anything
+   *
+   * Every step goes through the same event processing as production. Rejected
+   * events are reported on their step and leave the state unchanged.
+   *
+   * @param blueprint - Blueprint definition
+   * @param events - Events to apply in order
+   * @param options - Starting state, params and sender override
+   * @returns State after each step
+   */
+  async simulateBlueprint(
+    blueprint: unknown,
+    events: SimulationEventInput[],
+    options?: {
+      initialState?: unknown;
+      params?: unknown;
+      senderAccountId?: string;
+    }
+  ): Promise<ApiResponse<SimulateBlueprintResponse>> {
+    return this.request({
+      method: 'POST',
+      path: '/v1/blueprints/simulate',
+      body: {
+        blueprint,
+        events,
+        initialState: options?.initialState,
+        params: options?.params,
+        senderAccountId: options?.senderAccountId,
+      },
+      skipSignature: true,
+    });
+  }
+
+  /**
+   * Compare two versions of a blueprint before publishing the new one
+   *
+   * Reports added, removed and changed event types, schema narrowing and
+   * widening, and whether the old initial state and the given sample states
+   * still validate against the new version.
+   *
+   * @param from - Current blueprint definition
+   * @param to - New blueprint definition
+   * @param samples - Existing states to check against the new state schema
+   * @returns Changes and compatibility classification
+   */
+  async compareBlueprints(
+    from: unknown,
+    to: unknown,
+    samples?: unknown[]
+  ): Promise<ApiResponse<CompareBlueprintsResponse>> {
+    return this.request({
+      method: 'POST',
+      path: '/v1/blueprints/compare',
+      body: { from, to, samples },
+      skipSignature: true,
+    });
+  }
+
+  /**
+   * Get the latest pointer of a blueprint
+   *
+   * @param appId - App ID
+   * @param name - Blueprint name
+   * @returns Blueprint ID the pointer currently targets
+   */
+  async getLatestBlueprint(
+    appId: string,
+    name: string
+  ): Promise<ApiResponse<BlueprintLatestPointer>> {
+    return this.request({
+      method: 'GET',
+      path: `/v1/blueprints/${encodeURIComponent(appId)}/${encodeURIComponent(name)}/latest`,
+    });
+  }
+
+  /**
+   * Move the latest pointer of a blueprint
+   *
+   * The update must be signed by a device of the app owner. It only applies
+   * while the pointer still targets `previousBlueprintId` at `revision - 1`.
+   * Revisions only increase, so an old signed update cannot be replayed even
+   * after the pointer moves back to the same blueprint.
+   *
+   * @param update - New and expected current target
+   * @param signature - App owner signature of the update
+   * @returns Updated pointer
+   */
+  async setLatestBlueprint(
+    update: BlueprintLatestUpdate,
+    signature: string
+  ): Promise<ApiResponse<BlueprintLatestPointer>> {
+    return this.request({
+      method: 'PUT',
+      path: `/v1/blueprints/${encodeURIComponent(update.appId)}/${encodeURIComponent(update.name)}/latest`,
+      body: {
+        blueprintId: update.blueprintId,
+        previousBlueprintId: update.previousBlueprintId,
+        revision: update.revision,
+        signature,
+      },
+    });
+  }
+
   // ===========================================================================
   // Event API
   // ===========================================================================
@@ -496,21 +785,39 @@ export class AutomataClient {
    * @param automataId - Target automata ID
    * @param eventType - Event type name
    * @param eventData - Event payload
-   * @param accountId - Optional account ID override
+   * @param options - Expected version and account ID override, or an account ID
+   *   string (the former `accountId` parameter, still accepted)
    * @returns Event result with new state
+   * @throws VersionConflictError if `expectedVersion` (or a concurrent writer) conflicts
+   *   with the current version; the error carries the current version and state
    */
   async sendEvent(
     automataId: string,
     eventType: string,
     eventData: unknown,
-    accountId?: string
+    optionsOrAccountId?: SendEventOptions | string
   ): Promise<ApiResponse<SendEventResponse>> {
-    const targetAccountId = this.resolveAccountId(accountId);
-    return this.request({
+    const options: SendEventOptions | undefined =
+      typeof optionsOrAccountId === 'string'
+        ? { accountId: optionsOrAccountId }
+        : optionsOrAccountId;
+    const targetAccountId = this.resolveAccountId(options?.accountId);
+    const response = await this.request<SendEventResponse | VersionConflictResponse>({
       method: 'POST',
       path: `/v1/accounts/${targetAccountId}/automatas/${automataId}/events`,
-      body: { eventType, eventData },
+      body: { eventType, eventData, expectedVersion: options?.expectedVersion },
     });
+
+    if (isVersionConflictResponse(response)) {
+      throw new VersionConflictError(
+        automataId,
+        response.data.currentVersion,
+        response.data.currentState,
+        options?.expectedVersion
+      );
+    }
+
+    return response as ApiResponse<SendEventResponse>;
   }
 
   /**
@@ -575,6 +882,32 @@ export class AutomataClient {
       path: '/v1/ws/token',
     });
   }
+
+  /**
+   * Build a signed `sendEvent` message for the WebSocket API
+   *
+   * Send the returned message over an open WebSocket connection; the server
+   * replies with an `eventResult` message carrying the same `requestId`.
+   *
+   * @param automataId - Target automata ID
+   * @param eventType - Event type
+   * @param eventData - Event payload
+   * @returns Signed message
+   */
+  async createWsSendEventMessage(
+    automataId: string,
+    eventType: string,
+    eventData: unknown
+  ): Promise<WsSendEventMessage> {
+    return signWsEvent(
+      automataId,
+      eventType,
+      eventData,
+      this.state.accountId,
+      this.state.cryptoProvider,
+      this.state.deviceId
+    );
+  }
 }
 
 /**
@@ -638,5 +971,6 @@ export async function createClient(config: ClientConfig): Promise<AutomataClient
     tokenProvider: config.tokenProvider,
     cryptoProvider: config.cryptoProvider,
     accountId: config.accountId,
+    deviceId: config.deviceId,
   });
 }
@@ -44,6 +44,38 @@ export async function generateKeyPair(): Promise<{
   };
 }
 
+/**
+ * Serialize JSON data canonically (object keys sorted recursively)
+ *
+ * Must match the server's canonicalization, otherwise signatures over
+ * objects with differently ordered keys will not verify.
+ */
+export function canonicalJson(data: unknown): string {
+  return JSON.stringify(data, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = value[key];
+          return sorted;
+        }, {});
+    }
+    return value;
+  });
+}
+
+/**
+ * Hash JSON data for signing (SHA-256 of its canonical JSON)
+ *
+ * @param data - JSON data to hash
+ * @returns SHA-256 digest bytes
+ */
+export async function hashJsonData(data: unknown): Promise<Uint8Array> {
+  const dataBytes = new TextEncoder().encode(canonicalJson(data));
+  const hashBuffer = await crypto.subtle.digest('SHA-256', toArrayBuffer(dataBytes));
+  return new Uint8Array(hashBuffer);
+}
+
 /**
  * Sign data with ECDSA P-256 private key
  *
@@ -0,0 +1,39 @@
+/**
+ * Automata Client Errors
+ */
+
+import type { ApiResponse, VersionConflictResponse } from './types';
+
+/**
+ * Thrown when an event is rejected because the automata is no longer at the expected version.
+ *
+ * Carries the server's current version and state so callers can rebase pending input
+ * onto the latest state and retry, instead of blindly overwriting.
+ */
+export class VersionConflictError extends Error {
+  readonly code = 'VERSION_CONFLICT';
+
+  constructor(
+    readonly automataId: string,
+    readonly currentVersion: string,
+    readonly currentState: unknown,
+    readonly expectedVersion?: string
+  ) {
+    super(
+      expectedVersion
+        ? `Version conflict on ${automataId}: expected ${expectedVersion}, current ${currentVersion}`
+        : `Version conflict on ${automataId}: current ${currentVersion}`
+    );
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Check whether a response is a 409 VERSION_CONFLICT error
+ */
+export function isVersionConflictResponse(
+  response: ApiResponse<unknown>
+): response is ApiResponse<VersionConflictResponse> {
+  const data = response.data as Partial<VersionConflictResponse> | undefined;
+  return response.status === 409 && data?.code === 'VERSION_CONFLICT';
+}
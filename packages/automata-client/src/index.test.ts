@@ -2,16 +2,20 @@
  * Automata Client Tests
  */
 
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { CryptoProvider } from './index';
 import {
   AutomataClient,
+  applyJsonPatch,
+  applyStateUpdate,
   base64UrlDecode,
   base64UrlEncode,
   buildCanonicalRequest,
   createClient,
   generateRequestId,
   generateRequestTimestamp,
+  hashJsonData,
+  VersionConflictError,
 } from './index';
 
 function createMockCryptoProvider(): CryptoProvider {
@@ -23,14 +27,6 @@ function createMockCryptoProvider(): CryptoProvider {
     return buf;
   }
 
-  async function hashJsonData(data: unknown): Promise<Uint8Array> {
-    const jsonString = JSON.stringify(data);
-    const encoder = new TextEncoder();
-    const dataBytes = encoder.encode(jsonString);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', dataBytes);
-    return new Uint8Array(hashBuffer);
-  }
-
   async function generateKeyPair(): Promise<{ privateKey: CryptoKey; publicKey: string }> {
     const keyPair = await crypto.subtle.generateKey(
       {
@@ -106,7 +102,7 @@ beforeEach(() => {
 });
 
 afterEach(() => {
-  // Keep for symmetry / future expansion
+  vi.unstubAllGlobals();
 });
 
 describe('automata-client', () => {
@@ -243,6 +239,194 @@ describe('automata-client', () => {
     });
   });
 
+  describe('sendEvent', () => {
+    function stubFetch(status: number, data: unknown) {
+      const fetchMock = vi.fn(
+        async (_url: string, _init?: RequestInit) =>
+          new Response(JSON.stringify(data), {
+            status,
+            headers: { 'Content-Type': 'application/json' },
+          })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('should send expectedVersion in the request body', async () => {
+      const client = await createClient({
+        baseUrl: 'http://localhost:3201',
+        accountId: 'test-account',
+        cryptoProvider: createMockCryptoProvider(),
+      });
+      const fetchMock = stubFetch(200, { baseVersion: '000003', newVersion: '000004' });
+
+      const response = await client.sendEvent(
+        'automata-1',
+        'SET',
+        { v: 1 },
+        {
+          expectedVersion: '000003',
+        }
+      );
+
+      expect(response.status).toBe(200);
+      const init = fetchMock.mock.calls[0][1] as RequestInit;
+      expect(JSON.parse(init.body as string)).toEqual({
+        eventType: 'SET',
+        eventData: { v: 1 },
+        expectedVersion: '000003',
+      });
+    });
+
+    it('should still accept an account ID string as the fourth argument', async () => {
+      const client = await createClient({
+        baseUrl: 'http://localhost:3201',
+        accountId: 'test-account',
+        cryptoProvider: createMockCryptoProvider(),
+      });
+      const fetchMock = stubFetch(200, { baseVersion: '000003', newVersion: '000004' });
+
+      await client.sendEvent('automata-1', 'SET', { v: 1 }, 'other-account');
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'http://localhost:3201/v1/accounts/other-account/automatas/automata-1/events'
+      );
+    });
+
+    it('should include the device ID in the request signature', async () => {
+      const client = (
+        await createClient({
+          baseUrl: 'http://localhost:3201',
+          accountId: 'test-account',
+          cryptoProvider: createMockCryptoProvider(),
+        })
+      ).withDeviceId('device-1');
+      const fetchMock = stubFetch(200, { baseVersion: '000003', newVersion: '000004' });
+
+      await client.sendEvent('automata-1', 'SET', { v: 1 });
+
+      const headers = (fetchMock.mock.calls[0][1] as RequestInit).headers as Record<string, string>;
+      expect(client.getDeviceId()).toBe('device-1');
+      expect(headers['X-Signature']).toMatch(
+        /^Algorithm=ECDSA-P256, DeviceId=device-1, Signature=/
+      );
+    });
+
+    it('should throw VersionConflictError on 409 VERSION_CONFLICT', async () => {
+      const client = await createClient({
+        baseUrl: 'http://localhost:3201',
+        accountId: 'test-account',
+        cryptoProvider: createMockCryptoProvider(),
+      });
+      stubFetch(409, {
+        error: 'Version conflict. Please retry with latest version.',
+        code: 'VERSION_CONFLICT',
+        currentVersion: '000005',
+        currentState: { v: 5 },
+      });
+
+      const error = await client
+        .sendEvent('automata-1', 'SET', { v: 1 }, { expectedVersion: '000003' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error.currentVersion).toBe('000005');
+      expect(error.currentState).toEqual({ v: 5 });
+      expect(error.expectedVersion).toBe('000003');
+    });
+  });
+
+  describe('createWsSendEventMessage', () => {
+    it('should build a signed sendEvent message', async () => {
+      const client = (
+        await createClient({
+          baseUrl: 'http://localhost:3201',
+          accountId: 'test-account',
+          cryptoProvider: createMockCryptoProvider(),
+        })
+      ).withDeviceId('device-1');
+
+      const message = await client.createWsSendEventMessage('automata-1', 'SET', { v: 1 });
+
+      expect(message).toMatchObject({
+        action: 'sendEvent',
+        automataId: 'automata-1',
+        eventType: 'SET',
+        eventData: { v: 1 },
+      });
+      expect(message.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(message.signature).toMatch(/^Algorithm=ECDSA-P256, DeviceId=device-1, Signature=/);
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    it('should apply add, remove and replace without mutating the input', () => {
+      const doc = { count: 1, items: ['a', 'b', 'c'], meta: { 'a/b': 1, old: true } };
+
+      const result = applyJsonPatch(doc, [
+        { op: 'replace', path: '/count', value: 2 },
+        { op: 'replace', path: '/items/1', value: 'x' },
+        { op: 'remove', path: '/items/2' },
+        { op: 'remove', path: '/meta/old' },
+        { op: 'replace', path: '/meta/a~1b', value: 2 },
+        { op: 'add', path: '/items/-', value: 'y' },
+      ]);
+
+      expect(result).toEqual({ count: 2, items: ['a', 'x', 'y'], meta: { 'a/b': 2 } });
+      expect(doc.items).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should throw when a path does not exist', () => {
+      expect(() => applyJsonPatch({}, [{ op: 'replace', path: '/missing', value: 1 }])).toThrow();
+    });
+  });
+
+  describe('applyStateUpdate', () => {
+    const update = {
+      type: 'state_update' as const,
+      automataId: 'automata-1',
+      eventType: 'INC',
+      timestamp: '2026-01-01T00:00:00.000Z',
+    };
+
+    it('should apply a patch on top of the matching base version', async () => {
+      const resync = vi.fn();
+      const result = await applyStateUpdate(
+        { version: '000003', state: { count: 3 } },
+        {
+          ...update,
+          baseVersion: '000003',
+          newVersion: '000004',
+          patch: [{ op: 'replace', path: '/count', value: 4 }],
+        },
+        resync
+      );
+
+      expect(result).toEqual({ version: '000004', state: { count: 4 } });
+      expect(resync).not.toHaveBeenCalled();
+    });
+
+    it('should ignore stale updates and resync on a version gap', async () => {
+      const local = { version: '000005', state: { count: 5 } };
+      const resync = vi.fn(async () => ({ version: '000009', state: { count: 9 } }));
+
+      const stale = await applyStateUpdate(
+        local,
+        { ...update, baseVersion: '000004', newVersion: '000005', newState: { count: 5 } },
+        resync
+      );
+      expect(stale).toBe(local);
+
+      const gap = await applyStateUpdate(
+        local,
+        { ...update, baseVersion: '000007', newVersion: '000008', newState: { count: 8 } },
+        resync
+      );
+      expect(gap).toEqual({ version: '000009', state: { count: 9 } });
+      expect(resync).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('signData and verifySignature', () => {
     it('should sign and verify data', async () => {
       // Create client to get a key pair
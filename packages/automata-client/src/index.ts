@@ -51,14 +51,17 @@
 
 // Client
 export { AutomataClient, createClient } from './client';
-
 // Cryptographic utilities (internal use - keys are managed automatically)
 export {
   base64UrlDecode,
   base64UrlEncode,
+  canonicalJson,
+  hashJsonData,
   signData,
   verifySignature,
 } from './crypto';
+// Errors
+export { isVersionConflictResponse, VersionConflictError } from './errors';
 
 // Request signing
 export {
@@ -66,7 +69,10 @@ export {
   generateRequestId,
   generateRequestTimestamp,
   signRequest,
+  signWsEvent,
 } from './signing';
+// WebSocket state sync
+export { applyJsonPatch, applyStateUpdate } from './state-sync';
 
 // Types
 export type {
@@ -79,34 +85,62 @@ export type {
   Automata,
   AutomataEvent,
   AutomataStatus,
+  BlueprintChange,
+  BlueprintCompatibility,
+  BlueprintIssue,
+  BlueprintLatestPointer,
+  BlueprintLatestUpdate,
+  BlueprintMigration,
+  BlueprintReference,
   ClientConfig,
+  CompareBlueprintsResponse,
   CreateAccountResponse,
   CreateAutomataResponse,
   CryptoProvider,
   Device,
+  DeviceKeyAlgorithm,
   DeviceStatus,
   DeviceType,
   GetAccountResponse,
   GetAutomataResponse,
+  GetAutomataStateAtVersionResponse,
   GetAutomataStateResponse,
   GetEventResponse,
   // API Response types
   GetMeResponse,
+  GetUsageRangeResponse,
+  GetUsageResponse,
   GetWsTokenResponse,
   HttpMethod,
+  JsonPatchOperation,
   ListAutomatasOptions,
   ListAutomatasResponse,
   ListDevicesResponse,
   ListEventsOptions,
   ListEventsResponse,
+  LocalAutomataState,
+  MigrateAutomataOptions,
+  MigrateAutomataResponse,
   // Common types
   OAuthProvider,
   RegisterDeviceResponse,
   // Request/Response types
   RequestOptions,
   RevokeDeviceResponse,
+  SendEventOptions,
   SendEventResponse,
+  SimulateBlueprintResponse,
+  SimulationEventInput,
+  SimulationStep,
+  StateSampleCheck,
   TokenProvider,
   UnarchiveAutomataResponse,
   UpdateAccountResponse,
+  UsageGranularity,
+  ValidateBlueprintResponse,
+  VersionConflictResponse,
+  WsEventResultMessage,
+  WsSendEventMessage,
+  WsStateUpdateMessage,
+  WsSubscriptionMode,
 } from './types';
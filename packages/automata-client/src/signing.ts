@@ -6,7 +6,7 @@
  */
 
 import { createHash, randomUUID } from 'node:crypto';
-import type { CryptoProvider } from './types';
+import type { CryptoProvider, WsSendEventMessage } from './types';
 
 /**
  * Headers required for request signing
@@ -68,6 +68,7 @@ export function buildCanonicalRequest(
  * @param body - Request body (JSON string)
  * @param accountId - Account ID for signing
  * @param cryptoProvider - CryptoProvider instance
+ * @param deviceId - Registered device ID, used by the server to look up the public key
  * @returns Signature header value
  */
 export async function signRequest(
@@ -76,14 +77,61 @@ export async function signRequest(
   headers: Record<string, string>,
   body: string | undefined,
   accountId: string,
-  cryptoProvider: CryptoProvider
+  cryptoProvider: CryptoProvider,
+  deviceId?: string
 ): Promise<string> {
   const canonicalRequest = buildCanonicalRequest(method, path, headers, body);
   const hashedRequest = createHash('sha256').update(canonicalRequest).digest('hex');
 
   // Sign the hashed request using CryptoProvider
   const signature = await cryptoProvider.sign(accountId, { hash: hashedRequest });
-  return `Algorithm=ECDSA-P256, Signature=${signature}`;
+  const deviceIdPart = deviceId ? `, DeviceId=${deviceId}` : '';
+  return `Algorithm=ECDSA-P256${deviceIdPart}, Signature=${signature}`;
+}
+
+/**
+ * Build a signed `sendEvent` message for the WebSocket API
+ *
+ * The message is signed like a write request with method `WS`,
+ * path `/automatas/{automataId}/events` and body `{ eventType, eventData }`.
+ *
+ * @param automataId - Target automata ID
+ * @param eventType - Event type
+ * @param eventData - Event payload
+ * @param accountId - Account ID for signing
+ * @param cryptoProvider - CryptoProvider instance
+ * @param deviceId - Registered device ID, used by the server to look up the public key
+ * @returns Message ready to be sent over the WebSocket connection
+ */
+export async function signWsEvent(
+  automataId: string,
+  eventType: string,
+  eventData: unknown,
+  accountId: string,
+  cryptoProvider: CryptoProvider,
+  deviceId?: string
+): Promise<WsSendEventMessage> {
+  const requestId = generateRequestId();
+  const timestamp = generateRequestTimestamp();
+  const signature = await signRequest(
+    'WS',
+    `/automatas/${automataId}/events`,
+    { 'X-Request-Id': requestId, 'X-Request-Timestamp': timestamp },
+    JSON.stringify({ eventType, eventData }),
+    accountId,
+    cryptoProvider,
+    deviceId
+  );
+
+  return {
+    action: 'sendEvent',
+    automataId,
+    eventType,
+    eventData,
+    requestId,
+    timestamp,
+    signature,
+  };
 }
 
 /**
@@ -0,0 +1,155 @@
+/**
+ * WebSocket state synchronization helpers
+ *
+ * Keeps a local copy of an automata's state in sync with `state_update`
+ * messages, applying JSON Patches when the subscription uses `mode: 'patch'`.
+ */
+
+import type { JsonPatchOperation, LocalAutomataState, WsStateUpdateMessage } from './types';
+
+/**
+ * Decode a JSON Pointer (RFC 6901) into path tokens
+ */
+function parsePointer(path: string): string[] {
+  if (path === '') return [];
+  if (!path.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${path}`);
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Resolve an array index token
+ */
+function toIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return length;
+  const index = Number(token);
+  if (!/^(0|[1-9]\d*)$/.test(token) || index > (allowEnd ? length : length - 1)) {
+    throw new Error(`Invalid array index: ${token}`);
+  }
+  return index;
+}
+
+/**
+ * Apply an RFC 6902 JSON Patch (add / remove / replace) to a document
+ *
+ * The input document is not modified.
+ *
+ * @param document - Document to patch
+ * @param patch - Operations to apply in order
+ * @returns Patched copy of the document
+ * @throws Error if an operation targets a path that does not exist
+ */
+export function applyJsonPatch(document: unknown, patch: JsonPatchOperation[]): unknown {
+  let root = structuredClone(document);
+
+  for (const operation of patch) {
+    const tokens = parsePointer(operation.path);
+
+    if (tokens.length === 0) {
+      if (operation.op === 'remove') {
+        throw new Error('Cannot remove the document root');
+      }
+      root = structuredClone(operation.value);
+      continue;
+    }
+
+    let parent: unknown = root;
+    for (const token of tokens.slice(0, -1)) {
+      if (Array.isArray(parent)) {
+        parent = parent[toIndex(token, parent.length, false)];
+      } else if (typeof parent === 'object' && parent !== null && Object.hasOwn(parent, token)) {
+        parent = (parent as Record<string, unknown>)[token];
+      } else {
+        throw new Error(`Path not found: ${operation.path}`);
+      }
+    }
+
+    const key = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+      if (operation.op === 'add') {
+        parent.splice(toIndex(key, parent.length, true), 0, structuredClone(operation.value));
+      } else if (operation.op === 'remove') {
+        parent.splice(toIndex(key, parent.length, false), 1);
+      } else {
+        parent[toIndex(key, parent.length, false)] = structuredClone(operation.value);
+      }
+    } else if (typeof parent === 'object' && parent !== null) {
+      const target = parent as Record<string, unknown>;
+      if (operation.op !== 'add' && !Object.hasOwn(target, key)) {
+        throw new Error(`Path not found: ${operation.path}`);
+      }
+      if (operation.op === 'remove') {
+        delete target[key];
+      } else {
+        target[key] = structuredClone(operation.value);
+      }
+    } else {
+      throw new Error(`Path not found: ${operation.path}`);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Apply a `state_update` message to a local copy of the automata state
+ *
+ * - Updates at or below the local version are ignored (e.g. overlap after a replay)
+ * - Updates whose `baseVersion` does not match the local version indicate a gap,
+ *   and trigger a full resync
+ * - Patches that cannot be applied also trigger a full resync
+ *
+ * @param local - Current local copy, or null if none has been loaded yet
+ * @param message - `state_update` message received over the WebSocket
+ * @param resync - Loads the full current state, e.g. via `client.getAutomataState()`
+ * @returns The new local copy
+ *
+ * @example
+ * ```typescript
+ * ws.onmessage = async ({ data }) => {
+ *   const message = JSON.parse(data);
+ *   if (message.type === 'state_update') {
+ *     mirror = await applyStateUpdate(mirror, message, async () => {
+ *       const { data } = await client.getAutomataState(message.automataId);
+ *       return { version: data.version, state: data.currentState };
+ *     });
+ *   }
+ * };
+ * ```
+ */
+export async function applyStateUpdate(
+  local: LocalAutomataState | null,
+  message: WsStateUpdateMessage,
+  resync: () => Promise<LocalAutomataState>
+): Promise<LocalAutomataState> {
+  if (!local) {
+    return resync();
+  }
+
+  // Versions are fixed-length Base62 strings, so string order matches numeric order
+  if (message.newVersion <= local.version) {
+    return local;
+  }
+
+  if (message.baseVersion !== local.version) {
+    return resync();
+  }
+
+  if (message.patch) {
+    try {
+      return { version: message.newVersion, state: applyJsonPatch(local.state, message.patch) };
+    } catch {
+      return resync();
+    }
+  }
+
+  if ('newState' in message) {
+    return { version: message.newVersion, state: message.newState };
+  }
+
+  return resync();
+}
@@ -63,6 +63,9 @@ export type DeviceStatus = 'active' | 'revoked';
 /** Device type */
 export type DeviceType = 'browser' | 'mobile' | 'desktop' | 'server' | 'other';
 
+/** Device key algorithm (CryptoProvider implementations generate ECDSA P-256 keys) */
+export type DeviceKeyAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
 /**
  * Device entity (represents a client with ECDSA P-256 keypair)
  */
@@ -73,9 +76,12 @@ export interface Device {
   /** Owner Account ID */
   accountId: string;
 
-  /** ECDSA P-256 public key, Base64URL encoded (raw format) */
+  /** Public key, Base64URL encoded (raw format) */
   publicKey: string;
 
+  /** Public key algorithm */
+  keyAlgorithm: DeviceKeyAlgorithm;
+
   /** Device name (user-defined) */
   deviceName: string;
 
@@ -118,6 +124,9 @@ export interface Automata {
   /** Current state */
   currentState: unknown;
 
+  /** Immutable params bound at creation when the blueprint declares `params` */
+  params?: unknown;
+
   /** Current version (6-char Base62) */
   version: string;
 
@@ -249,11 +258,44 @@ export interface RevokeDeviceResponse {
   device: Device;
 }
 
+/** Reference to a stored blueprint, resolved by the server */
+export interface BlueprintReference {
+  appId: string;
+  name: string;
+  /** `latest` (resolved through the latest pointer) or a blueprint hash */
+  version: string;
+}
+
+/** Payload signed by the app owner to move a latest pointer */
+export interface BlueprintLatestUpdate {
+  appId: string;
+  name: string;
+  blueprintId: string;
+  /** Expected current target; null when the pointer has never been set */
+  previousBlueprintId: string | null;
+  /** New pointer revision: current revision + 1, or 1 for the first update */
+  revision: number;
+}
+
+/** GET / PUT /v1/blueprints/:appId/:name/latest response */
+export interface BlueprintLatestPointer {
+  appId: string;
+  name: string;
+  blueprintId: string;
+  /** Starts at 1 and increases by one on every move */
+  revision: number;
+  signature: string;
+  updatedByAccountId: string;
+  updatedAt: string;
+}
+
 /** POST /v1/accounts/:accountId/automatas response */
 export interface CreateAutomataResponse {
   automataId: string;
   blueprintId: string;
   currentState: unknown;
+  /** Params bound at creation (absent when the blueprint declares no `params`) */
+  params?: unknown;
   version: string;
   createdAt: string;
 }
@@ -271,6 +313,12 @@ export interface GetAutomataResponse {
   blueprintId: string;
   blueprint: unknown | null;
   currentState: unknown;
+  /** Params bound at creation (absent when the blueprint declares no `params`) */
+  params?: unknown;
+  /** Current mode when the blueprint declares `modes`, otherwise null */
+  currentMode: string | null;
+  /** Event types that can be sent in the current state (empty when archived or terminal) */
+  allowedEvents: string[];
   version: string;
   status: AutomataStatus;
   createdAt: string;
@@ -284,6 +332,14 @@ export interface GetAutomataStateResponse {
   status: AutomataStatus;
 }
 
+/** GET /v1/accounts/:accountId/automatas/:automataId/state?version=xxxxxx response */
+export interface GetAutomataStateAtVersionResponse {
+  automataId: string;
+  version: string;
+  state: unknown;
+  currentVersion: string;
+}
+
 /** POST /v1/accounts/:accountId/automatas/:automataId/archive response */
 export interface ArchiveAutomataResponse {
   automataId: string;
@@ -298,6 +354,37 @@ export interface UnarchiveAutomataResponse {
   updatedAt: string;
 }
 
+/** Signed migration of an automata to a new hash of the same blueprint */
+export interface BlueprintMigration {
+  appId: string;
+  name: string;
+  /** Hash of the blueprint the automata currently uses */
+  fromHash: string;
+  /** Hash of the target blueprint */
+  toHash: string;
+  /** JSONata expression mapping the old state (`$.state`) to the new state */
+  transform: string;
+}
+
+/** Options for migrating an automata */
+export interface MigrateAutomataOptions {
+  /** Target blueprint content, stored if it is not registered yet */
+  blueprint?: unknown;
+  blueprintSignature?: string;
+  accountId?: string;
+}
+
+/** POST /v1/accounts/:accountId/automatas/:automataId/migrate response */
+export interface MigrateAutomataResponse {
+  eventId: string;
+  /** Blueprint ID after the migration */
+  blueprintId: string;
+  baseVersion: string;
+  newVersion: string;
+  newState: unknown;
+  timestamp: string;
+}
+
 /** POST /v1/accounts/:accountId/automatas/:automataId/events response */
 export interface SendEventResponse {
   eventId: string;
@@ -316,17 +403,200 @@ export interface ListEventsResponse {
 /** GET /v1/accounts/:accountId/automatas/:automataId/events/:version response */
 export type GetEventResponse = AutomataEvent;
 
+/** Usage bucket granularity */
+export type UsageGranularity = 'hour' | 'day' | 'month';
+
+/** GET /v1/accounts/me/usage response */
+export interface GetUsageResponse {
+  accountId: string;
+  role: 'consumer';
+  automataCount: number;
+  eventCount: number;
+  lastActivityAt: string | null;
+}
+
+/** GET /v1/accounts/me/usage?granularity=...&from=...&to=... response */
+export interface GetUsageRangeResponse {
+  accountId: string;
+  role: 'consumer';
+  granularity: UsageGranularity;
+  from: string;
+  to: string;
+  data: Array<{ period: string; automataCount: number; eventCount: number }>;
+  total: { automataCount: number; eventCount: number };
+}
+
+/** A single problem reported by blueprint validation */
+export interface BlueprintIssue {
+  /** Location in the blueprint, e.g. `events.ADD.transition` */
+  path: string;
+  code: string;
+  message: string;
+}
+
+/** POST /v1/blueprints/validate response */
+export interface ValidateBlueprintResponse {
+  /** True when there are no errors (warnings do not block storing) */
+  valid: boolean;
+  /** Blueprint ID computed from the content; null when appId or name is invalid */
+  blueprintId: string | null;
+  /** Content hash of the exact blueprint that should be signed */
+  hash: string;
+  errors: BlueprintIssue[];
+  warnings: BlueprintIssue[];
+}
+
+/** An event to apply in a blueprint simulation */
+export interface SimulationEventInput {
+  eventType: string;
+  eventData?: unknown;
+  /** Event timestamp (ISO 8601); fix it to make `$now()` reproducible */
+  timestamp?: string;
+}
+
+/** Result of one simulated event */
+export interface SimulationStep {
+  eventType: string;
+  baseVersion: string;
+  /** Version after the step (unchanged when the event was rejected) */
+  version: string;
+  /** State after the step (unchanged when the event was rejected) */
+  state: unknown;
+  /** Present when the event was rejected; same shape as the event API error */
+  error?: {
+    code: string;
+    message: string;
+    errors?: Array<{ path: string; message: string }>;
+  };
+}
+
+/** POST /v1/blueprints/simulate response */
+export interface SimulateBlueprintResponse {
+  /** Blueprint or starting state errors; no events are applied when present */
+  errors: BlueprintIssue[];
+  steps: SimulationStep[];
+  finalState: unknown;
+  finalVersion: string;
+}
+
+/** Compatibility of a new blueprint version with the previous one */
+export type BlueprintCompatibility = 'compatible' | 'requires-migration' | 'breaking';
+
+/** A single difference between two blueprint versions */
+export interface BlueprintChange {
+  /** Location of the change, e.g. `state.schema.properties.count.maximum` */
+  path: string;
+  /** `narrowed` / `widened` mean the schema accepts fewer / more values */
+  kind: 'added' | 'removed' | 'changed' | 'narrowed' | 'widened';
+  message: string;
+}
+
+/** Whether an existing state still validates against the new blueprint */
+export interface StateSampleCheck {
+  /** `state.initial` (the old initial state) or `samples[i]` */
+  path: string;
+  valid: boolean;
+  errors: Array<{ path: string; message: string }>;
+}
+
+/** POST /v1/blueprints/compare response */
+export interface CompareBlueprintsResponse {
+  /** Lint errors of either blueprint (paths start with `from` / `to`); nothing is compared when present */
+  errors: BlueprintIssue[];
+  fromBlueprintId: string | null;
+  toBlueprintId: string | null;
+  /** Null when either blueprint has errors */
+  compatibility: BlueprintCompatibility | null;
+  /** Why the result was classified this way */
+  reasons: string[];
+  events: {
+    added: string[];
+    removed: string[];
+    changed: string[];
+  };
+  changes: BlueprintChange[];
+  samples: StateSampleCheck[];
+}
+
 /** POST /v1/ws/token response */
 export interface GetWsTokenResponse {
   token: string;
 }
 
+/** Signed `sendEvent` message for the WebSocket API */
+export interface WsSendEventMessage {
+  action: 'sendEvent';
+  automataId: string;
+  eventType: string;
+  eventData: unknown;
+  requestId: string;
+  timestamp: string;
+  signature: string;
+}
+
+/** Push mode of a WebSocket subscription */
+export type WsSubscriptionMode = 'full' | 'patch';
+
+/** RFC 6902 JSON Patch operation (the server only emits add / remove / replace) */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown };
+
+/** `state_update` message pushed to WebSocket subscribers */
+export interface WsStateUpdateMessage {
+  type: 'state_update';
+  automataId: string;
+  eventType: string;
+  /** Version the update applies to */
+  baseVersion: string;
+  newVersion: string;
+  /** Full new state (`mode: 'full'`, and replayed updates) */
+  newState?: unknown;
+  /** Patch against the `baseVersion` state (`mode: 'patch'`) */
+  patch?: JsonPatchOperation[];
+  /** `newState` is the result of the subscription's `projection`, not the full state */
+  projected?: boolean;
+  timestamp: string;
+}
+
+/** Local copy of an automata's state kept in sync over the WebSocket */
+export interface LocalAutomataState {
+  version: string;
+  state: unknown;
+}
+
+/** `eventResult` message returned to the sender of a WebSocket `sendEvent` */
+export interface WsEventResultMessage {
+  type: 'eventResult';
+  requestId: string;
+  success: boolean;
+  automataId?: string;
+  baseVersion?: string;
+  newVersion?: string;
+  newState?: unknown;
+  error?: string;
+  code?: string;
+  /** Current version when `code` is `VERSION_CONFLICT` */
+  currentVersion?: string;
+  /** Current state when `code` is `VERSION_CONFLICT` */
+  currentState?: unknown;
+  timestamp: string;
+}
+
 /** API Error response */
 export interface ApiErrorResponse {
   error: string;
   code?: string;
 }
 
+/** 409 VERSION_CONFLICT response of POST .../events */
+export interface VersionConflictResponse extends ApiErrorResponse {
+  code: 'VERSION_CONFLICT';
+  currentVersion: string;
+  currentState: unknown;
+}
+
 // ============================================================================
 // Client Configuration
 // ============================================================================
@@ -372,7 +642,7 @@ export interface CryptoProvider {
    * Sign JSON data for an account
    *
    * @param accountId - Account ID
-   * @param data - JSON data to sign (will be stringified and hashed)
+   * @param data - JSON data to sign (hashed over its canonical JSON, see `hashJsonData`)
    * @returns Base64URL-encoded signature
    * @throws Error if account has no key pair
    */
@@ -410,6 +680,14 @@ export interface ClientConfig {
   /** Account ID (required) - used to identify and load/store keys */
   accountId: string;
 
+  /**
+   * Registered device ID for this key pair
+   *
+   * Sent in the X-Signature header so the server can look up the device's public key.
+   * Write requests are rejected without it once the device is registered.
+   */
+  deviceId?: string;
+
   /**
    * CryptoProvider for cryptographic operations
    *
@@ -474,3 +752,17 @@ export interface ListEventsOptions {
   /** Override account ID for this request */
   accountId?: string;
 }
+
+/**
+ * Send event options
+ */
+export interface SendEventOptions {
+  /**
+   * Version the event is based on (optimistic concurrency).
+   * The server rejects the event with VERSION_CONFLICT if the automata has moved on.
+   */
+  expectedVersion?: string;
+
+  /** Override account ID for this request */
+  accountId?: string;
+}
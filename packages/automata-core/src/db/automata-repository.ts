@@ -4,7 +4,13 @@
  * 管理 Automata 的 CRUD 操作
  */
 
-import { GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  type TransactWriteCommandInput,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { ulid } from 'ulid';
 import type {
   Automata,
@@ -13,8 +19,10 @@ import type {
   UpdateAutomataInput,
 } from '../types/automata';
 import { parseBlueprintId } from '../types/blueprint';
-import { INITIAL_VERSION } from '../utils/base62';
+import { INITIAL_VERSION, incrementVersion } from '../utils/base62';
 import { docClient, getTableName, Keys } from './client';
+import { buildEventItem } from './event-repository';
+import { buildSnapshotItem } from './snapshot-repository';
 
 /**
  * 将 DynamoDB Item 转换为 Automata
@@ -25,6 +33,7 @@ function itemToAutomata(item: AutomataItem): Automata {
     ownerAccountId: item.ownerAccountId,
     blueprintId: item.blueprintId,
     appId: item.appId,
+    params: item.params,
     currentState: item.currentState,
     version: item.version,
     status: item.status,
@@ -56,10 +65,14 @@ export async function getAutomataById(automataId: string): Promise<Automata | nu
 
 /**
  * 创建 Automata
+ *
+ * 在一个事务中写入 #META 和初始版本的快照；
+ * 提供初始事件时同时写入 EVT#000000，Automata 直接以版本 000001 出现
  */
 export async function createAutomata(input: CreateAutomataInput): Promise<Automata> {
-  const automataId = ulid();
-  const now = new Date().toISOString();
+  const automataId = input.automataId ?? ulid();
+  const { initialEvent } = input;
+  const now = initialEvent?.timestamp ?? new Date().toISOString();
 
   // 从 blueprintId 解析 appId
   const { appId } = parseBlueprintId(input.blueprintId);
@@ -78,19 +91,39 @@ export async function createAutomata(input: CreateAutomataInput): Promise<Automa
     ownerAccountId: input.ownerAccountId,
     blueprintId: input.blueprintId,
     appId,
-    currentState: input.initialState,
-    version: INITIAL_VERSION,
+    params: input.params,
+    currentState: initialEvent ? initialEvent.newState : input.initialState,
+    version: initialEvent ? incrementVersion(INITIAL_VERSION) : INITIAL_VERSION,
     status: 'active',
     createdAt: now,
     updatedAt: now,
   };
 
-  await docClient.send(
-    new PutCommand({
-      TableName: getTableName(),
-      Item: item,
-    })
-  );
+  // 同时写入初始版本的快照，历史状态重放以此为起点
+  const transactItems: NonNullable<TransactWriteCommandInput['TransactItems']> = [
+    { Put: { TableName: getTableName(), Item: item } },
+    {
+      Put: {
+        TableName: getTableName(),
+        Item: buildSnapshotItem(automataId, INITIAL_VERSION, input.initialState, now),
+      },
+    },
+  ];
+  if (initialEvent) {
+    const { eventType, eventData, senderAccountId } = initialEvent;
+    transactItems.push({
+      Put: {
+        TableName: getTableName(),
+        Item: buildEventItem(
+          { automataId, eventType, eventData, senderAccountId },
+          INITIAL_VERSION,
+          now
+        ),
+      },
+    });
+  }
+
+  await docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
 
   return itemToAutomata(item);
 }
@@ -6,7 +6,13 @@
  */
 
 import { GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
-import type { Blueprint, BlueprintItem, CreateBlueprintInput } from '../types/blueprint';
+import type {
+  Blueprint,
+  BlueprintItem,
+  BlueprintLatestItem,
+  BlueprintLatestPointer,
+  CreateBlueprintInput,
+} from '../types/blueprint';
 import { computeBlueprintId } from '../utils/hash';
 import { docClient, getTableName, Keys } from './client';
 
@@ -21,6 +27,8 @@ function itemToBlueprint(item: BlueprintItem): Blueprint {
     description: item.description,
     state: item.state,
     events: item.events,
+    modes: item.modes,
+    params: item.params,
     signature: item.signature,
     creatorAccountId: item.creatorAccountId,
     createdAt: item.createdAt,
@@ -73,6 +81,8 @@ export async function createBlueprintIfNotExists(input: CreateBlueprintInput): P
     description: input.content.description,
     state: input.content.state,
     events: input.content.events,
+    modes: input.content.modes,
+    params: input.content.params,
     signature: input.signature,
     creatorAccountId: input.creatorAccountId,
     createdAt: now,
@@ -165,3 +175,81 @@ export async function getBlueprintsByApp(
 
   return { blueprints, nextCursor };
 }
+
+/**
+ * 获取 {appId}:{name} 的 latest 指针
+ */
+export async function getLatestBlueprintPointer(
+  appId: string,
+  name: string
+): Promise<BlueprintLatestPointer | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: getTableName(),
+      Key: {
+        pk: Keys.blueprintLatestPk(appId, name),
+        sk: Keys.metaSk(),
+      },
+    })
+  );
+
+  if (!result.Item) {
+    return null;
+  }
+
+  const item = result.Item as BlueprintLatestItem;
+  return {
+    appId: item.appId,
+    name: item.name,
+    blueprintId: item.blueprintId,
+    revision: item.revision,
+    signature: item.signature,
+    updatedByAccountId: item.updatedByAccountId,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * 移动 latest 指针（compare-and-swap）
+ *
+ * 条件写入同时比较当前指向和修订号（pointer.revision - 1）
+ *
+ * @param previousBlueprintId - 期望的当前指向；null 表示指针尚不存在（pointer.revision 须为 1）
+ * @returns 新指针；当前指向或修订号与期望不一致时返回 null
+ */
+export async function setLatestBlueprintPointer(
+  pointer: Omit<BlueprintLatestPointer, 'updatedAt'>,
+  previousBlueprintId: string | null
+): Promise<BlueprintLatestPointer | null> {
+  const updated: BlueprintLatestPointer = { ...pointer, updatedAt: new Date().toISOString() };
+  const item: BlueprintLatestItem = {
+    pk: Keys.blueprintLatestPk(pointer.appId, pointer.name),
+    sk: Keys.metaSk(),
+    ...updated,
+  };
+
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: getTableName(),
+        Item: item,
+        ...(previousBlueprintId === null
+          ? { ConditionExpression: 'attribute_not_exists(pk)' }
+          : {
+              ConditionExpression: 'blueprintId = :previous AND revision = :previousRevision',
+              ExpressionAttributeValues: {
+                ':previous': previousBlueprintId,
+                ':previousRevision': pointer.revision - 1,
+              },
+            }),
+      })
+    );
+  } catch (error: unknown) {
+    if ((error as { name?: string }).name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+
+  return updated;
+}
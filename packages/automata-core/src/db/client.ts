@@ -126,10 +126,12 @@ export const Keys = {
   // Blueprint
   blueprintPk: (blueprintId: string) => `BLUEPRINT#${blueprintId}`,
   blueprintSk: () => '#META',
+  blueprintLatestPk: (appId: string, name: string) => `BLUEPRINT_LATEST#${appId}:${name}`,
 
   // Stats
   statsPk: (statsId: string) => `STATS#${statsId}`,
   statsSk: () => '#META',
+  statsAppliedPk: (recordId: string) => `STATS_APPLIED#${recordId}`,
 
   // GSI1: 多用途索引
   accountGsi1sk: () => '#META',
@@ -45,7 +45,7 @@ export class DeviceRevokedError extends Error {
  */
 function itemToDevice(item: DeviceItem): Device {
   const { pk, sk, gsi1pk, gsi1sk, ...device } = item;
-  return device;
+  return { ...device, keyAlgorithm: device.keyAlgorithm ?? 'Ed25519' };
 }
 
 /**
@@ -59,6 +59,7 @@ export async function registerDevice(input: RegisterDeviceInput): Promise<Device
     deviceId,
     accountId: input.accountId,
     publicKey: input.publicKey,
+    keyAlgorithm: input.keyAlgorithm,
     deviceName: input.deviceName,
     deviceType: input.deviceType,
     status: 'active',
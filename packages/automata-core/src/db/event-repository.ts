@@ -12,6 +12,7 @@ import type {
   QueryEventsInput,
   QueryEventsResult,
 } from '../types/event';
+import { MAX_VERSION } from '../utils/base62';
 import { docClient, getTableName, Keys } from './client';
 
 /**
@@ -29,17 +30,14 @@ function itemToEvent(item: EventItem): AutomataEvent {
 }
 
 /**
- * 创建 Event
- *
- * 注意：调用此函数前应先验证并更新 Automata 的版本
+ * 构建 Event 的 DynamoDB Item
  */
-export async function createEvent(
+export function buildEventItem(
   input: CreateEventInput,
-  baseVersion: string
-): Promise<AutomataEvent> {
-  const now = new Date().toISOString();
-
-  const item: EventItem = {
+  baseVersion: string,
+  timestamp: string
+): EventItem {
+  return {
     // Keys
     pk: Keys.automataPk(input.automataId),
     sk: Keys.eventSk(baseVersion),
@@ -51,8 +49,21 @@ export async function createEvent(
     eventType: input.eventType,
     eventData: input.eventData,
     senderAccountId: input.senderAccountId,
-    timestamp: now,
+    timestamp,
   };
+}
+
+/**
+ * 创建 Event
+ *
+ * 注意：此函数只写入 Event 记录，不更新 Automata 状态。
+ * 处理事件时应使用 commitEvent() 原子地写入 Event 并推进版本。
+ */
+export async function createEvent(
+  input: CreateEventInput,
+  baseVersion: string
+): Promise<AutomataEvent> {
+  const item = buildEventItem(input, baseVersion, new Date().toISOString());
 
   await docClient.send(
     new PutCommand({
@@ -140,6 +151,48 @@ export async function queryEvents(input: QueryEventsInput): Promise<QueryEventsR
   return { events, nextAnchor };
 }
 
+/**
+ * 获取版本区间内的全部 Events（按版本升序）
+ *
+ * @param fromVersion - 起始基准版本（包含）
+ * @param toVersion - 结束基准版本（不包含）
+ */
+export async function getEventRange(
+  automataId: string,
+  fromVersion: string,
+  toVersion: string
+): Promise<AutomataEvent[]> {
+  const events: AutomataEvent[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: getTableName(),
+        KeyConditionExpression: 'pk = :pk AND sk BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':pk': Keys.automataPk(automataId),
+          ':from': Keys.eventSk(fromVersion),
+          ':to': Keys.eventSk(toVersion),
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+        ScanIndexForward: true,
+      })
+    );
+
+    for (const item of result.Items || []) {
+      const event = itemToEvent(item as EventItem);
+      if (event.baseVersion !== toVersion) {
+        events.push(event);
+      }
+    }
+
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return events;
+}
+
 /**
  * 按事件类型查询 Events（使用 LSI）
  */
@@ -180,6 +233,33 @@ export async function queryEventsByType(
   };
 }
 
+/**
+ * 查找不早于指定版本的第一个指定类型的 Event（使用 LSI）
+ */
+export async function findFirstEventByType(
+  automataId: string,
+  eventType: string,
+  fromVersion: string
+): Promise<AutomataEvent | null> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: getTableName(),
+      IndexName: 'lsi1-event-type-index',
+      KeyConditionExpression: 'pk = :pk AND lsi1sk BETWEEN :from AND :to',
+      ExpressionAttributeValues: {
+        ':pk': Keys.automataPk(automataId),
+        ':from': Keys.eventTypeLsi1sk(eventType, fromVersion),
+        ':to': Keys.eventTypeLsi1sk(eventType, MAX_VERSION),
+      },
+      Limit: 1,
+      ScanIndexForward: true,
+    })
+  );
+
+  const item = result.Items?.[0];
+  return item ? itemToEvent(item as EventItem) : null;
+}
+
 /**
  * 获取 Automata 的 Events 数量（用于版本验证）
  */
@@ -8,4 +8,6 @@ export * from './blueprint-repository';
 export * from './client';
 export * from './device-repository';
 export * from './event-repository';
+export * from './snapshot-repository';
+export * from './stats-repository';
 export * from './ws-repository';
@@ -0,0 +1,100 @@
+/**
+ * Snapshot Repository
+ *
+ * 管理 Automata 状态快照的写入和查询
+ */
+
+import { GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { AutomataSnapshot, SnapshotItem } from '../types/snapshot';
+import { docClient, getTableName, Keys } from './client';
+
+/**
+ * 将 DynamoDB Item 转换为 Snapshot
+ */
+function itemToSnapshot(item: SnapshotItem): AutomataSnapshot {
+  return {
+    automataId: item.automataId,
+    version: item.version,
+    state: item.state,
+    createdAt: item.createdAt,
+  };
+}
+
+/**
+ * 构建 Snapshot 的 DynamoDB Item
+ *
+ * 快照总是与对应版本的状态写入放在同一个事务中（见 createAutomata / commitEvent）
+ */
+export function buildSnapshotItem(
+  automataId: string,
+  version: string,
+  state: unknown,
+  createdAt: string
+): SnapshotItem {
+  return {
+    // Keys
+    pk: Keys.automataPk(automataId),
+    sk: Keys.snapshotSk(version),
+
+    // Snapshot fields
+    automataId,
+    version,
+    state,
+    createdAt,
+  };
+}
+
+/**
+ * 获取指定版本的 Snapshot
+ */
+export async function getSnapshot(
+  automataId: string,
+  version: string
+): Promise<AutomataSnapshot | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: getTableName(),
+      Key: {
+        pk: Keys.automataPk(automataId),
+        sk: Keys.snapshotSk(version),
+      },
+    })
+  );
+
+  if (!result.Item) {
+    return null;
+  }
+
+  return itemToSnapshot(result.Item as SnapshotItem);
+}
+
+/**
+ * 查找不晚于指定版本的最近 Snapshot
+ *
+ * Base62 字符集按 ASCII 有序，定长版本号的字典序即数值序
+ */
+export async function findNearestSnapshot(
+  automataId: string,
+  version: string
+): Promise<AutomataSnapshot | null> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: getTableName(),
+      KeyConditionExpression: 'pk = :pk AND sk BETWEEN :from AND :to',
+      ExpressionAttributeValues: {
+        ':pk': Keys.automataPk(automataId),
+        ':from': Keys.snapshotSk(''),
+        ':to': Keys.snapshotSk(version),
+      },
+      ScanIndexForward: false,
+      Limit: 1,
+    })
+  );
+
+  const item = result.Items?.[0];
+  if (!item) {
+    return null;
+  }
+
+  return itemToSnapshot(item as SnapshotItem);
+}
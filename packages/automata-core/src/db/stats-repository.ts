@@ -0,0 +1,226 @@
+/**
+ * Stats Repository
+ *
+ * 统计计数器的原子递增和查询
+ */
+
+import {
+  BatchGetCommand,
+  GetCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { Stats, StatsDelta, StatsIncrement, StatsItem } from '../types/stats';
+import { docClient, getTableName, Keys } from './client';
+
+// BatchGetItem 单次最多 100 个 Key
+const BATCH_GET_LIMIT = 100;
+
+// TransactWriteItems 单次最多 100 项
+export const TRANSACT_WRITE_LIMIT = 100;
+
+// Stream 记录已计入标记的保留时间：2 天（超过 DynamoDB Streams 24 小时的保留期）
+const STREAM_RECORD_MARKER_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+/**
+ * 将 DynamoDB Item 转换为 Stats
+ */
+function itemToStats(item: StatsItem): Stats {
+  return {
+    statsId: item.statsId,
+    automataCount: item.automataCount ?? 0,
+    eventCount: item.eventCount ?? 0,
+    lastActivityAt: item.lastActivityAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * 构建递增计数器的 Update 参数（不存在时自动创建）
+ */
+function buildIncrementUpdate(increment: StatsIncrement, now: string) {
+  const { statsId, delta, activityAt, ttl } = increment;
+  const setExpressions = [
+    '#statsId = :statsId',
+    '#updatedAt = :updatedAt',
+    '#lastActivityAt = :activityAt',
+  ];
+  const expressionAttributeNames: Record<string, string> = {
+    '#statsId': 'statsId',
+    '#updatedAt': 'updatedAt',
+    '#lastActivityAt': 'lastActivityAt',
+    '#automataCount': 'automataCount',
+    '#eventCount': 'eventCount',
+  };
+  const expressionAttributeValues: Record<string, unknown> = {
+    ':statsId': statsId,
+    ':updatedAt': now,
+    ':activityAt': activityAt,
+    ':automataDelta': delta.automataCount ?? 0,
+    ':eventDelta': delta.eventCount ?? 0,
+  };
+
+  if (ttl !== undefined) {
+    setExpressions.push('#ttl = :ttl');
+    expressionAttributeNames['#ttl'] = 'ttl';
+    expressionAttributeValues[':ttl'] = ttl;
+  }
+
+  return {
+    TableName: getTableName(),
+    Key: {
+      pk: Keys.statsPk(statsId),
+      sk: Keys.statsSk(),
+    },
+    UpdateExpression: `SET ${setExpressions.join(', ')} ADD #automataCount :automataDelta, #eventCount :eventDelta`,
+    ExpressionAttributeNames: expressionAttributeNames,
+    ExpressionAttributeValues: expressionAttributeValues,
+  };
+}
+
+/**
+ * 原子递增统计计数器（不存在时自动创建）
+ *
+ * @param statsId - Stats ID
+ * @param delta - 计数增量
+ * @param options.activityAt - 活动时间（默认当前时间）
+ * @param options.ttl - 过期时间（Unix timestamp），仅时间分桶使用
+ */
+export async function incrementStats(
+  statsId: string,
+  delta: StatsDelta,
+  options?: { activityAt?: string; ttl?: number }
+): Promise<void> {
+  const now = new Date().toISOString();
+  await docClient.send(
+    new UpdateCommand(
+      buildIncrementUpdate(
+        { statsId, delta, activityAt: options?.activityAt ?? now, ttl: options?.ttl },
+        now
+      )
+    )
+  );
+}
+
+/**
+ * 查询已计入统计的 Stream 记录
+ *
+ * @param recordIds - Stream 记录的 eventID
+ * @returns 已计入的 eventID
+ */
+export async function getAppliedStreamRecords(recordIds: string[]): Promise<Set<string>> {
+  const applied = new Set<string>();
+  const tableName = getTableName();
+
+  for (let i = 0; i < recordIds.length; i += BATCH_GET_LIMIT) {
+    let keys: Record<string, unknown>[] | undefined = recordIds
+      .slice(i, i + BATCH_GET_LIMIT)
+      .map((recordId) => ({ pk: Keys.statsAppliedPk(recordId), sk: Keys.metaSk() }));
+
+    while (keys && keys.length > 0) {
+      const response = await docClient.send(
+        new BatchGetCommand({
+          RequestItems: { [tableName]: { Keys: keys, ProjectionExpression: 'recordId' } },
+        })
+      );
+
+      for (const item of response.Responses?.[tableName] || []) {
+        applied.add(item.recordId as string);
+      }
+
+      keys = response.UnprocessedKeys?.[tableName]?.Keys as Record<string, unknown>[] | undefined;
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * 将一组 Stream 记录的合并增量计入统计（幂等）
+ *
+ * 在一个事务中写入每条记录的已计入标记并递增计数器；标记已存在时整个事务失败，
+ * 因此同一记录无论重试多少次只计入一次。标记与计数器合计不能超过 TransactWriteItems 的 100 项
+ *
+ * @param recordIds - 本组 Stream 记录的 eventID
+ * @param increments - 本组记录合并后的递增操作
+ */
+export async function applyStreamStats(
+  recordIds: string[],
+  increments: StatsIncrement[]
+): Promise<void> {
+  if (recordIds.length + increments.length > TRANSACT_WRITE_LIMIT) {
+    throw new Error(`Stream stats transaction exceeds ${TRANSACT_WRITE_LIMIT} items`);
+  }
+
+  const now = new Date().toISOString();
+  const ttl = Math.floor(Date.now() / 1000) + STREAM_RECORD_MARKER_TTL_SECONDS;
+  await docClient.send(
+    new TransactWriteCommand({
+      TransactItems: [
+        ...recordIds.map((recordId) => ({
+          Put: {
+            TableName: getTableName(),
+            Item: { pk: Keys.statsAppliedPk(recordId), sk: Keys.metaSk(), recordId, ttl },
+            ConditionExpression: 'attribute_not_exists(pk)',
+          },
+        })),
+        ...increments.map((increment) => ({ Update: buildIncrementUpdate(increment, now) })),
+      ],
+    })
+  );
+}
+
+/**
+ * 获取单个 Stats
+ */
+export async function getStats(statsId: string): Promise<Stats | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: getTableName(),
+      Key: {
+        pk: Keys.statsPk(statsId),
+        sk: Keys.statsSk(),
+      },
+    })
+  );
+
+  if (!result.Item) {
+    return null;
+  }
+
+  return itemToStats(result.Item as StatsItem);
+}
+
+/**
+ * 批量获取 Stats
+ *
+ * @returns statsId -> Stats（不存在的 Stats 不包含在结果中）
+ */
+export async function batchGetStats(statsIds: string[]): Promise<Map<string, Stats>> {
+  const result = new Map<string, Stats>();
+  const tableName = getTableName();
+
+  for (let i = 0; i < statsIds.length; i += BATCH_GET_LIMIT) {
+    let keys: Record<string, unknown>[] | undefined = statsIds
+      .slice(i, i + BATCH_GET_LIMIT)
+      .map((statsId) => ({ pk: Keys.statsPk(statsId), sk: Keys.statsSk() }));
+
+    // 处理 UnprocessedKeys
+    while (keys && keys.length > 0) {
+      const response = await docClient.send(
+        new BatchGetCommand({
+          RequestItems: { [tableName]: { Keys: keys } },
+        })
+      );
+
+      for (const item of response.Responses?.[tableName] || []) {
+        const stats = itemToStats(item as StatsItem);
+        result.set(stats.statsId, stats);
+      }
+
+      keys = response.UnprocessedKeys?.[tableName]?.Keys as Record<string, unknown>[] | undefined;
+    }
+  }
+
+  return result;
+}
@@ -5,7 +5,15 @@
  */
 
 import { randomBytes } from 'node:crypto';
-import { DeleteCommand, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  BatchWriteCommand,
+  type BatchWriteCommandInput,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { Automata } from '../types/automata';
 import type { WsConnection, WsSubscription, WsToken } from '../types/websocket';
 import { docClient, getTableName, Keys } from './client';
 
@@ -17,6 +25,16 @@ const WS_TOKEN_TTL_SECONDS = 5 * 60;
 // 连接有效期：2 小时
 const WS_CONNECTION_TTL_SECONDS = 2 * 60 * 60;
 
+// 广播投递进度保留时间：1 小时（与广播队列的消息保留时间一致）
+const BROADCAST_PROGRESS_TTL_SECONDS = 60 * 60;
+
+// 每条广播进度记录最多保存的连接数（远低于 DynamoDB 单条记录 400KB 的上限）
+export const BROADCAST_PROGRESS_SHARD_SIZE = 1000;
+
+// BatchWriteItem 单次最多 25 条
+const BATCH_WRITE_LIMIT = 25;
+const BATCH_WRITE_MAX_ATTEMPTS = 5;
+
 // ============================================================
 // Key 生成工具
 // ============================================================
@@ -32,11 +50,48 @@ const WsKeys = {
   wsSubByConnPk: (connectionId: string) => `WSSUB#CONN#${connectionId}`,
   wsSubByConnSk: (automataId: string) => `AUTOMATA#${automataId}`,
 
+  wsSubByConnAccountSk: (accountId: string) => `ACCOUNT#${accountId}`,
+  wsSubByConnAppSk: (appId: string) => `APP#${appId}`,
+
   // WS Subscription - 按 Automata 查询 (用于广播)
   wsSubByAutomataPk: (automataId: string) => `WSSUB#AUTOMATA#${automataId}`,
   wsSubByAutomataSk: (connectionId: string) => `CONN#${connectionId}`,
+
+  // WS Subscription - 按账户 / 账户下的 App 查询 (用于广播)
+  wsSubByAccountPk: (accountId: string) => `WSSUB#ACCOUNT#${accountId}`,
+  wsSubByAppPk: (accountId: string, appId: string) => `WSSUB#ACCOUNT#${accountId}#APP#${appId}`,
+
+  // 广播投递进度
+  broadcastProgressPk: (jobId: string) => `BROADCAST#${jobId}`,
+  broadcastProgressSk: (attemptId: string, shard: number) => `DELIVERED#${attemptId}#${shard}`,
 };
 
+/**
+ * 计算订阅记录的两条索引 Key
+ */
+function subscriptionKeys(
+  subscription: Pick<WsSubscription, 'scope' | 'automataId' | 'appId' | 'accountId'>
+): { connSk: string; targetPk: string } {
+  const { scope = 'automata', automataId, appId = '', accountId } = subscription;
+  switch (scope) {
+    case 'account':
+      return {
+        connSk: WsKeys.wsSubByConnAccountSk(accountId),
+        targetPk: WsKeys.wsSubByAccountPk(accountId),
+      };
+    case 'app':
+      return {
+        connSk: WsKeys.wsSubByConnAppSk(appId),
+        targetPk: WsKeys.wsSubByAppPk(accountId, appId),
+      };
+    default:
+      return {
+        connSk: WsKeys.wsSubByConnSk(automataId),
+        targetPk: WsKeys.wsSubByAutomataPk(automataId),
+      };
+  }
+}
+
 // ============================================================
 // WS Token 操作
 // ============================================================
@@ -167,7 +222,7 @@ export async function deleteConnection(connectionId: string): Promise<void> {
 
   // 2. 删除所有订阅
   for (const sub of subscriptions) {
-    await deleteSubscription(connectionId, sub.automataId);
+    await removeSubscription(sub);
   }
 
   // 3. 删除连接记录
@@ -189,11 +244,34 @@ export async function deleteConnection(connectionId: string): Promise<void> {
 /**
  * 创建订阅
  *
- * 使用双写模式：同时写入按连接索引和按 Automata 索引
+ * 使用双写模式：同时写入按连接索引和按订阅目标（Automata / 账户 / App）索引
  */
 export async function createSubscription(subscription: WsSubscription): Promise<void> {
-  const { connectionId, automataId, accountId, subscribedAt } = subscription;
+  const {
+    connectionId,
+    scope = 'automata',
+    automataId,
+    appId,
+    mode = 'full',
+    filter,
+    projection,
+    accountId,
+    subscribedAt,
+  } = subscription;
+  const { connSk, targetPk } = subscriptionKeys(subscription);
   const ttl = Math.floor(Date.now() / 1000) + WS_CONNECTION_TTL_SECONDS;
+  const attributes = {
+    connectionId,
+    scope,
+    automataId,
+    appId,
+    mode,
+    filter,
+    projection,
+    accountId,
+    subscribedAt,
+    ttl,
+  };
 
   // 双写：按连接索引
   await docClient.send(
@@ -201,37 +279,37 @@ export async function createSubscription(subscription: WsSubscription): Promise<
       TableName: TABLE_NAME,
       Item: {
         pk: WsKeys.wsSubByConnPk(connectionId),
-        sk: WsKeys.wsSubByConnSk(automataId),
-        connectionId,
-        automataId,
-        accountId,
-        subscribedAt,
-        ttl,
+        sk: connSk,
+        ...attributes,
       },
     })
   );
 
-  // 双写：按 Automata 索引 (用于广播)
+  // 双写：按订阅目标索引 (用于广播)
   await docClient.send(
     new PutCommand({
       TableName: TABLE_NAME,
       Item: {
-        pk: WsKeys.wsSubByAutomataPk(automataId),
+        pk: targetPk,
         sk: WsKeys.wsSubByAutomataSk(connectionId),
-        connectionId,
-        automataId,
-        accountId,
-        subscribedAt,
-        ttl,
+        ...attributes,
       },
     })
   );
 }
 
 /**
- * 删除订阅
+ * 删除订阅记录（任意范围）
  */
-export async function deleteSubscription(connectionId: string, automataId: string): Promise<void> {
+export async function removeSubscription(
+  subscription: Pick<
+    WsSubscription,
+    'connectionId' | 'scope' | 'automataId' | 'appId' | 'accountId'
+  >
+): Promise<void> {
+  const { connectionId } = subscription;
+  const { connSk, targetPk } = subscriptionKeys(subscription);
+
   // 双删
   await Promise.all([
     docClient.send(
@@ -239,7 +317,7 @@ export async function deleteSubscription(connectionId: string, automataId: strin
         TableName: TABLE_NAME,
         Key: {
           pk: WsKeys.wsSubByConnPk(connectionId),
-          sk: WsKeys.wsSubByConnSk(automataId),
+          sk: connSk,
         },
       })
     ),
@@ -247,7 +325,7 @@ export async function deleteSubscription(connectionId: string, automataId: strin
       new DeleteCommand({
         TableName: TABLE_NAME,
         Key: {
-          pk: WsKeys.wsSubByAutomataPk(automataId),
+          pk: targetPk,
           sk: WsKeys.wsSubByAutomataSk(connectionId),
         },
       })
@@ -255,40 +333,138 @@ export async function deleteSubscription(connectionId: string, automataId: strin
   ]);
 }
 
+/**
+ * 批量写入（按 BatchWriteItem 上限 25 条分批；未处理的记录退避重试）
+ *
+ * @param description - 重试耗尽时错误信息中的记录描述
+ */
+async function batchWrite(
+  requests: NonNullable<BatchWriteCommandInput['RequestItems']>[string],
+  description: string
+): Promise<void> {
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_LIMIT) {
+    let pending = requests.slice(i, i + BATCH_WRITE_LIMIT);
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt >= BATCH_WRITE_MAX_ATTEMPTS) {
+        throw new Error(`Failed to write ${pending.length} ${description}`);
+      }
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [TABLE_NAME]: pending } })
+      );
+      pending = result.UnprocessedItems?.[TABLE_NAME] ?? [];
+    }
+  }
+}
+
+/**
+ * 批量删除订阅记录
+ *
+ * 每条订阅对应两条记录，按 BatchWriteItem 上限 25 条分批；未处理的记录退避重试
+ */
+export async function removeSubscriptions(
+  subscriptions: Pick<
+    WsSubscription,
+    'connectionId' | 'scope' | 'automataId' | 'appId' | 'accountId'
+  >[]
+): Promise<void> {
+  const deleteRequests = subscriptions.flatMap((sub) => {
+    const { connSk, targetPk } = subscriptionKeys(sub);
+    return [
+      { DeleteRequest: { Key: { pk: WsKeys.wsSubByConnPk(sub.connectionId), sk: connSk } } },
+      {
+        DeleteRequest: {
+          Key: { pk: targetPk, sk: WsKeys.wsSubByAutomataSk(sub.connectionId) },
+        },
+      },
+    ];
+  });
+
+  await batchWrite(deleteRequests, 'subscription records');
+}
+
+/**
+ * 删除单个 Automata 的订阅
+ */
+export async function deleteSubscription(connectionId: string, automataId: string): Promise<void> {
+  await removeSubscription({ connectionId, scope: 'automata', automataId, accountId: '' });
+}
+
+/**
+ * 查询分区下的全部记录（按 LastEvaluatedKey 翻页，单次 Query 最多返回 1MB）
+ */
+async function queryPartition<T>(pk: string): Promise<T[]> {
+  const items: T[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'pk = :pk',
+        ExpressionAttributeValues: {
+          ':pk': pk,
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    items.push(...((result.Items || []) as T[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
+
 /**
  * 获取连接的所有订阅
  */
 export async function getSubscriptionsByConnection(
   connectionId: string
 ): Promise<WsSubscription[]> {
-  const result = await docClient.send(
-    new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk',
-      ExpressionAttributeValues: {
-        ':pk': WsKeys.wsSubByConnPk(connectionId),
-      },
-    })
-  );
-
-  return (result.Items || []) as WsSubscription[];
+  return queryPartition<WsSubscription>(WsKeys.wsSubByConnPk(connectionId));
 }
 
 /**
  * 获取 Automata 的所有订阅者 (用于广播)
  */
 export async function getSubscribersByAutomata(automataId: string): Promise<WsSubscription[]> {
-  const result = await docClient.send(
-    new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'pk = :pk',
-      ExpressionAttributeValues: {
-        ':pk': WsKeys.wsSubByAutomataPk(automataId),
-      },
-    })
-  );
+  return queryPartition<WsSubscription>(WsKeys.wsSubByAutomataPk(automataId));
+}
+
+/**
+ * 获取账户范围的订阅者
+ */
+export async function getSubscribersByAccount(accountId: string): Promise<WsSubscription[]> {
+  return queryPartition<WsSubscription>(WsKeys.wsSubByAccountPk(accountId));
+}
+
+/**
+ * 获取账户下指定 App 范围的订阅者
+ */
+export async function getSubscribersByApp(
+  accountId: string,
+  appId: string
+): Promise<WsSubscription[]> {
+  return queryPartition<WsSubscription>(WsKeys.wsSubByAppPk(accountId, appId));
+}
 
-  return (result.Items || []) as WsSubscription[];
+/**
+ * 获取与 Automata 相关的所有订阅（单个 Automata、所属账户、所属账户下的 App）
+ *
+ * 同一连接可能通过多个范围命中，调用方按 connectionId 去重推送
+ */
+export async function getSubscribersForAutomata(
+  automata: Pick<Automata, 'automataId' | 'ownerAccountId' | 'appId'>
+): Promise<WsSubscription[]> {
+  const [byAutomata, byAccount, byApp] = await Promise.all([
+    getSubscribersByAutomata(automata.automataId),
+    getSubscribersByAccount(automata.ownerAccountId),
+    getSubscribersByApp(automata.ownerAccountId, automata.appId),
+  ]);
+  return [...byAutomata, ...byAccount, ...byApp];
 }
 
 /**
@@ -307,3 +483,48 @@ export async function isSubscribed(connectionId: string, automataId: string): Pr
 
   return !!result.Item;
 }
+
+// ============================================================
+// 广播投递进度
+// ============================================================
+
+/**
+ * 获取广播任务已投递的连接
+ *
+ * @param jobId - 广播任务 ID（见 getBroadcastJobId）
+ */
+export async function getBroadcastProgress(jobId: string): Promise<string[]> {
+  const shards = await queryPartition<{ connectionIds?: string[] }>(
+    WsKeys.broadcastProgressPk(jobId)
+  );
+  return shards.flatMap((shard) => shard.connectionIds || []);
+}
+
+/**
+ * 追加记录广播任务本次投递成功的连接（任务重新投递时跳过这些连接）
+ *
+ * 每次追加写入新的分片记录，每片最多 BROADCAST_PROGRESS_SHARD_SIZE 个连接，
+ * 进度记录的大小不随订阅者数量和重试次数增长
+ */
+export async function saveBroadcastProgress(
+  jobId: string,
+  deliveredConnectionIds: string[]
+): Promise<void> {
+  const attemptId = randomBytes(8).toString('hex');
+  const ttl = Math.floor(Date.now() / 1000) + BROADCAST_PROGRESS_TTL_SECONDS;
+  const putRequests = [];
+  for (let i = 0; i < deliveredConnectionIds.length; i += BROADCAST_PROGRESS_SHARD_SIZE) {
+    putRequests.push({
+      PutRequest: {
+        Item: {
+          pk: WsKeys.broadcastProgressPk(jobId),
+          sk: WsKeys.broadcastProgressSk(attemptId, i / BROADCAST_PROGRESS_SHARD_SIZE),
+          connectionIds: deliveredConnectionIds.slice(i, i + BROADCAST_PROGRESS_SHARD_SIZE),
+          ttl,
+        },
+      },
+    });
+  }
+
+  await batchWrite(putRequests, 'broadcast progress records');
+}
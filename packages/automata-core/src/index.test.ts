@@ -1,14 +1,52 @@
-import { describe, expect, it } from 'vitest';
+import * as crypto from 'node:crypto';
+import { base64UrlEncode, hashJsonData, signData } from '@automabase/automata-client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import {
+  type Blueprint,
+  type BlueprintContent,
+  BlueprintValidationError,
+  BROADCAST_PROGRESS_SHARD_SIZE,
+  buildStatsId,
+  checkExpressionCost,
+  compareBlueprints,
   compareVersions,
+  createJsonPatch,
   decodeBase62,
   encodeBase62,
   encodeBase62Padded,
+  evaluateSubscription,
+  executeMigration,
+  executeTransition,
   generateAccountIdFromBase64,
   generateAccountIdFromPublicKey,
+  generateEd25519KeyPair,
+  getBroadcastProgress,
+  getDocClient,
+  getModeInfo,
+  getTimeBuckets,
   INITIAL_VERSION,
   incrementVersion,
+  inferKeyAlgorithm,
+  initializeAutomata,
+  isBlueprintReference,
+  LruCache,
+  lintBlueprint,
+  listPeriods,
+  MAX_EXPRESSION_NODES,
+  type MigratedEventData,
+  processEvent,
+  type SchemaValidationDetails,
+  StatsQueryError,
+  saveBroadcastProgress,
+  setLatestBlueprint,
+  shouldCreateSnapshot,
+  signEd25519,
+  simulateEvents,
+  TransitionError,
+  type TransitionMeta,
   validateBase64PublicKey,
+  validateSubscriptionExpressions,
+  verifyDeviceSignature,
 } from './index';
 
 describe('Base62', () => {
@@ -80,4 +118,942 @@ describe('Hash', () => {
     // Invalid: not base64
     expect(validateBase64PublicKey('not-valid-base64!!!')).toBe(false);
   });
+
+  it('should validate ECDSA P-256 public key format', () => {
+    const p256Key = Buffer.concat([Buffer.from([0x04]), Buffer.alloc(64, 1)]).toString('base64url');
+
+    expect(validateBase64PublicKey(p256Key, 'ECDSA-P256')).toBe(true);
+    expect(validateBase64PublicKey(p256Key, 'Ed25519')).toBe(false);
+    expect(inferKeyAlgorithm(p256Key)).toBe('ECDSA-P256');
+    expect(inferKeyAlgorithm('QUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUFBQUE')).toBe('Ed25519');
+    expect(inferKeyAlgorithm('QUFBQUFBQUFB')).toBeNull();
+  });
+});
+
+describe('Device signatures', () => {
+  const message = { b: 1, a: { d: [1, 2], c: 'x' } };
+
+  it('should verify Ed25519 signatures', () => {
+    const { publicKey, privateKey } = generateEd25519KeyPair();
+    const signature = signEd25519(message, privateKey);
+
+    expect(verifyDeviceSignature(message, signature, publicKey, 'Ed25519')).toBe(true);
+    expect(verifyDeviceSignature({ ...message, b: 2 }, signature, publicKey, 'Ed25519')).toBe(
+      false
+    );
+  });
+
+  it('should verify ECDSA P-256 signatures made by the client SDK', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ]);
+    const publicKey = base64UrlEncode(
+      new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+    );
+    // SDK 与服务端都对规范化 JSON 签名 / 验签，键顺序不影响结果
+    const signature = await signData(await hashJsonData(message), keyPair.privateKey);
+    const reordered = { a: { c: 'x', d: [1, 2] }, b: 1 };
+
+    expect(verifyDeviceSignature(message, signature, publicKey, 'ECDSA-P256')).toBe(true);
+    expect(verifyDeviceSignature(reordered, signature, publicKey, 'ECDSA-P256')).toBe(true);
+    expect(verifyDeviceSignature({ ...message, b: 2 }, signature, publicKey, 'ECDSA-P256')).toBe(
+      false
+    );
+    expect(verifyDeviceSignature(message, signature, publicKey, 'Ed25519')).toBe(false);
+  });
+});
+
+describe('JSON Patch', () => {
+  it('should diff nested objects and arrays', () => {
+    const patch = createJsonPatch(
+      { count: 1, items: ['a', 'b', 'c'], meta: { 'a/b': 1, old: true } },
+      { count: 2, items: ['a', 'x'], meta: { 'a/b': 2 }, added: null }
+    );
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/count', value: 2 },
+      { op: 'replace', path: '/items/1', value: 'x' },
+      { op: 'remove', path: '/items/2' },
+      { op: 'remove', path: '/meta/old' },
+      { op: 'replace', path: '/meta/a~1b', value: 2 },
+      { op: 'add', path: '/added', value: null },
+    ]);
+  });
+
+  it('should replace the root when types differ and return nothing for equal values', () => {
+    expect(createJsonPatch([1], { a: 1 })).toEqual([{ op: 'replace', path: '', value: { a: 1 } }]);
+    expect(createJsonPatch({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+});
+
+describe('Broadcast progress', () => {
+  type Command = {
+    input: {
+      RequestItems?: Record<string, Array<{ PutRequest: { Item: Record<string, unknown> } }>>;
+      ExclusiveStartKey?: { offset: number };
+    };
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should shard the delivered connections of a large fan-out across small records', async () => {
+    const stored: Record<string, unknown>[] = [];
+    const batchSizes: number[] = [];
+    vi.spyOn(getDocClient(), 'send').mockImplementation((async ({ input }: Command) => {
+      if (input.RequestItems) {
+        const requests = Object.values(input.RequestItems)[0];
+        batchSizes.push(requests.length);
+        stored.push(...requests.map((request) => request.PutRequest.Item));
+        return {};
+      }
+      // Query：每页 3 条，模拟 1MB 分页
+      const offset = input.ExclusiveStartKey?.offset ?? 0;
+      return {
+        Items: stored.slice(offset, offset + 3),
+        LastEvaluatedKey: offset + 3 < stored.length ? { offset: offset + 3 } : undefined,
+      };
+    }) as never);
+
+    const first = Array.from({ length: 30_000 }, (_, i) => `conn-${i}`.padEnd(16, '='));
+    const second = Array.from({ length: 20_500 }, (_, i) => `retry-${i}`.padEnd(16, '='));
+    await saveBroadcastProgress('a1:state_update:000001', first);
+    await saveBroadcastProgress('a1:state_update:000001', second);
+
+    expect(stored).toHaveLength(30 + 21);
+    expect(Math.max(...batchSizes)).toBeLessThanOrEqual(25);
+    for (const item of stored) {
+      expect((item.connectionIds as string[]).length).toBeLessThanOrEqual(
+        BROADCAST_PROGRESS_SHARD_SIZE
+      );
+      expect(JSON.stringify(item).length).toBeLessThan(400 * 1024);
+    }
+    await expect(getBroadcastProgress('a1:state_update:000001')).resolves.toEqual([
+      ...first,
+      ...second,
+    ]);
+  });
+});
+
+describe('LruCache', () => {
+  it('should evict the least recently used entry beyond its capacity', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+});
+
+describe('Subscription filters', () => {
+  const input = { state: { status: 'PAID', total: 42 }, event: { amount: 2 }, eventType: 'PAY' };
+
+  it('should filter and project state updates', async () => {
+    await expect(evaluateSubscription({ filter: "state.status = 'PAID'" }, input)).resolves.toEqual(
+      {
+        projected: false,
+      }
+    );
+    await expect(evaluateSubscription({ filter: "eventType = 'SHIP'" }, input)).resolves.toBeNull();
+    await expect(evaluateSubscription({ projection: 'state.total' }, input)).resolves.toEqual({
+      projected: true,
+      value: 42,
+    });
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(validateSubscriptionExpressions({ filter: 'state.status =' })).toContain('filter');
+    expect(validateSubscriptionExpressions({ projection: 'x'.repeat(2000) })).toContain(
+      'projection'
+    );
+    expect(validateSubscriptionExpressions({ filter: 'state.ok', projection: 'state' })).toBeNull();
+  });
+});
+
+describe('Snapshot', () => {
+  it('should create snapshots every 62 versions', () => {
+    expect(shouldCreateSnapshot(INITIAL_VERSION)).toBe(true);
+    expect(shouldCreateSnapshot('000001')).toBe(false);
+    expect(shouldCreateSnapshot('00000z')).toBe(false);
+    expect(shouldCreateSnapshot('000010')).toBe(true);
+    expect(shouldCreateSnapshot('000020')).toBe(true);
+  });
+});
+
+describe('Stats', () => {
+  it('should build time buckets in UTC', () => {
+    expect(getTimeBuckets(new Date('2024-01-20T10:15:00Z'))).toEqual({
+      hour: '2024-01-20T10',
+      day: '2024-01-20',
+      month: '2024-01',
+    });
+  });
+
+  it('should build stats ids', () => {
+    expect(buildStatsId('CONSUMER', 'acc1')).toBe('CONSUMER#acc1');
+    expect(buildStatsId('BLUEPRINT', 'app:Name:hash', 'hour', '2024-01-20T10')).toBe(
+      'BLUEPRINT#app:Name:hash#HOUR#2024-01-20T10'
+    );
+  });
+
+  it('should list periods across boundaries', () => {
+    expect(listPeriods('hour', '2024-01-31T22', '2024-02-01T01')).toEqual([
+      '2024-01-31T22',
+      '2024-01-31T23',
+      '2024-02-01T00',
+      '2024-02-01T01',
+    ]);
+    expect(listPeriods('day', '2024-02-28', '2024-03-01')).toEqual([
+      '2024-02-28',
+      '2024-02-29',
+      '2024-03-01',
+    ]);
+    expect(listPeriods('month', '2023-11', '2024-02')).toEqual([
+      '2023-11',
+      '2023-12',
+      '2024-01',
+      '2024-02',
+    ]);
+  });
+
+  it('should reject invalid or oversized ranges', () => {
+    expect(() => listPeriods('month', '2024-13', '2024-14')).toThrow(StatsQueryError);
+    expect(() => listPeriods('day', '2024-03-01', '2024-02-01')).toThrow(StatsQueryError);
+    expect(() => listPeriods('day', '2020-01-01', '2024-01-01')).toThrow(StatsQueryError);
+  });
+});
+
+/**
+ * 捕获 processEvent 抛出的 TransitionError
+ */
+async function catchTransitionError(promise: Promise<unknown>): Promise<TransitionError> {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(TransitionError);
+  return error as TransitionError;
+}
+
+describe('processEvent schema validation', () => {
+  const blueprint: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Counter',
+    state: {
+      schema: {
+        type: 'object',
+        properties: { count: { type: 'integer', maximum: 10 } },
+        required: ['count'],
+      },
+      initial: { count: 0 },
+    },
+    events: {
+      ADD: {
+        schema: {
+          type: 'object',
+          properties: { amount: { type: 'integer', minimum: 1 } },
+          required: ['amount'],
+        },
+        transition: '{ "count": $.state.count + $.event.amount }',
+      },
+    },
+  };
+
+  const paths = (error: TransitionError) =>
+    (error.details as SchemaValidationDetails).errors.map((e) => e.path);
+
+  it('should apply a valid event', async () => {
+    const newState = await processEvent(blueprint, { count: 1 }, 'ADD', { amount: 2 });
+    expect(newState).toEqual({ count: 3 });
+  });
+
+  it('should reject event data that violates the event schema', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { count: 1 }, 'ADD', { amount: 0 })
+    );
+    expect(error.code).toBe('INVALID_EVENT_DATA');
+    expect(paths(error)).toEqual(['/amount']);
+  });
+
+  it('should report missing required properties as JSON pointers', async () => {
+    const error = await catchTransitionError(processEvent(blueprint, { count: 1 }, 'ADD', {}));
+    expect(error.code).toBe('INVALID_EVENT_DATA');
+    expect(paths(error)).toEqual(['/amount']);
+  });
+
+  it('should reject a resulting state that violates the state schema', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { count: 9 }, 'ADD', { amount: 5 })
+    );
+    expect(error.code).toBe('INVALID_RESULT_STATE');
+    expect(paths(error)).toEqual(['/count']);
+  });
+});
+
+describe('initializeAutomata', () => {
+  const blueprint = {
+    blueprintId: 'test-app:Counter:init',
+    appId: 'test-app',
+    name: 'Counter',
+    state: {
+      schema: {
+        type: 'object',
+        properties: { count: { type: 'integer', maximum: 10 } },
+        required: ['count'],
+      },
+      initial: { count: 0 },
+    },
+    events: {
+      ADD: {
+        schema: { type: 'object', properties: { amount: { type: 'integer' } } },
+        transition: '{ "count": $.state.count + $.event.amount }',
+      },
+    },
+  } satisfies BlueprintContent & { blueprintId: string };
+
+  it('should reject an initial state that violates the state schema', async () => {
+    const error = await catchTransitionError(
+      initializeAutomata({ ownerAccountId: 'owner', blueprint, initialState: { count: 'ten' } })
+    );
+    expect(error.code).toBe('INVALID_INITIAL_STATE');
+    expect((error.details as SchemaValidationDetails).errors).toEqual([
+      expect.objectContaining({ path: '/count' }),
+    ]);
+  });
+
+  it('should reject a rejected initial event before creating anything', async () => {
+    const error = await catchTransitionError(
+      initializeAutomata({
+        ownerAccountId: 'owner',
+        blueprint,
+        initialState: { count: 8 },
+        initialEvent: { eventType: 'ADD', eventData: { amount: 5 } },
+      })
+    );
+    expect(error.code).toBe('INVALID_RESULT_STATE');
+  });
+
+  it('should reject params the blueprint does not declare or that violate params.schema', async () => {
+    const undeclared = await catchTransitionError(
+      initializeAutomata({ ownerAccountId: 'owner', blueprint, params: { step: 2 } })
+    );
+    expect(undeclared.code).toBe('INVALID_PARAMS');
+
+    const invalid = await catchTransitionError(
+      initializeAutomata({
+        ownerAccountId: 'owner',
+        blueprint: {
+          ...blueprint,
+          blueprintId: 'test-app:Counter:params',
+          params: {
+            schema: {
+              type: 'object',
+              properties: { step: { type: 'integer', minimum: 1 } },
+              required: ['step'],
+            },
+          },
+        },
+        params: { step: 0 },
+      })
+    );
+    expect(invalid.code).toBe('INVALID_PARAMS');
+    expect((invalid.details as SchemaValidationDetails).errors).toEqual([
+      expect.objectContaining({ path: '/step' }),
+    ]);
+  });
+});
+
+describe('processEvent guards', () => {
+  const blueprint: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Order',
+    state: {
+      schema: { type: 'object', properties: { status: { type: 'string' } } },
+      initial: { status: 'NEW' },
+    },
+    events: {
+      SHIP: {
+        schema: { type: 'object' },
+        guard: "$.state.status = 'PAID'",
+        guardMessage: 'Order must be paid before shipping',
+        transition: '{ "status": "SHIPPED" }',
+      },
+      CANCEL: {
+        schema: { type: 'object' },
+        guard: "$.state.status != 'SHIPPED'",
+        transition: '{ "status": "CANCELLED" }',
+      },
+    },
+  };
+
+  it('should run the transition when the guard passes', async () => {
+    const newState = await processEvent(blueprint, { status: 'PAID' }, 'SHIP', {});
+    expect(newState).toEqual({ status: 'SHIPPED' });
+  });
+
+  it('should reject the event with the blueprint-defined message', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { status: 'NEW' }, 'SHIP', {})
+    );
+    expect(error.code).toBe('GUARD_REJECTED');
+    expect(error.message).toBe('Order must be paid before shipping');
+  });
+
+  it('should fall back to a default message', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { status: 'SHIPPED' }, 'CANCEL', {})
+    );
+    expect(error.code).toBe('GUARD_REJECTED');
+    expect(error.message).toContain('CANCEL');
+  });
+});
+
+describe('executeTransition limits', () => {
+  const limitCode = (promise: Promise<unknown>) =>
+    catchTransitionError(promise).then((error) => error.code);
+
+  // 资源限制依赖 JSONata 未公开的求值钩子；升级 jsonata 后钩子不再触发时此测试失败
+  it('should fire the JSONata evaluation hooks', async () => {
+    await expect(
+      limitCode(executeTransition({}, {}, '{ "n": 1 }', undefined, { maxSteps: 0 }))
+    ).resolves.toBe('EVALUATION_STEPS_EXCEEDED');
+    await expect(
+      limitCode(executeTransition({}, {}, '{ "n": 1 }', undefined, { maxDepth: 0 }))
+    ).resolves.toBe('EVALUATION_DEPTH_EXCEEDED');
+  });
+
+  it('should stop evaluations that exceed the step budget', async () => {
+    const transition = '{ "total": $sum([1..100000].($ * 2)) }';
+    await expect(
+      limitCode(executeTransition({}, {}, transition, undefined, { maxSteps: 1000 }))
+    ).resolves.toBe('EVALUATION_STEPS_EXCEEDED');
+  });
+
+  it('should stop runaway recursion', async () => {
+    const transition = '($f := function($n) { $n = 0 ? 0 : 1 + $f($n - 1) }; { "n": $f(10000) })';
+    await expect(
+      limitCode(executeTransition({}, {}, transition, undefined, { maxDepth: 100 }))
+    ).resolves.toBe('EVALUATION_DEPTH_EXCEEDED');
+  });
+
+  it('should time out long-running evaluations', async () => {
+    const transition = '{ "total": $sum([1..1000000].($ * 2)) }';
+    await expect(
+      limitCode(
+        executeTransition({}, {}, transition, undefined, { timeoutMs: 1, maxSteps: 10_000_000 })
+      )
+    ).resolves.toBe('EVALUATION_TIMEOUT');
+  });
+
+  it('should reject oversized resulting states', async () => {
+    const transition = '{ "text": $pad("", 2000, "x") }';
+    await expect(
+      limitCode(executeTransition({}, {}, transition, undefined, { maxStateBytes: 1024 }))
+    ).resolves.toBe('STATE_TOO_LARGE');
+    await expect(executeTransition({}, {}, transition)).resolves.toHaveProperty('text');
+  });
+
+  it('should reject oversized expressions in the cost preflight', () => {
+    expect(checkExpressionCost('$.state.count + 1')).toBeNull();
+    const huge = Array.from({ length: MAX_EXPRESSION_NODES }, (_, i) => `$.state.v${i}`).join(
+      ' + '
+    );
+    expect(checkExpressionCost(huge)).toContain('nodes');
+  });
+});
+
+describe('isBlueprintReference', () => {
+  it('should distinguish references from blueprint content', () => {
+    expect(isBlueprintReference({ appId: 'app', name: 'Order', version: 'latest' })).toBe(true);
+    expect(
+      isBlueprintReference({
+        appId: 'app',
+        name: 'Order',
+        version: 'latest',
+        state: { schema: {}, initial: null },
+      })
+    ).toBe(false);
+    expect(isBlueprintReference({ appId: 'app', name: 'Order' })).toBe(false);
+    expect(isBlueprintReference('app:Order:hash')).toBe(false);
+  });
+});
+
+describe('setLatestBlueprint', () => {
+  const update = {
+    appId: 'app',
+    name: 'Order',
+    blueprintId: 'app:Order:b',
+    previousBlueprintId: 'app:Order:a',
+  };
+
+  it.each([
+    { revision: 0, previousBlueprintId: null },
+    { revision: 1.5, previousBlueprintId: 'app:Order:a' },
+    { revision: 1, previousBlueprintId: 'app:Order:a' },
+    { revision: 2, previousBlueprintId: null },
+  ])('should reject revision $revision with previous $previousBlueprintId', async (fields) => {
+    const error = await setLatestBlueprint({ ...update, ...fields }, 'sig', 'account-1').catch(
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(BlueprintValidationError);
+    expect((error as BlueprintValidationError).code).toBe('INVALID_LATEST_UPDATE');
+  });
+});
+
+describe('lintBlueprint', () => {
+  const blueprint: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Order',
+    state: {
+      schema: {
+        type: 'object',
+        properties: { status: { enum: ['NEW', 'PAID'] } },
+        required: ['status'],
+      },
+      initial: { status: 'NEW' },
+    },
+    events: {
+      PAY: { schema: { type: 'object' }, transition: '{ "status": "PAID" }' },
+      REFUND: { schema: { type: 'object' }, transition: '{ "status": "NEW" }' },
+    },
+    modes: {
+      discriminator: '$.state.status',
+      table: { NEW: { events: ['PAY'] }, PAID: { terminal: true } },
+    },
+  };
+
+  const codes = (issues: { code: string }[]) => issues.map((issue) => issue.code);
+
+  it('should report the computed blueprintId and warn about unreachable events', async () => {
+    const result = await lintBlueprint(blueprint);
+    expect(result.valid).toBe(true);
+    expect(result.blueprintId).toBe(`test-app:Order:${result.hash}`);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ path: 'events.REFUND', code: 'UNREACHABLE_EVENT' }),
+    ]);
+  });
+
+  it('should collect expression, schema and initial state errors', async () => {
+    const result = await lintBlueprint({
+      ...blueprint,
+      state: { ...blueprint.state, initial: { status: 'LOST' } },
+      events: {
+        PAY: { schema: { type: 'nope' } as never, transition: '{ "status": ' },
+        REFUND: { schema: { type: 'object' }, transition: '{ "status": "NEW" }' },
+      },
+    });
+    expect(result.valid).toBe(false);
+    expect(codes(result.errors)).toEqual(
+      expect.arrayContaining(['INVALID_SCHEMA', 'INVALID_INITIAL_STATE', 'INVALID_EXPRESSION'])
+    );
+  });
+
+  it('should only report structural errors for malformed content', async () => {
+    const result = await lintBlueprint({ appId: 'a:b', state: {} });
+    expect(result.blueprintId).toBeNull();
+    expect(new Set(codes(result.errors))).toEqual(new Set(['INVALID_STRUCTURE']));
+  });
+
+  it('should validate the params schema', async () => {
+    const result = await lintBlueprint({
+      ...blueprint,
+      params: { schema: { type: 'nope' } as never },
+    });
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: 'params.schema', code: 'INVALID_SCHEMA' }),
+    ]);
+  });
+
+  it('should accept schemas with $id across repeated compiles', async () => {
+    const withId: BlueprintContent = {
+      ...blueprint,
+      state: {
+        ...blueprint.state,
+        schema: { ...blueprint.state.schema, $id: 'https://example.com/state' },
+      },
+    };
+    expect((await lintBlueprint(withId)).valid).toBe(true);
+    expect((await lintBlueprint({ ...withId, description: 'v2' })).valid).toBe(true);
+    await expect(processEvent(withId, { status: 'NEW' }, 'PAY', {})).resolves.toEqual({
+      status: 'PAID',
+    });
+  });
+
+  it('should reserve event types starting with $ for system events', async () => {
+    const result = await lintBlueprint({
+      ...blueprint,
+      events: { ...blueprint.events, $MIGRATED: { schema: {}, transition: '$.state' } },
+    });
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: 'events.$MIGRATED', code: 'INVALID_STRUCTURE' }),
+    ]);
+  });
+});
+
+describe('compareBlueprints', () => {
+  const v1: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Counter',
+    state: {
+      schema: {
+        type: 'object',
+        properties: { count: { type: 'number', maximum: 100 } },
+        required: ['count'],
+      },
+      initial: { count: 0 },
+    },
+    events: {
+      ADD: {
+        schema: { type: 'object', properties: { amount: { type: 'number' } } },
+        transition: '{ "count": $.state.count + $.event.amount }',
+      },
+      RESET: { schema: { type: 'object' }, transition: '{ "count": 0 }' },
+    },
+  };
+
+  it('should treat added events and widened schemas as compatible', async () => {
+    const result = await compareBlueprints(v1, {
+      ...v1,
+      state: {
+        ...v1.state,
+        schema: {
+          type: 'object',
+          properties: { count: { type: 'number' }, label: { type: 'string' } },
+          required: ['count'],
+        },
+      },
+      events: { ...v1.events, LABEL: { schema: { type: 'object' }, transition: '$.state' } },
+    });
+
+    expect(result.compatibility).toBe('compatible');
+    expect(result.events).toEqual({ added: ['LABEL'], removed: [], changed: [] });
+    expect(result.changes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: 'state.schema.properties.count.maximum', kind: 'widened' }),
+        expect.objectContaining({ path: 'state.schema.properties.label', kind: 'widened' }),
+      ])
+    );
+  });
+
+  it('should require a migration when sample states no longer validate', async () => {
+    const result = await compareBlueprints(
+      v1,
+      {
+        ...v1,
+        state: {
+          schema: {
+            type: 'object',
+            properties: { count: { type: 'integer', maximum: 10 } },
+            required: ['count'],
+          },
+          initial: { count: 0 },
+        },
+      },
+      [{ count: 5 }, { count: 50 }]
+    );
+
+    expect(result.compatibility).toBe('requires-migration');
+    expect(result.samples.map((sample) => [sample.path, sample.valid])).toEqual([
+      ['state.initial', true],
+      ['samples[0]', true],
+      ['samples[1]', false],
+    ]);
+  });
+
+  it('should flag removed events and narrowed event schemas as breaking', async () => {
+    const result = await compareBlueprints(v1, {
+      ...v1,
+      events: {
+        ADD: {
+          schema: {
+            type: 'object',
+            properties: { amount: { type: 'number' } },
+            required: ['amount'],
+          },
+          transition: v1.events.ADD.transition,
+        },
+      },
+    });
+
+    expect(result.compatibility).toBe('breaking');
+    expect(result.events).toEqual({ added: [], removed: ['RESET'], changed: ['ADD'] });
+    expect(result.changes).toContainEqual(
+      expect.objectContaining({ path: 'events.ADD.schema.required', kind: 'narrowed' })
+    );
+  });
+});
+
+describe('simulateEvents', () => {
+  const blueprint: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Counter',
+    state: {
+      schema: {
+        type: 'object',
+        properties: { count: { type: 'integer', maximum: 10 }, at: { type: 'string' } },
+        required: ['count'],
+      },
+      initial: { count: 0 },
+    },
+    events: {
+      ADD: {
+        schema: {
+          type: 'object',
+          properties: { amount: { type: 'integer' } },
+          required: ['amount'],
+        },
+        transition: '{ "count": $.state.count + $.event.amount, "at": $now() }',
+      },
+    },
+  };
+
+  it('should apply events in order and keep the state of rejected steps', async () => {
+    const result = await simulateEvents(blueprint, [
+      { eventType: 'ADD', eventData: { amount: 2 }, timestamp: '2024-05-01T00:00:00.000Z' },
+      { eventType: 'ADD', eventData: { amount: 20 } },
+      { eventType: 'ADD', eventData: {} },
+      { eventType: 'ADD', eventData: { amount: 3 }, timestamp: '2024-05-02T00:00:00.000Z' },
+    ]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.steps.map((step) => step.error?.code)).toEqual([
+      undefined,
+      'INVALID_RESULT_STATE',
+      'INVALID_EVENT_DATA',
+      undefined,
+    ]);
+    expect(result.steps[1]).toMatchObject({ baseVersion: '000001', version: '000001' });
+    expect(result.steps[2].error?.errors).toEqual([expect.objectContaining({ path: '/amount' })]);
+    expect(result.finalState).toEqual({ count: 5, at: '2024-05-02T00:00:00.000Z' });
+    expect(result.finalVersion).toBe('000002');
+  });
+
+  it('should reject a starting state that violates the state schema', async () => {
+    const result = await simulateEvents(
+      blueprint,
+      [{ eventType: 'ADD', eventData: { amount: 1 } }],
+      {
+        initialState: { count: 'many' },
+      }
+    );
+
+    expect(result.steps).toEqual([]);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: 'initialState/count', code: 'INVALID_INITIAL_STATE' }),
+    ]);
+  });
+});
+
+describe('executeMigration', () => {
+  const target: Blueprint = {
+    blueprintId: 'test-app:Counter:v2',
+    appId: 'test-app',
+    name: 'Counter',
+    signature: null,
+    creatorAccountId: 'owner',
+    createdAt: '2024-05-01T00:00:00.000Z',
+    state: {
+      schema: {
+        type: 'object',
+        properties: { total: { type: 'integer' }, unit: { type: 'string' } },
+        required: ['total', 'unit'],
+      },
+      initial: { total: 0, unit: 'items' },
+    },
+    events: {},
+  };
+
+  const meta: TransitionMeta = {
+    automataId: 'automata-1',
+    baseVersion: '000003',
+    senderAccountId: 'owner',
+    timestamp: '2024-05-02T00:00:00.000Z',
+  };
+
+  const migration = (transform: string): MigratedEventData => ({
+    fromBlueprintId: 'test-app:Counter:v1',
+    toBlueprintId: target.blueprintId,
+    transform,
+    signature: 'sig',
+  });
+
+  it('should map the old state into the target blueprint', async () => {
+    const newState = await executeMigration(
+      { count: 4 },
+      migration('{ "total": $.state.count, "unit": "items" }'),
+      target,
+      meta
+    );
+    expect(newState).toEqual({ total: 4, unit: 'items' });
+  });
+
+  it('should reject a result that violates the target state schema', async () => {
+    const error = await catchTransitionError(
+      executeMigration({ count: 4 }, migration('{ "total": $.state.count }'), target, meta)
+    );
+    expect(error.code).toBe('INVALID_RESULT_STATE');
+    expect((error.details as SchemaValidationDetails).errors).toEqual([
+      expect.objectContaining({ path: '/unit' }),
+    ]);
+  });
+});
+
+describe('processEvent transition meta', () => {
+  const blueprint: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Audit',
+    state: { schema: { type: 'object' }, initial: {} },
+    events: {
+      TOUCH: {
+        schema: { type: 'object' },
+        transition:
+          '{ "by": $.meta.senderAccountId, "at": $now(), "year": $now("[Y0001]"), "ms": $millis(), "roll": $random() }',
+      },
+    },
+  };
+
+  const meta: TransitionMeta = {
+    automataId: 'automata-1',
+    baseVersion: '000001',
+    senderAccountId: 'account-1',
+    timestamp: '2024-05-01T12:00:00.000Z',
+  };
+
+  it('should expose the event metadata and derive $now / $millis from the timestamp', async () => {
+    const newState = await processEvent(blueprint, {}, 'TOUCH', {}, meta);
+    expect(newState).toMatchObject({
+      by: 'account-1',
+      at: '2024-05-01T12:00:00.000Z',
+      year: '2024',
+      ms: Date.parse('2024-05-01T12:00:00.000Z'),
+    });
+  });
+
+  it('should produce the same state when replayed with the same metadata', async () => {
+    const first = await processEvent(blueprint, {}, 'TOUCH', {}, meta);
+    const replayed = await processEvent(blueprint, {}, 'TOUCH', {}, { ...meta });
+    const next = (await processEvent(
+      blueprint,
+      {},
+      'TOUCH',
+      {},
+      {
+        ...meta,
+        baseVersion: '000002',
+      }
+    )) as { roll: number };
+
+    expect(replayed).toEqual(first);
+    expect(next.roll).not.toBe((first as { roll: number }).roll);
+    expect(next.roll).toBeGreaterThanOrEqual(0);
+    expect(next.roll).toBeLessThan(1);
+  });
+});
+
+describe('processEvent params', () => {
+  const blueprint: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Stepper',
+    params: {
+      schema: {
+        type: 'object',
+        properties: { step: { type: 'integer' }, limit: { type: 'integer' } },
+      },
+    },
+    state: { schema: { type: 'object' }, initial: { count: 0 } },
+    events: {
+      STEP: {
+        schema: { type: 'object' },
+        guard: '$.state.count + $.params.step <= $.params.limit',
+        guardMessage: 'Limit reached',
+        transition: '{ "count": $.state.count + $.params.step, "meta": $keys($.meta) }',
+      },
+    },
+  };
+
+  const meta: TransitionMeta = {
+    automataId: 'automata-1',
+    baseVersion: '000001',
+    senderAccountId: 'account-1',
+    timestamp: '2024-05-01T12:00:00.000Z',
+    params: { step: 3, limit: 5 },
+  };
+
+  it('should expose params as $.params but not as part of $.meta', async () => {
+    const newState = (await processEvent(blueprint, { count: 0 }, 'STEP', {}, meta)) as {
+      count: number;
+      meta: string[];
+    };
+    expect(newState.count).toBe(3);
+    expect(newState.meta).not.toContain('params');
+  });
+
+  it('should evaluate guards against the params', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { count: 3 }, 'STEP', {}, meta)
+    );
+    expect(error.code).toBe('GUARD_REJECTED');
+  });
+});
+
+describe('processEvent modes', () => {
+  const blueprint: BlueprintContent = {
+    appId: 'test-app',
+    name: 'Door',
+    state: {
+      schema: { type: 'object', properties: { status: { type: 'string' } } },
+      initial: { status: 'closed' },
+    },
+    events: {
+      OPEN: { schema: { type: 'object' }, transition: '{ "status": "open" }' },
+      CLOSE: { schema: { type: 'object' }, transition: '{ "status": "closed" }' },
+      DEMOLISH: { schema: { type: 'object' }, transition: '{ "status": "gone" }' },
+      BREAK: { schema: { type: 'object' }, transition: '{ "status": "broken" }' },
+    },
+    modes: {
+      discriminator: '$.state.status',
+      table: {
+        closed: { events: ['OPEN', 'DEMOLISH', 'BREAK'] },
+        open: { events: ['CLOSE'] },
+        gone: { terminal: true },
+      },
+    },
+  };
+
+  it('should expose the current mode and allowed events', async () => {
+    await expect(getModeInfo(blueprint, { status: 'open' })).resolves.toEqual({
+      currentMode: 'open',
+      allowedEvents: ['CLOSE'],
+    });
+    await expect(getModeInfo(blueprint, { status: 'gone' })).resolves.toEqual({
+      currentMode: 'gone',
+      allowedEvents: [],
+    });
+  });
+
+  it('should reject events not allowed in the current mode', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { status: 'open' }, 'OPEN', {})
+    );
+    expect(error.code).toBe('EVENT_NOT_ALLOWED');
+    expect(error.details).toEqual({ currentMode: 'open', allowedEvents: ['CLOSE'] });
+  });
+
+  it('should reject all events in terminal modes', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { status: 'gone' }, 'OPEN', {})
+    );
+    expect(error.code).toBe('TERMINAL_MODE');
+  });
+
+  it('should reject transitions into undeclared modes', async () => {
+    const error = await catchTransitionError(
+      processEvent(blueprint, { status: 'closed' }, 'BREAK', {})
+    );
+    expect(error.code).toBe('UNKNOWN_MODE');
+  });
 });
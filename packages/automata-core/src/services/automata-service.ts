@@ -0,0 +1,156 @@
+/**
+ * Automata Service
+ *
+ * 创建 Automata：绑定参数、校验自定义初始状态，并可在同一事务中提交初始事件
+ */
+
+import { ulid } from 'ulid';
+import { createAutomata } from '../db/automata-repository';
+import type { Automata } from '../types/automata';
+import type { BlueprintContent } from '../types/blueprint';
+import { INITIAL_VERSION } from '../utils/base62';
+import {
+  type BlueprintValidators,
+  getBlueprintValidators,
+  validateWithSchema,
+} from './schema-validator';
+import {
+  getModeInfo,
+  processEvent,
+  type SchemaValidationDetails,
+  TransitionError,
+  type TransitionMeta,
+} from './transition-engine';
+
+/**
+ * 初始事件
+ */
+export interface InitialEventInput {
+  /** 事件类型 */
+  eventType: string;
+
+  /** 事件负载数据 */
+  eventData?: unknown;
+}
+
+/**
+ * 创建 Automata 的输入
+ */
+export interface InitializeAutomataInput {
+  /** 归属的 Account ID（同时是初始事件的发送者） */
+  ownerAccountId: string;
+
+  /** 已存储的 Blueprint */
+  blueprint: BlueprintContent & { blueprintId: string };
+
+  /** 自定义初始状态（可选，默认 state.initial），须符合状态 Schema */
+  initialState?: unknown;
+
+  /** Blueprint 参数（Blueprint 声明 params 时使用，默认 {}），须符合 params.schema */
+  params?: unknown;
+
+  /** 初始事件（可选），作为版本 000000 → 000001 与创建原子提交 */
+  initialEvent?: InitialEventInput;
+}
+
+/**
+ * 校验并返回要绑定的参数
+ *
+ * @returns Blueprint 未声明 params 时为 undefined
+ * @throws TransitionError - INVALID_PARAMS
+ */
+export function resolveParams(validators: BlueprintValidators, params: unknown): unknown {
+  if (!validators.params) {
+    if (params !== undefined) {
+      throw new TransitionError('Blueprint does not declare params', 'INVALID_PARAMS', {
+        errors: [],
+      });
+    }
+    return undefined;
+  }
+
+  const resolved = params === undefined ? {} : params;
+  const errors = validateWithSchema(validators.params, resolved);
+  if (errors.length > 0) {
+    const details: SchemaValidationDetails = { errors };
+    throw new TransitionError('Params do not match params schema', 'INVALID_PARAMS', details);
+  }
+  return resolved;
+}
+
+/**
+ * 创建 Automata
+ *
+ * 1. 参数须符合 params.schema（INVALID_PARAMS）；Blueprint 未声明 params 时不接受参数
+ * 2. 自定义初始状态须符合状态 Schema（INVALID_INITIAL_STATE），并落在声明的模式中
+ * 3. 提供初始事件时，以初始状态为起点执行 processEvent
+ * 4. 在一个事务中写入 Automata（含不可变的参数）、初始快照及初始事件；
+ *    不会出现未初始化完成的 Automata
+ *
+ * @throws TransitionError - 参数或初始状态无效，或初始事件被拒绝
+ */
+export async function initializeAutomata(input: InitializeAutomataInput): Promise<Automata> {
+  const { ownerAccountId, blueprint, initialEvent } = input;
+  const initialState =
+    input.initialState === undefined ? blueprint.state.initial : input.initialState;
+  const validators = getBlueprintValidators(blueprint.blueprintId, blueprint);
+
+  const params = resolveParams(validators, input.params);
+
+  if (input.initialState !== undefined) {
+    const errors = validateWithSchema(validators.state, initialState);
+    if (errors.length > 0) {
+      const details: SchemaValidationDetails = { errors };
+      throw new TransitionError(
+        'Initial state does not match state schema',
+        'INVALID_INITIAL_STATE',
+        details
+      );
+    }
+    if (blueprint.modes) {
+      await getModeInfo(blueprint, initialState);
+    }
+  }
+
+  const automataId = ulid();
+  if (!initialEvent) {
+    return createAutomata({
+      automataId,
+      ownerAccountId,
+      blueprintId: blueprint.blueprintId,
+      initialState,
+      params,
+    });
+  }
+
+  // 转换上下文与 Event 记录使用同一时间戳，保证可重放
+  const meta: TransitionMeta = {
+    automataId,
+    baseVersion: INITIAL_VERSION,
+    senderAccountId: ownerAccountId,
+    timestamp: new Date().toISOString(),
+    params,
+  };
+  const newState = await processEvent(
+    blueprint,
+    initialState,
+    initialEvent.eventType,
+    initialEvent.eventData,
+    meta
+  );
+
+  return createAutomata({
+    automataId,
+    ownerAccountId,
+    blueprintId: blueprint.blueprintId,
+    initialState,
+    params,
+    initialEvent: {
+      eventType: initialEvent.eventType,
+      eventData: initialEvent.eventData,
+      senderAccountId: ownerAccountId,
+      newState,
+      timestamp: meta.timestamp,
+    },
+  });
+}
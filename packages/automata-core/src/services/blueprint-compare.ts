@@ -0,0 +1,460 @@
+/**
+ * Blueprint Compare
+ *
+ * 发布新版本前比较两个 Blueprint：事件类型增删改、状态/事件 Schema 的收紧与放宽，
+ * 以及旧初始状态和样本状态在新版本下是否仍然有效
+ */
+
+import type { JSONSchema7, JSONSchema7Definition } from 'json-schema';
+import type { BlueprintContent } from '../types/blueprint';
+import { canonicalize } from '../utils/hash';
+import { type BlueprintIssue, lintBlueprint } from './blueprint-lint';
+import { compileSchema, type SchemaValidationIssue, validateWithSchema } from './schema-validator';
+import { getModeInfo, TransitionError } from './transition-engine';
+
+/**
+ * 单次比较的最大样本状态数
+ */
+export const MAX_COMPARE_SAMPLES = 100;
+
+/**
+ * 兼容性分类
+ *
+ * - compatible: 现有 Automata 和客户端可直接使用新版本
+ * - requires-migration: 现有状态可能不符合新版本，需要迁移（见 POST .../migrate）
+ * - breaking: 已有事件被删除或事件 Schema 收紧，现有客户端会失败
+ */
+export type BlueprintCompatibility = 'compatible' | 'requires-migration' | 'breaking';
+
+/**
+ * 变更类型；narrowed / widened 表示 Schema 接受的值变少 / 变多，
+ * changed 表示无法判断方向（按收紧处理）
+ */
+export type BlueprintChangeKind = 'added' | 'removed' | 'changed' | 'narrowed' | 'widened';
+
+/**
+ * 单条变更
+ */
+export interface BlueprintChange {
+  /** 变更位置（例如 state.schema.properties.count.maximum） */
+  path: string;
+
+  kind: BlueprintChangeKind;
+
+  message: string;
+}
+
+/**
+ * 样本状态在新版本下的校验结果
+ */
+export interface StateSampleCheck {
+  /** 样本来源：state.initial（旧初始状态）或 samples[i] */
+  path: string;
+
+  valid: boolean;
+
+  /** 不符合新状态 Schema 或不属于新版本声明的模式时的错误 */
+  errors: SchemaValidationIssue[];
+}
+
+/**
+ * 比较结果
+ */
+export interface BlueprintComparison {
+  /** 任一 Blueprint 检查失败时的错误（路径以 from / to 开头）；非空时不做比较 */
+  errors: BlueprintIssue[];
+
+  fromBlueprintId: string | null;
+  toBlueprintId: string | null;
+
+  /** 兼容性分类；errors 非空时为 null */
+  compatibility: BlueprintCompatibility | null;
+
+  /** 得出该分类的原因 */
+  reasons: string[];
+
+  /** 事件类型的增删改 */
+  events: {
+    added: string[];
+    removed: string[];
+    changed: string[];
+  };
+
+  /** 全部变更 */
+  changes: BlueprintChange[];
+
+  /** 旧初始状态及样本状态的校验结果 */
+  samples: StateSampleCheck[];
+}
+
+/**
+ * 只影响文档、不影响校验的 Schema 关键字
+ */
+const ANNOTATION_KEYWORDS = new Set([
+  '$id',
+  '$schema',
+  '$comment',
+  'title',
+  'description',
+  'default',
+  'examples',
+  'readOnly',
+  'writeOnly',
+]);
+
+/**
+ * 下限关键字：值变大为收紧
+ */
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+
+/**
+ * 上限关键字：值变小为收紧
+ */
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+
+/**
+ * 单独比较的关键字
+ */
+const STRUCTURAL_KEYWORDS = new Set([
+  'type',
+  'enum',
+  'const',
+  'required',
+  'properties',
+  'additionalProperties',
+  'items',
+  ...LOWER_BOUNDS,
+  ...UPPER_BOUNDS,
+]);
+
+function same(a: unknown, b: unknown): boolean {
+  return canonicalize(a) === canonicalize(b);
+}
+
+/**
+ * 比较两个取值集合：to 是 from 的子集为收紧，反之为放宽
+ *
+ * undefined 表示不限制
+ */
+function compareSets(
+  from: unknown[] | undefined,
+  to: unknown[] | undefined,
+  contains: (set: unknown[], value: unknown) => boolean
+): BlueprintChangeKind | null {
+  if (from === undefined && to === undefined) {
+    return null;
+  }
+  if (from === undefined) {
+    return 'narrowed';
+  }
+  if (to === undefined) {
+    return 'widened';
+  }
+  const toInFrom = to.every((value) => contains(from, value));
+  const fromInTo = from.every((value) => contains(to, value));
+  if (toInFrom && fromInTo) {
+    return null;
+  }
+  if (toInFrom) {
+    return 'narrowed';
+  }
+  return fromInTo ? 'widened' : 'changed';
+}
+
+function typesOf(schema: JSONSchema7): unknown[] | undefined {
+  if (schema.type === undefined) {
+    return undefined;
+  }
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function valuesOf(schema: JSONSchema7): unknown[] | undefined {
+  if (schema.const !== undefined) {
+    return [schema.const];
+  }
+  return schema.enum;
+}
+
+const containsType = (set: unknown[], type: unknown) =>
+  set.includes(type) || (type === 'integer' && set.includes('number'));
+
+const containsValue = (set: unknown[], value: unknown) => set.some((item) => same(item, value));
+
+/**
+ * 递归比较两个 Schema，将变更追加到 changes
+ *
+ * 新增的可选属性视为放宽；新增的 required 属性视为收紧
+ */
+function diffSchema(
+  from: JSONSchema7Definition | undefined,
+  to: JSONSchema7Definition | undefined,
+  path: string,
+  changes: BlueprintChange[]
+): void {
+  const fromSchema = from ?? true;
+  const toSchema = to ?? true;
+  if (same(fromSchema, toSchema)) {
+    return;
+  }
+
+  const push = (at: string, kind: BlueprintChangeKind, message: string) =>
+    changes.push({ path: at, kind, message });
+
+  if (typeof fromSchema === 'boolean' || typeof toSchema === 'boolean') {
+    if (toSchema === true || fromSchema === false) {
+      push(path, 'widened', 'schema accepts more values');
+    } else {
+      push(path, 'narrowed', 'schema accepts fewer values');
+    }
+    return;
+  }
+
+  const typeChange = compareSets(typesOf(fromSchema), typesOf(toSchema), containsType);
+  if (typeChange) {
+    push(
+      `${path}.type`,
+      typeChange,
+      `type ${typeChange} from ${JSON.stringify(fromSchema.type ?? 'any')} to ${JSON.stringify(toSchema.type ?? 'any')}`
+    );
+  }
+
+  const valueChange = compareSets(valuesOf(fromSchema), valuesOf(toSchema), containsValue);
+  if (valueChange) {
+    push(`${path}.enum`, valueChange, `allowed values ${valueChange}`);
+  }
+
+  const fromRequired = fromSchema.required ?? [];
+  const toRequired = toSchema.required ?? [];
+  for (const name of toRequired.filter((item) => !fromRequired.includes(item))) {
+    push(`${path}.required`, 'narrowed', `property ${name} became required`);
+  }
+  for (const name of fromRequired.filter((item) => !toRequired.includes(item))) {
+    push(`${path}.required`, 'widened', `property ${name} is no longer required`);
+  }
+
+  const fromProperties = fromSchema.properties ?? {};
+  const toProperties = toSchema.properties ?? {};
+  for (const name of new Set([...Object.keys(fromProperties), ...Object.keys(toProperties)])) {
+    const at = `${path}.properties.${name}`;
+    if (!(name in fromProperties)) {
+      push(at, 'widened', `property ${name} added`);
+    } else if (!(name in toProperties)) {
+      if (toSchema.additionalProperties === false) {
+        push(at, 'narrowed', `property ${name} removed and no longer allowed`);
+      } else {
+        push(at, 'widened', `property ${name} removed`);
+      }
+    } else {
+      diffSchema(fromProperties[name], toProperties[name], at, changes);
+    }
+  }
+
+  diffSchema(
+    fromSchema.additionalProperties,
+    toSchema.additionalProperties,
+    `${path}.additionalProperties`,
+    changes
+  );
+
+  if (Array.isArray(fromSchema.items) || Array.isArray(toSchema.items)) {
+    if (!same(fromSchema.items, toSchema.items)) {
+      push(`${path}.items`, 'changed', 'tuple items changed');
+    }
+  } else {
+    diffSchema(fromSchema.items, toSchema.items, `${path}.items`, changes);
+  }
+
+  for (const [keywords, tighter] of [
+    [LOWER_BOUNDS, (a: number, b: number) => b > a],
+    [UPPER_BOUNDS, (a: number, b: number) => b < a],
+  ] as const) {
+    for (const keyword of keywords) {
+      const a = fromSchema[keyword as keyof JSONSchema7] as number | undefined;
+      const b = toSchema[keyword as keyof JSONSchema7] as number | undefined;
+      if (a === b) {
+        continue;
+      }
+      const narrowed = a === undefined || (b !== undefined && tighter(a, b));
+      push(
+        `${path}.${keyword}`,
+        narrowed ? 'narrowed' : 'widened',
+        `${keyword} changed from ${a ?? 'none'} to ${b ?? 'none'}`
+      );
+    }
+  }
+
+  for (const keyword of new Set([...Object.keys(fromSchema), ...Object.keys(toSchema)])) {
+    if (STRUCTURAL_KEYWORDS.has(keyword) || ANNOTATION_KEYWORDS.has(keyword)) {
+      continue;
+    }
+    const key = keyword as keyof JSONSchema7;
+    if (!same(fromSchema[key], toSchema[key])) {
+      push(`${path}.${keyword}`, 'changed', `${keyword} changed`);
+    }
+  }
+}
+
+/**
+ * 比较事件定义，返回增删改的事件类型
+ */
+function diffEvents(
+  from: BlueprintContent,
+  to: BlueprintContent,
+  changes: BlueprintChange[]
+): BlueprintComparison['events'] {
+  const fromTypes = Object.keys(from.events);
+  const toTypes = Object.keys(to.events);
+  const added = toTypes.filter((eventType) => !(eventType in from.events));
+  const removed = fromTypes.filter((eventType) => !(eventType in to.events));
+  const changed = fromTypes.filter(
+    (eventType) => eventType in to.events && !same(from.events[eventType], to.events[eventType])
+  );
+
+  for (const eventType of added) {
+    changes.push({ path: `events.${eventType}`, kind: 'added', message: 'event type added' });
+  }
+  for (const eventType of removed) {
+    changes.push({ path: `events.${eventType}`, kind: 'removed', message: 'event type removed' });
+  }
+  for (const eventType of changed) {
+    const path = `events.${eventType}`;
+    const before = from.events[eventType];
+    const after = to.events[eventType];
+    diffSchema(before.schema, after.schema, `${path}.schema`, changes);
+    for (const key of ['transition', 'guard', 'guardMessage'] as const) {
+      if (before[key] !== after[key]) {
+        changes.push({ path: `${path}.${key}`, kind: 'changed', message: `${key} changed` });
+      }
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+/**
+ * 校验样本状态：必须符合新状态 Schema，且落在新版本声明的模式中
+ */
+async function checkSample(
+  to: BlueprintContent,
+  validator: ReturnType<typeof compileSchema>,
+  path: string,
+  state: unknown
+): Promise<StateSampleCheck> {
+  const errors = validateWithSchema(validator, state);
+  if (errors.length === 0 && to.modes) {
+    try {
+      await getModeInfo(to, state);
+    } catch (error) {
+      if (!(error instanceof TransitionError)) {
+        throw error;
+      }
+      errors.push({ path: '', message: error.message });
+    }
+  }
+  return { path, valid: errors.length === 0, errors };
+}
+
+function prefixIssues(prefix: string, issues: BlueprintIssue[]): BlueprintIssue[] {
+  return issues.map((issue) => ({
+    ...issue,
+    path: issue.path ? `${prefix}.${issue.path}` : prefix,
+  }));
+}
+
+/**
+ * 比较两个版本的 Blueprint
+ *
+ * 1. 两个 Blueprint 都须通过检查（与 POST /v1/blueprints/validate 相同）
+ * 2. 比较 appId / name、事件定义、状态和参数 Schema 以及模式声明
+ * 3. 用新状态 Schema 校验旧 state.initial 和样本状态
+ * 4. 分类：删除事件、收紧事件或参数 Schema、更换 appId / name 为 breaking；
+ *    收紧状态 Schema 或样本不再有效为 requires-migration；否则为 compatible
+ */
+export async function compareBlueprints(
+  from: unknown,
+  to: unknown,
+  samples: unknown[] = []
+): Promise<BlueprintComparison> {
+  const [fromLint, toLint] = await Promise.all([lintBlueprint(from), lintBlueprint(to)]);
+  const result: BlueprintComparison = {
+    errors: [...prefixIssues('from', fromLint.errors), ...prefixIssues('to', toLint.errors)],
+    fromBlueprintId: fromLint.blueprintId,
+    toBlueprintId: toLint.blueprintId,
+    compatibility: null,
+    reasons: [],
+    events: { added: [], removed: [], changed: [] },
+    changes: [],
+    samples: [],
+  };
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  const before = from as BlueprintContent;
+  const after = to as BlueprintContent;
+  const { changes, reasons } = result;
+
+  for (const key of ['appId', 'name'] as const) {
+    if (before[key] !== after[key]) {
+      changes.push({ path: key, kind: 'changed', message: `${key} changed` });
+      reasons.push(`${key} changed; automata cannot move to a different blueprint`);
+    }
+  }
+
+  result.events = diffEvents(before, after, changes);
+  diffSchema(before.state.schema, after.state.schema, 'state.schema', changes);
+  if (before.params || after.params) {
+    diffSchema(before.params?.schema, after.params?.schema, 'params.schema', changes);
+  }
+  if (!same(before.state.initial, after.state.initial)) {
+    changes.push({ path: 'state.initial', kind: 'changed', message: 'initial state changed' });
+  }
+  if (!same(before.modes, after.modes)) {
+    changes.push({ path: 'modes', kind: 'changed', message: 'modes changed' });
+  }
+
+  const validator = compileSchema(after.state.schema, 'state.schema');
+  result.samples = await Promise.all(
+    [before.state.initial, ...samples].map((state, index) =>
+      checkSample(after, validator, index === 0 ? 'state.initial' : `samples[${index - 1}]`, state)
+    )
+  );
+
+  const tightened = (change: BlueprintChange) =>
+    change.kind === 'narrowed' || change.kind === 'changed';
+
+  if (result.events.removed.length > 0) {
+    reasons.push(`event types removed: ${result.events.removed.join(', ')}`);
+  }
+  const narrowedEvents = changes.filter(
+    (change) =>
+      change.path.startsWith('events.') && change.path.includes('.schema') && tightened(change)
+  );
+  if (narrowedEvents.length > 0) {
+    reasons.push('event schemas narrowed; existing clients may send rejected events');
+  }
+  if (changes.some((change) => change.path.startsWith('params.schema') && tightened(change))) {
+    reasons.push('params schema narrowed; existing configurations may be rejected');
+  }
+  const breaking = reasons.length > 0;
+
+  if (changes.some((change) => change.path.startsWith('state.schema') && tightened(change))) {
+    reasons.push('state schema narrowed; existing states may no longer validate');
+  }
+  const invalidSamples = result.samples.filter((sample) => !sample.valid);
+  if (invalidSamples.length > 0) {
+    reasons.push(
+      `states no longer valid: ${invalidSamples.map((sample) => sample.path).join(', ')}`
+    );
+  }
+
+  if (breaking) {
+    result.compatibility = 'breaking';
+  } else if (reasons.length > 0) {
+    result.compatibility = 'requires-migration';
+  } else {
+    result.compatibility = 'compatible';
+  }
+
+  return result;
+}
@@ -0,0 +1,342 @@
+/**
+ * Blueprint Lint
+ *
+ * 存储前静态检查 Blueprint：结构、表达式、Schema（含参数）、初始状态、模式声明和事件可达性
+ */
+
+import type { JSONSchema7 } from 'json-schema';
+import type { BlueprintContent } from '../types/blueprint';
+import { computeBlueprintHash } from '../utils/hash';
+import { compileSchema, SchemaCompileError, validateWithSchema } from './schema-validator';
+import {
+  checkExpressionCost,
+  executeTransition,
+  getModeInfo,
+  isLimitExceededError,
+  TransitionError,
+  validateTransitionExpression,
+} from './transition-engine';
+
+/**
+ * 单条检查结果
+ */
+export interface BlueprintIssue {
+  /** 问题位置（例如 events.ADD.transition） */
+  path: string;
+
+  /** 问题代码 */
+  code: string;
+
+  /** 问题描述 */
+  message: string;
+}
+
+/**
+ * Blueprint 检查结果
+ */
+export interface BlueprintLintResult {
+  /** 没有错误（警告不影响存储） */
+  valid: boolean;
+
+  /** 按内容计算的 Blueprint ID；appId / name 无效时为 null */
+  blueprintId: string | null;
+
+  /** 内容 hash（签名的对象即为参与 hash 的完整内容） */
+  hash: string;
+
+  /** 阻止存储的错误 */
+  errors: BlueprintIssue[];
+
+  /** 不阻止存储的警告（例如永远无法发送的事件） */
+  warnings: BlueprintIssue[];
+}
+
+/**
+ * 检查过程中收集问题
+ */
+interface LintContext {
+  errors: BlueprintIssue[];
+  warnings: BlueprintIssue[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isIdentifier(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && !value.includes(':');
+}
+
+/**
+ * 检查基本结构
+ *
+ * @returns 结构有效时返回 true，后续检查依赖结构完整
+ */
+function checkStructure(content: Record<string, unknown>, ctx: LintContext): boolean {
+  const invalid = (path: string, message: string) =>
+    ctx.errors.push({ path, code: 'INVALID_STRUCTURE', message });
+
+  for (const key of ['appId', 'name'] as const) {
+    if (!isIdentifier(content[key])) {
+      invalid(key, `${key} must be a non-empty string without ':'`);
+    }
+  }
+
+  const { state, events, params } = content;
+  if (!isObject(state) || !isObject(state.schema) || !('initial' in state)) {
+    invalid('state', 'state requires a schema object and an initial value');
+  }
+
+  if (params !== undefined && (!isObject(params) || !isObject(params.schema))) {
+    invalid('params', 'params requires a schema object');
+  }
+
+  if (!isObject(events)) {
+    invalid('events', 'events must be an object');
+  } else {
+    for (const [eventType, definition] of Object.entries(events)) {
+      const path = `events.${eventType}`;
+      if (eventType.startsWith('$')) {
+        invalid(path, 'event types starting with $ are reserved for system events');
+        continue;
+      }
+      if (!isObject(definition) || !isObject(definition.schema)) {
+        invalid(path, 'event requires a schema object');
+        continue;
+      }
+      if (typeof definition.transition !== 'string') {
+        invalid(`${path}.transition`, 'transition must be a JSONata expression string');
+      }
+      for (const key of ['guard', 'guardMessage'] as const) {
+        if (definition[key] !== undefined && typeof definition[key] !== 'string') {
+          invalid(`${path}.${key}`, `${key} must be a string`);
+        }
+      }
+    }
+  }
+
+  return ctx.errors.length === 0;
+}
+
+/**
+ * 编译 Schema，失败时记录 INVALID_SCHEMA
+ */
+function checkSchema(
+  schema: JSONSchema7,
+  path: string,
+  ctx: LintContext
+): ReturnType<typeof compileSchema> | null {
+  try {
+    return compileSchema(schema, path);
+  } catch (error) {
+    if (error instanceof SchemaCompileError) {
+      ctx.errors.push({ path, code: 'INVALID_SCHEMA', message: error.message });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 检查 Schema（事件、参数、状态）以及初始状态是否符合状态 Schema
+ */
+function checkSchemas(content: BlueprintContent, ctx: LintContext): void {
+  for (const [eventType, definition] of Object.entries(content.events)) {
+    checkSchema(definition.schema, `events.${eventType}.schema`, ctx);
+  }
+  if (content.params) {
+    checkSchema(content.params.schema, 'params.schema', ctx);
+  }
+
+  const stateValidator = checkSchema(content.state.schema, 'state.schema', ctx);
+  if (!stateValidator) {
+    return;
+  }
+  for (const issue of validateWithSchema(stateValidator, content.state.initial)) {
+    ctx.errors.push({
+      path: `state.initial${issue.path}`,
+      code: 'INVALID_INITIAL_STATE',
+      message: `Initial state does not match state schema: ${issue.message}`,
+    });
+  }
+}
+
+/**
+ * 检查表达式并做开销预检
+ *
+ * 1. 所有 transition / guard / 模式判别表达式必须可编译，且语法树规模在限制内
+ * 2. 以初始状态和空事件试运行各 transition，超出资源限制时拒绝
+ *    （其它执行错误可能只是缺少事件数据，不在此拒绝）
+ */
+async function checkExpressions(content: BlueprintContent, ctx: LintContext): Promise<void> {
+  const expressions: Array<[string, string | undefined]> = [
+    ['modes.discriminator', content.modes?.discriminator],
+  ];
+  for (const [eventType, definition] of Object.entries(content.events)) {
+    expressions.push([`events.${eventType}.transition`, definition.transition]);
+    expressions.push([`events.${eventType}.guard`, definition.guard]);
+  }
+
+  const failed = new Set<string>();
+  for (const [path, expression] of expressions) {
+    if (typeof expression !== 'string') {
+      continue;
+    }
+    const compiled = validateTransitionExpression(expression);
+    if (!compiled.valid) {
+      ctx.errors.push({ path, code: 'INVALID_EXPRESSION', message: compiled.error as string });
+      failed.add(path);
+      continue;
+    }
+    const error = checkExpressionCost(expression);
+    if (error) {
+      ctx.errors.push({ path, code: 'EXPRESSION_TOO_COSTLY', message: error });
+      failed.add(path);
+    }
+  }
+
+  for (const [eventType, definition] of Object.entries(content.events)) {
+    const path = `events.${eventType}.transition`;
+    if (failed.has(path)) {
+      continue;
+    }
+    try {
+      await executeTransition(content.state.initial, {}, definition.transition);
+    } catch (error) {
+      if (isLimitExceededError(error)) {
+        ctx.errors.push({ path, code: 'EXPRESSION_TOO_COSTLY', message: error.message });
+      }
+    }
+  }
+}
+
+/**
+ * 检查模式声明
+ *
+ * 判别表达式必须可编译，各模式允许的事件必须在 events 中定义，
+ * 初始状态必须落在已声明的模式中
+ */
+async function checkModes(content: BlueprintContent, ctx: LintContext): Promise<void> {
+  const { modes } = content;
+  if (!modes) {
+    return;
+  }
+
+  const invalid = (message: string) =>
+    ctx.errors.push({ path: 'modes', code: 'INVALID_MODES', message });
+
+  if (typeof modes.discriminator !== 'string' || !isObject(modes.table)) {
+    invalid('modes requires a discriminator expression and a mode table');
+    return;
+  }
+
+  const modeNames = Object.keys(modes.table);
+  if (modeNames.length === 0) {
+    invalid('modes.table must declare at least one mode');
+    return;
+  }
+
+  for (const name of modeNames) {
+    const mode = modes.table[name];
+    if (!isObject(mode) || (mode.events !== undefined && !Array.isArray(mode.events))) {
+      invalid(`Mode ${name} must be an object with an events array`);
+      continue;
+    }
+    const { events = [], terminal } = mode;
+    if (terminal && events.length > 0) {
+      invalid(`Terminal mode ${name} cannot allow events`);
+    }
+    const unknown = events.filter((eventType) => !(eventType in content.events));
+    if (unknown.length > 0) {
+      invalid(`Mode ${name} allows undefined events: ${unknown.join(', ')}`);
+    }
+  }
+
+  if (!validateTransitionExpression(modes.discriminator).valid) {
+    return;
+  }
+  try {
+    await getModeInfo(content, content.state.initial);
+  } catch (error) {
+    if (!(error instanceof TransitionError)) {
+      throw error;
+    }
+    ctx.errors.push({
+      path: 'state.initial',
+      code: 'INVALID_INITIAL_STATE',
+      message: `Initial state does not map to a declared mode: ${error.message}`,
+    });
+  }
+}
+
+/**
+ * 检查事件可达性
+ *
+ * 声明 modes 时，不被任何非终止模式允许的事件永远无法发送
+ */
+function checkReachability(content: BlueprintContent, ctx: LintContext): void {
+  const eventTypes = Object.keys(content.events);
+  if (eventTypes.length === 0) {
+    ctx.warnings.push({
+      path: 'events',
+      code: 'NO_EVENTS',
+      message: 'Blueprint defines no events',
+    });
+    return;
+  }
+
+  const { modes } = content;
+  if (!modes || !isObject(modes.table)) {
+    return;
+  }
+
+  const allowed = new Set(
+    Object.values(modes.table).flatMap((mode) =>
+      !isObject(mode) || mode.terminal || !Array.isArray(mode.events) ? [] : mode.events
+    )
+  );
+  for (const eventType of eventTypes) {
+    if (!allowed.has(eventType)) {
+      ctx.warnings.push({
+        path: `events.${eventType}`,
+        code: 'UNREACHABLE_EVENT',
+        message: `Event ${eventType} is not allowed in any mode and can never be sent`,
+      });
+    }
+  }
+}
+
+/**
+ * 检查 Blueprint
+ *
+ * 结构无效时只报告结构错误；否则收集全部错误和警告
+ */
+export async function lintBlueprint(content: unknown): Promise<BlueprintLintResult> {
+  const hash = await computeBlueprintHash(content);
+  const raw = isObject(content) ? content : {};
+  const blueprintId =
+    isIdentifier(raw.appId) && isIdentifier(raw.name) ? `${raw.appId}:${raw.name}:${hash}` : null;
+
+  const ctx: LintContext = { errors: [], warnings: [] };
+  if (!isObject(content)) {
+    ctx.errors.push({
+      path: '',
+      code: 'INVALID_STRUCTURE',
+      message: 'blueprint must be an object',
+    });
+  } else if (checkStructure(content, ctx)) {
+    const blueprint = content as unknown as BlueprintContent;
+    checkSchemas(blueprint, ctx);
+    await checkExpressions(blueprint, ctx);
+    await checkModes(blueprint, ctx);
+    checkReachability(blueprint, ctx);
+  }
+
+  return {
+    valid: ctx.errors.length === 0,
+    blueprintId,
+    hash,
+    errors: ctx.errors,
+    warnings: ctx.warnings,
+  };
+}
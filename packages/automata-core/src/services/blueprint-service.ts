@@ -6,11 +6,23 @@
 
 import { getAccountById } from '../db/account-repository';
 import { getAutomataById } from '../db/automata-repository';
-import { createBlueprintIfNotExists, getBlueprintById } from '../db/blueprint-repository';
+import {
+  createBlueprintIfNotExists,
+  getBlueprintById,
+  getLatestBlueprintPointer,
+  setLatestBlueprintPointer,
+} from '../db/blueprint-repository';
 import { listActiveDevicesByAccountId } from '../db/device-repository';
-import type { Blueprint, BlueprintContent } from '../types/blueprint';
+import type {
+  Blueprint,
+  BlueprintContent,
+  BlueprintLatestPointer,
+  BlueprintLatestUpdate,
+  BlueprintReference,
+} from '../types/blueprint';
 import { computeBlueprintHash, computeBlueprintId } from '../utils/hash';
-import { verifyEd25519Signature } from '../utils/signature';
+import { verifyDeviceSignature } from '../utils/signature';
+import { lintBlueprint } from './blueprint-lint';
 import { BUILTIN_BLUEPRINTS, getBuiltinBlueprintHash } from './builtin-blueprints';
 
 /**
@@ -53,7 +65,12 @@ export async function validateAndGetBlueprint(
     return blueprintId;
   }
 
-  // 2. 不存在：验证后创建
+  // 2. 不存在：先检查内容（与 POST /v1/blueprints/validate 相同），再验证后创建
+  const lint = await lintBlueprint(content);
+  if (!lint.valid) {
+    const [{ path, message, code }] = lint.errors;
+    throw new BlueprintValidationError(path ? `${path}: ${message}` : message, code);
+  }
 
   // 2.1 Builtin Blueprint：验证 hash 匹配
   if (content.appId === 'SYSTEM') {
@@ -111,10 +128,27 @@ async function validateBlueprintSignature(
     );
   }
 
+  await verifyAppOwnerSignature(content.appId, content, signature, 'blueprint');
+}
+
+/**
+ * 验证由 App owner 的设备签名的内容（Blueprint、Blueprint 迁移等）
+ *
+ * @param appId - App ID（App owner 的任一活跃设备签名即有效）
+ * @param message - 被签名的内容
+ * @param signature - 签名
+ * @param subject - 错误信息中的内容名称
+ */
+export async function verifyAppOwnerSignature(
+  appId: string,
+  message: unknown,
+  signature: string,
+  subject: string
+): Promise<void> {
   // 获取 App（Automata）
-  const app = await getAutomataById(content.appId);
+  const app = await getAutomataById(appId);
   if (!app) {
-    throw new BlueprintValidationError(`App not found: ${content.appId}`, 'APP_NOT_FOUND');
+    throw new BlueprintValidationError(`App not found: ${appId}`, 'APP_NOT_FOUND');
   }
 
   // 获取 App owner 的 Account
@@ -133,17 +167,113 @@ async function validateBlueprintSignature(
   }
 
   // 验证签名 - 尝试用任一设备的公钥验证
-  let isValid = false;
-  for (const device of devices) {
-    if (verifyEd25519Signature(content, signature, device.publicKey)) {
-      isValid = true;
-      break;
+  const isValid = devices.some((device) =>
+    verifyDeviceSignature(message, signature, device.publicKey, device.keyAlgorithm)
+  );
+  if (!isValid) {
+    throw new BlueprintValidationError(`Invalid ${subject} signature`, 'INVALID_SIGNATURE');
+  }
+}
+
+/**
+ * 按引用获取已存储的 Blueprint
+ *
+ * version 为 'latest' 时按 latest 指针解析，否则视为 Blueprint hash
+ *
+ * @throws BlueprintValidationError - 指针或 Blueprint 不存在（BLUEPRINT_NOT_FOUND）
+ */
+export async function resolveBlueprintReference(ref: BlueprintReference): Promise<Blueprint> {
+  let blueprintId = `${ref.appId}:${ref.name}:${ref.version}`;
+  if (ref.version === 'latest') {
+    const pointer = await getLatestBlueprintPointer(ref.appId, ref.name);
+    if (!pointer) {
+      throw new BlueprintValidationError(
+        `No latest blueprint for ${ref.appId}:${ref.name}`,
+        'BLUEPRINT_NOT_FOUND'
+      );
     }
+    blueprintId = pointer.blueprintId;
   }
 
-  if (!isValid) {
-    throw new BlueprintValidationError('Invalid blueprint signature', 'INVALID_SIGNATURE');
+  const blueprint = await getBlueprintById(blueprintId);
+  if (!blueprint) {
+    throw new BlueprintValidationError(
+      `Blueprint not found: ${blueprintId}`,
+      'BLUEPRINT_NOT_FOUND'
+    );
+  }
+  return blueprint;
+}
+
+/**
+ * 移动 {appId}:{name} 的 latest 指针
+ *
+ * 1. 修订号须为正整数，且仅首次设置（previousBlueprintId 为 null）时为 1（INVALID_LATEST_UPDATE）
+ * 2. 目标 Blueprint 必须已存储，且属于同一 App 和名称
+ * 3. 验证 App owner 的设备对 BlueprintLatestUpdate（含修订号）的签名
+ * 4. 当前指向须与 previousBlueprintId 一致、当前修订号须为 revision - 1（LATEST_CONFLICT）：
+ *    防止并发移动；修订号单调递增，指针来回移动后旧的签名请求也无法重放
+ *
+ * @throws BlueprintValidationError
+ */
+export async function setLatestBlueprint(
+  update: BlueprintLatestUpdate,
+  signature: string,
+  accountId: string
+): Promise<BlueprintLatestPointer> {
+  const { revision } = update;
+  if (
+    !Number.isInteger(revision) ||
+    revision < 1 ||
+    (revision === 1) !== (update.previousBlueprintId === null)
+  ) {
+    throw new BlueprintValidationError(
+      'revision must be 1 for the first update and the current revision + 1 afterwards',
+      'INVALID_LATEST_UPDATE'
+    );
+  }
+
+  const blueprint = await getBlueprintById(update.blueprintId);
+  if (!blueprint) {
+    throw new BlueprintValidationError(
+      `Blueprint not found: ${update.blueprintId}`,
+      'BLUEPRINT_NOT_FOUND'
+    );
+  }
+  if (blueprint.appId !== update.appId || blueprint.name !== update.name) {
+    throw new BlueprintValidationError(
+      `Blueprint ${update.blueprintId} is not a version of ${update.appId}:${update.name}`,
+      'BLUEPRINT_MISMATCH'
+    );
+  }
+
+  const message: BlueprintLatestUpdate = {
+    appId: update.appId,
+    name: update.name,
+    blueprintId: update.blueprintId,
+    previousBlueprintId: update.previousBlueprintId,
+    revision,
+  };
+  await verifyAppOwnerSignature(update.appId, message, signature, 'latest pointer');
+
+  const pointer = await setLatestBlueprintPointer(
+    {
+      appId: update.appId,
+      name: update.name,
+      blueprintId: update.blueprintId,
+      revision,
+      signature,
+      updatedByAccountId: accountId,
+    },
+    update.previousBlueprintId
+  );
+  if (!pointer) {
+    throw new BlueprintValidationError(
+      `Latest pointer of ${update.appId}:${update.name} is not ${update.previousBlueprintId ?? 'unset'} at revision ${revision - 1}`,
+      'LATEST_CONFLICT'
+    );
   }
+  return pointer;
 }
 
 /**
@@ -0,0 +1,211 @@
+/**
+ * 广播任务队列
+ *
+ * API / WebSocket Lambda 只负责把广播任务入队，由 broadcast-worker 消费并投递，
+ * 避免在请求 Lambda 内扇出（Lambda 冻结时会丢失投递）
+ */
+
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import type { Automata } from '../types/automata';
+import type {
+  AutomataArchivedMessage,
+  AutomataCreatedMessage,
+  JsonPatchOperation,
+  StateUpdateMessage,
+} from '../types/websocket';
+import { createJsonPatch } from '../utils/json-patch';
+import { deliverBroadcast, shouldBroadcast } from './broadcast-service';
+
+/**
+ * SQS 消息体上限为 256 KB，留出余量
+ */
+const MAX_JOB_BYTES = 240 * 1024;
+
+/**
+ * 广播任务
+ */
+export interface BroadcastJob {
+  /** 目标 Automata（用于查找 automata / account / app 范围的订阅者） */
+  automataId: string;
+  ownerAccountId: string;
+  appId: string;
+
+  /** 推送给 full 模式订阅者的消息 */
+  message: StateUpdateMessage | AutomataCreatedMessage | AutomataArchivedMessage;
+
+  /** state_update 的 JSON Patch，推送给 patch 模式订阅者 */
+  patch?: JsonPatchOperation[];
+
+  /** state_update 的事件数据，供订阅的 filter / projection 使用 */
+  eventData?: unknown;
+
+  /** 不推送的连接（如通过 WebSocket 发送事件的连接，其已收到 eventResult） */
+  excludeConnectionId?: string;
+
+  /** 状态和事件数据过大未随任务携带，由 worker 按版本读取 */
+  stateOmitted?: boolean;
+}
+
+let sqsClient: SQSClient | null = null;
+
+function getSqsClient(): SQSClient {
+  if (!sqsClient) {
+    sqsClient = new SQSClient({});
+  }
+  return sqsClient;
+}
+
+/**
+ * 创建状态更新广播任务
+ *
+ * @param automata - 事件提交前的 Automata，其 currentState 用于生成 JSON Patch
+ */
+export function createStateUpdateJob(
+  automata: Pick<Automata, 'automataId' | 'ownerAccountId' | 'appId' | 'currentState'>,
+  eventType: string,
+  eventData: unknown,
+  baseVersion: string,
+  newVersion: string,
+  newState: unknown,
+  excludeConnectionId?: string
+): BroadcastJob {
+  return {
+    automataId: automata.automataId,
+    ownerAccountId: automata.ownerAccountId,
+    appId: automata.appId,
+    message: {
+      type: 'state_update',
+      automataId: automata.automataId,
+      eventType,
+      baseVersion,
+      newVersion,
+      newState,
+      timestamp: new Date().toISOString(),
+    },
+    patch: createJsonPatch(automata.currentState, newState),
+    eventData,
+    excludeConnectionId,
+  };
+}
+
+/**
+ * 创建 Automata 生命周期广播任务
+ */
+export function createLifecycleJob(
+  type: 'automata_created' | 'automata_archived',
+  automata: Automata
+): BroadcastJob {
+  const timestamp = new Date().toISOString();
+  const message: AutomataCreatedMessage | AutomataArchivedMessage =
+    type === 'automata_created'
+      ? {
+          type,
+          automataId: automata.automataId,
+          appId: automata.appId,
+          blueprintId: automata.blueprintId,
+          currentState: automata.currentState,
+          version: automata.version,
+          timestamp,
+        }
+      : {
+          type,
+          automataId: automata.automataId,
+          appId: automata.appId,
+          version: automata.version,
+          timestamp,
+        };
+
+  return {
+    automataId: automata.automataId,
+    ownerAccountId: automata.ownerAccountId,
+    appId: automata.appId,
+    message,
+  };
+}
+
+/**
+ * 广播任务 ID：{automataId}:{消息类型}:{版本}
+ *
+ * 用作 FIFO 队列的去重 ID，以及 worker 记录投递进度的键
+ */
+export function getBroadcastJobId(job: BroadcastJob): string {
+  const { message } = job;
+  const version = message.type === 'state_update' ? message.baseVersion : message.version;
+  return `${job.automataId}:${message.type}:${version}`;
+}
+
+/**
+ * 序列化任务；超过 SQS 上限时依次去掉状态（及事件数据）和 patch，由 worker 按版本读取
+ */
+function serializeJob(job: BroadcastJob): string {
+  let body = JSON.stringify(job);
+  if (Buffer.byteLength(body) <= MAX_JOB_BYTES) {
+    return body;
+  }
+
+  const { message } = job;
+  const slimMessage =
+    message.type === 'state_update'
+      ? { ...message, newState: undefined }
+      : message.type === 'automata_created'
+        ? { ...message, currentState: undefined }
+        : message;
+  body = JSON.stringify({
+    ...job,
+    message: slimMessage,
+    eventData: undefined,
+    stateOmitted: true,
+  });
+  if (Buffer.byteLength(body) <= MAX_JOB_BYTES) {
+    return body;
+  }
+
+  return JSON.stringify({
+    ...job,
+    message: slimMessage,
+    eventData: undefined,
+    patch: undefined,
+    stateOmitted: true,
+  });
+}
+
+/**
+ * 广播任务入队
+ *
+ * - 设置了 LOCAL_BROADCAST_QUEUE_ENDPOINT（dev gateway 的进程内队列）时投递到本地队列
+ * - 设置了 BROADCAST_QUEUE_URL 时发送到 SQS FIFO 队列：按 automataId 分组保证同一 Automata
+ *   的任务按顺序投递，按任务 ID 去重（同一版本的任务重复入队只投递一次）
+ * - 都未设置但有 WEBSOCKET_API_ENDPOINT 时（如 SAM 本地调试）直接投递
+ */
+export async function enqueueBroadcast(job: BroadcastJob): Promise<void> {
+  const localEndpoint = process.env.LOCAL_BROADCAST_QUEUE_ENDPOINT;
+  if (localEndpoint) {
+    const response = await fetch(localEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: serializeJob(job),
+    });
+    if (!response.ok) {
+      throw new Error(`Local broadcast queue rejected job: ${response.status}`);
+    }
+    return;
+  }
+
+  const queueUrl = process.env.BROADCAST_QUEUE_URL;
+  if (queueUrl) {
+    await getSqsClient().send(
+      new SendMessageCommand({
+        QueueUrl: queueUrl,
+        MessageBody: serializeJob(job),
+        MessageGroupId: job.automataId,
+        MessageDeduplicationId: getBroadcastJobId(job),
+      })
+    );
+    return;
+  }
+
+  const wsEndpoint = process.env.WEBSOCKET_API_ENDPOINT;
+  if (shouldBroadcast(wsEndpoint)) {
+    await deliverBroadcast(job, { wsEndpoint });
+  }
+}
@@ -1,20 +1,34 @@
 /**
  * WebSocket 广播服务
  *
- * 用于向订阅者广播状态更新
+ * 由 broadcast-worker 调用，将广播任务投递给订阅者
  */
 
 import {
   ApiGatewayManagementApiClient,
   PostToConnectionCommand,
 } from '@aws-sdk/client-apigatewaymanagementapi';
-import { deleteSubscription, getSubscribersByAutomata } from '../db/ws-repository';
-import type { StateUpdateMessage } from '../types/websocket';
+import { getEvent } from '../db/event-repository';
+import { getSubscribersForAutomata, removeSubscriptions } from '../db/ws-repository';
+import type { StateUpdateMessage, WsDownstreamMessage, WsSubscription } from '../types/websocket';
+import type { BroadcastJob } from './broadcast-queue';
+import { getStateAtVersion } from './state-history-service';
+import { evaluateSubscription } from './subscription-filter';
 
 // 客户端缓存
 let apiGatewayClient: ApiGatewayManagementApiClient | null = null;
 let currentEndpoint: string | null = null;
 
+/**
+ * 默认并发数（每批同时推送的连接数）
+ */
+const DEFAULT_CONCURRENCY = 50;
+
+/**
+ * 默认最大尝试次数（仅对限流错误重试）
+ */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
 /**
  * 获取或创建 API Gateway Management API 客户端
  */
@@ -28,6 +42,28 @@ function getApiGatewayClient(endpoint: string): ApiGatewayManagementApiClient {
   return apiGatewayClient;
 }
 
+/**
+ * 推送结果
+ */
+type SendOutcome = 'success' | 'gone' | 'throttled' | 'failed';
+
+/**
+ * 判断是否为限流错误
+ */
+function isThrottlingError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const statusCode = (error as { $metadata?: { httpStatusCode?: number } }).$metadata
+    ?.httpStatusCode;
+  return (
+    statusCode === 429 ||
+    error.name === 'ThrottlingException' ||
+    error.name === 'LimitExceededException' ||
+    error.name === 'TooManyRequestsException'
+  );
+}
+
 /**
  * 向指定连接发送消息
  */
@@ -35,7 +71,7 @@ async function sendToConnection(
   client: ApiGatewayManagementApiClient,
   connectionId: string,
   message: unknown
-): Promise<boolean> {
+): Promise<SendOutcome> {
   try {
     await client.send(
       new PostToConnectionCommand({
@@ -43,84 +79,244 @@ async function sendToConnection(
         Data: Buffer.from(JSON.stringify(message)),
       })
     );
-    return true;
+    return 'success';
   } catch (error) {
     // GoneException 表示连接已断开
     if (error instanceof Error && error.name === 'GoneException') {
       console.log(`[WS] Connection ${connectionId} is gone`);
-      return false;
+      return 'gone';
+    }
+    if (isThrottlingError(error)) {
+      return 'throttled';
     }
     console.error(`[WS] Failed to send to ${connectionId}:`, error);
-    return false;
+    return 'failed';
   }
 }
 
 /**
- * 广播选项
+ * 投递选项
  */
-export interface BroadcastOptions {
+export interface DeliverOptions {
   /** WebSocket API endpoint (例如: https://xxx.execute-api.region.amazonaws.com/stage) */
   wsEndpoint: string;
+
+  /** 每批同时推送的连接数，默认 50 */
+  concurrency?: number;
+
+  /** 限流时的最大尝试次数，默认 3 */
+  maxAttempts?: number;
+
+  /** 已投递过的连接（任务重新投递时跳过，只重试上次未送达的连接） */
+  skipConnectionIds?: ReadonlySet<string>;
+
+  /** 每批推送后回调本批成功的连接，投递中途失败时调用方据此记录进度 */
+  onDelivered?: (connectionIds: string[]) => void;
+}
+
+/**
+ * 投递结果
+ */
+export interface DeliverResult {
+  /** 命中的连接数 */
+  total: number;
+
+  /** 推送成功的连接数 */
+  success: number;
+
+  /** 推送成功的连接 */
+  delivered: string[];
+
+  /** 已断开（订阅已清理）的连接数 */
+  gone: number;
+
+  /** 被订阅 filter 过滤掉的连接数 */
+  filtered: number;
+
+  /** 重试后仍被限流的连接 */
+  throttled: string[];
 }
 
 /**
- * 广播状态更新到所有订阅者
+ * 补全因超出队列消息大小而省略的状态和事件数据
+ */
+async function restoreOmittedState(job: BroadcastJob): Promise<BroadcastJob> {
+  const { message } = job;
+  if (message.type === 'automata_archived') {
+    return job;
+  }
+
+  const version = message.type === 'state_update' ? message.newVersion : message.version;
+  const historical = await getStateAtVersion(job.automataId, version);
+  if (!historical) {
+    throw new Error(`State not found: ${job.automataId}@${version}`);
+  }
+
+  if (message.type === 'automata_created') {
+    return { ...job, message: { ...message, currentState: historical.state } };
+  }
+
+  const event = await getEvent(job.automataId, message.baseVersion);
+  return {
+    ...job,
+    message: { ...message, newState: historical.state },
+    eventData: event?.eventData,
+  };
+}
+
+/**
+ * 按连接命中的订阅生成消息
+ *
+ * 1. state_update 先按各订阅的 filter 过滤，全部未命中时不推送（返回 null）
+ * 2. 命中的订阅都带相同的 projection 时推送投影结果
+ * 3. 命中的订阅全部为 patch 模式且任务带有 patch 时推送 JSON Patch，否则推送完整消息
  *
- * @param automataId - Automata ID
- * @param eventType - 事件类型
- * @param baseVersion - 基准版本号
- * @param newVersion - 新版本号
- * @param newState - 新状态
- * @param options - 广播选项
- * @returns 广播结果 { total: number, success: number }
+ * 生命周期消息不受 filter / projection 影响
  */
-export async function broadcastStateUpdate(
-  automataId: string,
-  eventType: string,
-  baseVersion: string,
-  newVersion: string,
-  newState: unknown,
-  options: BroadcastOptions
-): Promise<{ total: number; success: number }> {
-  const subscribers = await getSubscribersByAutomata(automataId);
-
-  if (subscribers.length === 0) {
-    return { total: 0, success: 0 };
+function createMessageBuilder(
+  job: BroadcastJob
+): (subs: WsSubscription[]) => Promise<WsDownstreamMessage | null> {
+  const { message, patch, eventData } = job;
+  if (message.type !== 'state_update') {
+    return async () => message;
   }
 
-  console.log(`[WS] Broadcasting to ${subscribers.length} subscribers for ${automataId}`);
+  const { newState, ...rest } = message;
+  const patchMessage: StateUpdateMessage | null = patch ? { ...rest, patch } : null;
+  const input = { state: newState, event: eventData, eventType: message.eventType };
+
+  return async (subs) => {
+    const evaluations = await Promise.all(subs.map((sub) => evaluateSubscription(sub, input)));
+    const matched = subs.flatMap((sub, index) => {
+      const evaluation = evaluations[index];
+      return evaluation ? [{ sub, evaluation }] : [];
+    });
+    if (matched.length === 0) {
+      return null;
+    }
+
+    const [first] = matched;
+    if (
+      first.evaluation.projected &&
+      matched.every(({ sub }) => sub.projection === first.sub.projection)
+    ) {
+      return { ...rest, newState: first.evaluation.value, projected: true };
+    }
 
-  const message: StateUpdateMessage = {
-    type: 'state_update',
-    automataId,
-    eventType,
-    baseVersion,
-    newVersion,
-    newState,
-    timestamp: new Date().toISOString(),
+    return patchMessage && matched.every(({ sub }) => sub.mode === 'patch')
+      ? patchMessage
+      : message;
   };
+}
+
+/**
+ * 投递广播任务
+ *
+ * 1. 查询该 Automata 及 account / app 范围的订阅者，按连接去重（同一连接只推送一次），
+ *    跳过 skipConnectionIds 中已投递过的连接
+ * 2. 按 concurrency 分批并发求值订阅的 filter / projection 并生成消息
+ * 3. 按 concurrency 分批并发推送，限流的连接指数退避后重试
+ * 4. 已断开的连接批量清理其命中的订阅
+ *
+ * @returns 投递结果；throttled 非空时调用方应稍后重试
+ */
+export async function deliverBroadcast(
+  job: BroadcastJob,
+  options: DeliverOptions
+): Promise<DeliverResult> {
+  const subscribers = await getSubscribersForAutomata(job);
 
+  const byConnection = new Map<string, WsSubscription[]>();
+  for (const sub of subscribers) {
+    if (
+      sub.connectionId === job.excludeConnectionId ||
+      options.skipConnectionIds?.has(sub.connectionId)
+    ) {
+      continue;
+    }
+    byConnection.set(sub.connectionId, [...(byConnection.get(sub.connectionId) || []), sub]);
+  }
+
+  if (byConnection.size === 0) {
+    return { total: 0, success: 0, delivered: [], gone: 0, filtered: 0, throttled: [] };
+  }
+
+  console.log(`[WS] Broadcasting ${job.message.type} to ${byConnection.size} connections`);
+
+  const resolvedJob = job.stateOmitted ? await restoreOmittedState(job) : job;
+  const buildMessage = createMessageBuilder(resolvedJob);
   const client = getApiGatewayClient(options.wsEndpoint);
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
 
-  // 并行发送到所有订阅者
-  const results = await Promise.all(
-    subscribers.map(async (sub) => {
-      const success = await sendToConnection(client, sub.connectionId, message);
-      return { connectionId: sub.connectionId, automataId: sub.automataId, success };
-    })
-  );
+  // 先按连接生成消息（filter 未命中的连接不推送）
+  const payloads = new Map<string, WsDownstreamMessage>();
+  const connections = [...byConnection];
+  for (let i = 0; i < connections.length; i += concurrency) {
+    const chunk = connections.slice(i, i + concurrency);
+    const built = await Promise.all(chunk.map(([, subs]) => buildMessage(subs)));
+    built.forEach((payload, index) => {
+      if (payload) {
+        payloads.set(chunk[index][0], payload);
+      }
+    });
+  }
+  const filtered = byConnection.size - payloads.size;
+
+  const delivered: string[] = [];
+  const gone: string[] = [];
+  let pending = [...payloads.keys()];
+
+  for (let attempt = 0; attempt < maxAttempts && pending.length > 0; attempt++) {
+    if (attempt > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 100 * 2 ** attempt));
+    }
+
+    const throttled: string[] = [];
+    for (let i = 0; i < pending.length; i += concurrency) {
+      const chunk = pending.slice(i, i + concurrency);
+      const outcomes = await Promise.all(
+        chunk.map((connectionId) =>
+          sendToConnection(client, connectionId, payloads.get(connectionId))
+        )
+      );
+      const succeeded: string[] = [];
+      outcomes.forEach((outcome, index) => {
+        const connectionId = chunk[index];
+        if (outcome === 'success') {
+          succeeded.push(connectionId);
+        } else if (outcome === 'gone') {
+          gone.push(connectionId);
+        } else if (outcome === 'throttled') {
+          throttled.push(connectionId);
+        }
+      });
+      delivered.push(...succeeded);
+      if (succeeded.length > 0) {
+        options.onDelivered?.(succeeded);
+      }
+    }
+    pending = throttled;
+  }
 
   // 清理失效的连接
-  const failedConnections = results.filter((r) => !r.success);
-  for (const { connectionId, automataId: subAutomataId } of failedConnections) {
-    console.log(`[WS] Cleaning up stale subscription: ${connectionId} -> ${subAutomataId}`);
-    await deleteSubscription(connectionId, subAutomataId);
+  if (gone.length > 0) {
+    console.log(`[WS] Cleaning up subscriptions of ${gone.length} gone connections`);
+    await removeSubscriptions(gone.flatMap((connectionId) => byConnection.get(connectionId) || []));
   }
 
-  const successCount = results.filter((r) => r.success).length;
-  console.log(`[WS] Broadcast complete: ${successCount}/${subscribers.length} succeeded`);
+  console.log(
+    `[WS] Broadcast complete: ${delivered.length}/${byConnection.size} succeeded, ${filtered} filtered, ${pending.length} throttled`
+  );
 
-  return { total: subscribers.length, success: successCount };
+  return {
+    total: byConnection.size,
+    success: delivered.length,
+    delivered,
+    gone: gone.length,
+    filtered,
+    throttled: pending,
+  };
 }
 
 /**
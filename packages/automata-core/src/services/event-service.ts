@@ -0,0 +1,162 @@
+/**
+ * Event Service
+ *
+ * 原子地提交事件：写入 Event 记录并推进 Automata 版本
+ */
+
+import { TransactWriteCommand, type TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+import { docClient, getTableName, Keys } from '../db/client';
+import { buildEventItem } from '../db/event-repository';
+import { buildSnapshotItem } from '../db/snapshot-repository';
+import type { AutomataEvent, CreateEventInput } from '../types/event';
+import { shouldCreateSnapshot } from '../types/snapshot';
+import { incrementVersion } from '../utils/base62';
+
+/**
+ * 版本冲突错误
+ *
+ * 提交时 Automata 的版本已不是 baseVersion（有其他写入者先提交）
+ */
+export class VersionConflictError extends Error {
+  public readonly code = 'VERSION_CONFLICT';
+
+  constructor(
+    message: string,
+    public readonly automataId: string,
+    public readonly baseVersion: string
+  ) {
+    super(message);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * 提交事件的输入参数
+ */
+export interface CommitEventInput extends CreateEventInput {
+  /** 基准版本号（提交前 Automata 的版本） */
+  baseVersion: string;
+
+  /** 转换后的新状态 */
+  newState: unknown;
+
+  /** 事件时间戳，须与转换时 $.meta.timestamp 一致；默认当前时间 */
+  timestamp?: string;
+
+  /** 同时切换的 Blueprint ID（仅 $MIGRATED 事件） */
+  blueprintId?: string;
+}
+
+/**
+ * 提交事件的结果
+ */
+export interface CommitEventResult {
+  /** 已写入的 Event */
+  event: AutomataEvent;
+
+  /** 提交后的版本号 */
+  newVersion: string;
+}
+
+/**
+ * 原子提交事件
+ *
+ * 使用 TransactWriteItems 在一个事务中：
+ * 1. 写入 EVT#{baseVersion}（仅当不存在）
+ * 2. 更新 #META 的 currentState / version（仅当 version = baseVersion），迁移时同时切换 blueprintId
+ * 3. 新版本落在快照间隔上时，写入 SNAP#{newVersion}
+ *
+ * 任一条件不满足时整个事务取消，抛出 VersionConflictError
+ */
+export async function commitEvent(input: CommitEventInput): Promise<CommitEventResult> {
+  const { baseVersion, newState, timestamp, blueprintId, ...eventInput } = input;
+  const newVersion = incrementVersion(baseVersion);
+  const now = timestamp ?? new Date().toISOString();
+  const item = buildEventItem(eventInput, baseVersion, now);
+
+  const transactItems: NonNullable<TransactWriteCommandInput['TransactItems']> = [
+    {
+      Put: {
+        TableName: getTableName(),
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(sk)',
+      },
+    },
+    {
+      Update: {
+        TableName: getTableName(),
+        Key: {
+          pk: Keys.automataPk(input.automataId),
+          sk: Keys.automataSk(),
+        },
+        UpdateExpression: blueprintId
+          ? 'SET #currentState = :newState, #version = :newVersion, #updatedAt = :updatedAt, #blueprintId = :blueprintId'
+          : 'SET #currentState = :newState, #version = :newVersion, #updatedAt = :updatedAt',
+        ConditionExpression: '#version = :baseVersion',
+        ExpressionAttributeNames: {
+          '#currentState': 'currentState',
+          '#version': 'version',
+          '#updatedAt': 'updatedAt',
+          ...(blueprintId && { '#blueprintId': 'blueprintId' }),
+        },
+        ExpressionAttributeValues: {
+          ':newState': newState,
+          ':newVersion': newVersion,
+          ':baseVersion': baseVersion,
+          ':updatedAt': now,
+          ...(blueprintId && { ':blueprintId': blueprintId }),
+        },
+      },
+    },
+  ];
+
+  if (shouldCreateSnapshot(newVersion)) {
+    transactItems.push({
+      Put: {
+        TableName: getTableName(),
+        Item: buildSnapshotItem(input.automataId, newVersion, newState, now),
+      },
+    });
+  }
+
+  try {
+    await docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      throw new VersionConflictError(
+        `Automata ${input.automataId} is no longer at version ${baseVersion}`,
+        input.automataId,
+        baseVersion
+      );
+    }
+    throw error;
+  }
+
+  return {
+    event: {
+      automataId: item.automataId,
+      baseVersion: item.baseVersion,
+      eventType: item.eventType,
+      eventData: item.eventData,
+      senderAccountId: item.senderAccountId,
+      timestamp: item.timestamp,
+    },
+    newVersion,
+  };
+}
+
+/**
+ * 判断事务取消是否由版本条件失败（或并发事务冲突）导致
+ */
+function isVersionConflict(error: unknown): boolean {
+  const err = error as {
+    name?: string;
+    CancellationReasons?: Array<{ Code?: string }>;
+  };
+  if (err.name !== 'TransactionCanceledException') {
+    return false;
+  }
+  return (err.CancellationReasons || []).some(
+    (reason) => reason.Code === 'ConditionalCheckFailed' || reason.Code === 'TransactionConflict'
+  );
+}
@@ -2,7 +2,18 @@
  * Service layer exports
  */
 
+export * from './automata-service';
+export * from './blueprint-compare';
+export * from './blueprint-lint';
 export * from './blueprint-service';
+export * from './broadcast-queue';
 export * from './broadcast-service';
 export * from './builtin-blueprints';
+export * from './event-service';
+export * from './migration-service';
+export * from './schema-validator';
+export * from './simulation-service';
+export * from './state-history-service';
+export * from './stats-service';
+export * from './subscription-filter';
 export * from './transition-engine';
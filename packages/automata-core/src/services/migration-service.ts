@@ -0,0 +1,203 @@
+/**
+ * Migration Service
+ *
+ * 将 Automata 升级到同一 Blueprint 的新版本（新 hash），迁移记录为 $MIGRATED 事件以保持历史可重放
+ */
+
+import { getBlueprintById } from '../db/blueprint-repository';
+import type { Automata } from '../types/automata';
+import {
+  type Blueprint,
+  type BlueprintMigration,
+  MIGRATED_EVENT_TYPE,
+  type MigratedEventData,
+} from '../types/blueprint';
+import type { AutomataEvent } from '../types/event';
+import { resolveParams } from './automata-service';
+import { verifyAppOwnerSignature } from './blueprint-service';
+import { commitEvent } from './event-service';
+import { getBlueprintValidators, validateWithSchema } from './schema-validator';
+import {
+  checkExpressionCost,
+  executeTransition,
+  getModeInfo,
+  type SchemaValidationDetails,
+  TransitionError,
+  type TransitionMeta,
+  validateTransitionExpression,
+} from './transition-engine';
+
+/**
+ * 迁移错误
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * 迁移输入
+ */
+export interface MigrateAutomataInput {
+  /** 待迁移的 Automata */
+  automata: Automata;
+
+  /** 迁移内容 */
+  migration: BlueprintMigration;
+
+  /** App owner 设备对迁移内容的签名 */
+  signature: string;
+
+  /** 发起迁移的 Account ID */
+  senderAccountId: string;
+}
+
+/**
+ * 迁移结果
+ */
+export interface MigrateAutomataResult {
+  /** 已写入的 $MIGRATED 事件 */
+  event: AutomataEvent;
+
+  /** 迁移后的 Blueprint ID */
+  blueprintId: string;
+
+  /** 迁移后的版本号 */
+  newVersion: string;
+
+  /** 迁移后的状态 */
+  newState: unknown;
+}
+
+/**
+ * 检查迁移内容的结构和表达式
+ */
+function validateMigration(migration: BlueprintMigration): void {
+  const fields = ['appId', 'name', 'fromHash', 'toHash', 'transform'] as const;
+  const missing = fields.filter(
+    (field) => typeof migration?.[field] !== 'string' || migration[field] === ''
+  );
+  if (missing.length > 0) {
+    throw new MigrationError(`migration requires ${missing.join(', ')}`, 'INVALID_MIGRATION');
+  }
+  if (migration.fromHash === migration.toHash) {
+    throw new MigrationError('fromHash and toHash must differ', 'INVALID_MIGRATION');
+  }
+
+  const compiled = validateTransitionExpression(migration.transform);
+  const error = compiled.valid ? checkExpressionCost(migration.transform) : compiled.error;
+  if (error) {
+    throw new MigrationError(`Invalid migration transform: ${error}`, 'INVALID_MIGRATION');
+  }
+}
+
+/**
+ * 执行状态迁移并按目标 Blueprint 校验结果
+ *
+ * 参数不随迁移改变；目标 Blueprint 声明 params 时，现有参数须符合其 Schema
+ *
+ * @throws TransitionError - 参数不符合目标参数 Schema（INVALID_PARAMS）、
+ *   新状态不符合目标状态 Schema（INVALID_RESULT_STATE）
+ *   或不属于目标 Blueprint 声明的模式（UNKNOWN_MODE）
+ */
+export async function executeMigration(
+  currentState: unknown,
+  data: MigratedEventData,
+  target: Blueprint,
+  meta: TransitionMeta
+): Promise<unknown> {
+  const validators = getBlueprintValidators(target.blueprintId, target);
+  if (validators.params) {
+    resolveParams(validators, meta.params);
+  }
+
+  const newState = await executeTransition(currentState, data, data.transform, meta);
+
+  const stateErrors = validateWithSchema(validators.state, newState);
+  if (stateErrors.length > 0) {
+    const details: SchemaValidationDetails = { errors: stateErrors };
+    throw new TransitionError(
+      `Migrated state does not match state schema of ${target.blueprintId}`,
+      'INVALID_RESULT_STATE',
+      details
+    );
+  }
+
+  if (target.modes) {
+    await getModeInfo(target, newState);
+  }
+
+  return newState;
+}
+
+/**
+ * 迁移 Automata 到新的 Blueprint
+ *
+ * 1. 校验迁移内容：源 Blueprint 必须是 Automata 当前的 Blueprint
+ * 2. 验证 App owner 的签名，目标 Blueprint 必须已存储
+ * 3. 执行迁移表达式，结果须符合目标 Blueprint
+ * 4. 原子写入 $MIGRATED 事件、推进版本并切换 blueprintId
+ *
+ * @throws MigrationError / BlueprintValidationError / TransitionError / VersionConflictError
+ */
+export async function migrateAutomata(input: MigrateAutomataInput): Promise<MigrateAutomataResult> {
+  const { automata, migration, signature, senderAccountId } = input;
+
+  validateMigration(migration);
+  if (automata.status !== 'active') {
+    throw new MigrationError('Automata is not active', 'AUTOMATA_NOT_ACTIVE');
+  }
+
+  const fromBlueprintId = `${migration.appId}:${migration.name}:${migration.fromHash}`;
+  const toBlueprintId = `${migration.appId}:${migration.name}:${migration.toHash}`;
+  if (fromBlueprintId !== automata.blueprintId) {
+    throw new MigrationError(
+      `Automata uses ${automata.blueprintId}, not ${fromBlueprintId}`,
+      'BLUEPRINT_MISMATCH'
+    );
+  }
+
+  await verifyAppOwnerSignature(migration.appId, migration, signature, 'migration');
+
+  const target = await getBlueprintById(toBlueprintId);
+  if (!target) {
+    throw new MigrationError(
+      `Target blueprint not found: ${toBlueprintId}`,
+      'TARGET_BLUEPRINT_NOT_FOUND'
+    );
+  }
+
+  const data: MigratedEventData = {
+    fromBlueprintId,
+    toBlueprintId,
+    transform: migration.transform,
+    signature,
+  };
+  const baseVersion = automata.version;
+  const meta: TransitionMeta = {
+    automataId: automata.automataId,
+    baseVersion,
+    senderAccountId,
+    timestamp: new Date().toISOString(),
+    params: automata.params,
+  };
+  const newState = await executeMigration(automata.currentState, data, target, meta);
+
+  const { event, newVersion } = await commitEvent({
+    automataId: automata.automataId,
+    eventType: MIGRATED_EVENT_TYPE,
+    eventData: data,
+    senderAccountId,
+    baseVersion,
+    newState,
+    timestamp: meta.timestamp,
+    blueprintId: toBlueprintId,
+  });
+
+  return { event, blueprintId: toBlueprintId, newVersion, newState };
+}
@@ -0,0 +1,174 @@
+/**
+ * JSON Schema Validator
+ *
+ * 使用 Ajv (draft-07) 校验事件数据和状态，编译后的校验函数按 blueprintId 缓存（LRU）
+ */
+
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import type { JSONSchema7 } from 'json-schema';
+import type { BlueprintContent } from '../types/blueprint';
+import { LruCache } from '../utils/lru-cache';
+
+/**
+ * 单条 Schema 校验错误
+ */
+export interface SchemaValidationIssue {
+  /** 出错位置（JSON Pointer，例如 /items/0/name；根节点为空字符串） */
+  path: string;
+
+  /** 错误描述 */
+  message: string;
+}
+
+/**
+ * Blueprint 的已编译校验函数
+ */
+export interface BlueprintValidators {
+  /** 状态 Schema 校验函数 */
+  state: ValidateFunction;
+
+  /** 事件类型 -> 事件数据 Schema 校验函数 */
+  events: Map<string, ValidateFunction>;
+
+  /** 参数 Schema 校验函数（Blueprint 声明 params 时存在） */
+  params?: ValidateFunction;
+}
+
+/**
+ * Schema 编译错误
+ */
+export class SchemaCompileError extends Error {
+  constructor(
+    message: string,
+    public readonly schemaPath: string
+  ) {
+    super(message);
+    this.name = 'SchemaCompileError';
+  }
+}
+
+/**
+ * 校验函数缓存的容量上限（simulate / validate / compare 等公开接口会以用户输入填充缓存）
+ */
+export const MAX_CACHED_VALIDATORS = 500;
+
+/**
+ * 编译后的校验函数缓存：blueprintId -> validators
+ */
+const validatorCache = new LruCache<string, BlueprintValidators>(MAX_CACHED_VALIDATORS);
+
+/**
+ * 创建 Ajv 实例
+ *
+ * 每个 Blueprint 使用独立实例，随缓存淘汰一起释放；addUsedSchema: false 使带 $id 的 Schema
+ * 不注册到实例中，同一 $id 可重复编译（不同版本、重复校验、lint 后再编译）。
+ * Ajv 默认即为 draft-07；strict: false 允许 Blueprint 中出现非标准关键字
+ */
+function createAjv(): Ajv {
+  const ajv = new Ajv({ allErrors: true, strict: false, addUsedSchema: false });
+  addFormats(ajv);
+  return ajv;
+}
+
+/**
+ * 编译单个 JSON Schema
+ *
+ * @param schema - JSON Schema
+ * @param schemaPath - Schema 在 Blueprint 中的位置（用于错误信息）
+ * @param ajv - 共用的 Ajv 实例（可选，默认新建）
+ */
+export function compileSchema(
+  schema: JSONSchema7,
+  schemaPath: string,
+  ajv: Ajv = createAjv()
+): ValidateFunction {
+  try {
+    return ajv.compile(schema);
+  } catch (error) {
+    throw new SchemaCompileError(
+      `Invalid JSON Schema at ${schemaPath}: ${(error as Error).message}`,
+      schemaPath
+    );
+  }
+}
+
+/**
+ * 获取（或编译并缓存）Blueprint 的校验函数
+ *
+ * @param blueprintId - Blueprint ID（缓存键）
+ * @param blueprint - Blueprint 内容
+ */
+export function getBlueprintValidators(
+  blueprintId: string,
+  blueprint: BlueprintContent
+): BlueprintValidators {
+  const cached = validatorCache.get(blueprintId);
+  if (cached) {
+    return cached;
+  }
+
+  const ajv = createAjv();
+  const events = new Map<string, ValidateFunction>();
+  for (const [eventType, definition] of Object.entries(blueprint.events)) {
+    events.set(eventType, compileSchema(definition.schema, `events.${eventType}.schema`, ajv));
+  }
+
+  const validators: BlueprintValidators = {
+    state: compileSchema(blueprint.state.schema, 'state.schema', ajv),
+    events,
+    params: blueprint.params
+      ? compileSchema(blueprint.params.schema, 'params.schema', ajv)
+      : undefined,
+  };
+
+  validatorCache.set(blueprintId, validators);
+  return validators;
+}
+
+/**
+ * 转义 JSON Pointer 片段（RFC 6901）
+ */
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * 将 Ajv 错误转换为 SchemaValidationIssue
+ *
+ * required / dependencies 类错误的 instancePath 指向父对象，这里补全到缺失的属性
+ */
+function toValidationIssue(error: ErrorObject): SchemaValidationIssue {
+  let path = error.instancePath;
+  const missingProperty = (error.params as { missingProperty?: string }).missingProperty;
+  if (missingProperty !== undefined) {
+    path = `${path}/${escapePointerSegment(missingProperty)}`;
+  }
+
+  return {
+    path,
+    message: error.message || 'is invalid',
+  };
+}
+
+/**
+ * 使用已编译的校验函数校验数据
+ *
+ * @returns 错误列表；为空表示校验通过
+ */
+export function validateWithSchema(
+  validate: ValidateFunction,
+  data: unknown
+): SchemaValidationIssue[] {
+  if (validate(data)) {
+    return [];
+  }
+  return (validate.errors || []).map(toValidationIssue);
+}
+
+/**
+ * 清除校验函数缓存（用于测试）
+ */
+export function clearValidatorCache(): void {
+  validatorCache.clear();
+}
@@ -0,0 +1,184 @@
+/**
+ * Simulation Service
+ *
+ * 不持久化地对 Blueprint 试运行事件序列；每一步都经过 processEvent，行为与线上一致
+ */
+
+import type { BlueprintContent } from '../types/blueprint';
+import { INITIAL_VERSION, incrementVersion } from '../utils/base62';
+import { type BlueprintIssue, lintBlueprint } from './blueprint-lint';
+import { compileSchema, type SchemaValidationIssue, validateWithSchema } from './schema-validator';
+import { processEvent, type SchemaValidationDetails, TransitionError } from './transition-engine';
+
+/**
+ * 单次模拟的最大事件数
+ */
+export const MAX_SIMULATION_STEPS = 100;
+
+/**
+ * 模拟时 $.meta.automataId（及默认 senderAccountId）的取值
+ */
+export const SIMULATION_ID = 'simulation';
+
+/**
+ * 待模拟的事件
+ */
+export interface SimulationEventInput {
+  /** 事件类型 */
+  eventType: string;
+
+  /** 事件负载数据 */
+  eventData?: unknown;
+
+  /** 事件时间戳（可选，默认当前时间；固定后 $now() 等结果可复现） */
+  timestamp?: string;
+}
+
+/**
+ * 模拟选项
+ */
+export interface SimulationOptions {
+  /** 起始状态（默认 state.initial） */
+  initialState?: unknown;
+
+  /** Blueprint 参数（$.params，Blueprint 声明 params 时默认 {}） */
+  params?: unknown;
+
+  /** 发送者 Account ID（$.meta.senderAccountId，默认 SIMULATION_ID） */
+  senderAccountId?: string;
+}
+
+/**
+ * 被拒绝的事件的错误信息（与事件 API 的错误响应一致）
+ */
+export interface SimulationStepError {
+  code: string;
+  message: string;
+
+  /** Schema 校验失败时的出错位置 */
+  errors?: SchemaValidationIssue[];
+}
+
+/**
+ * 单步模拟结果
+ */
+export interface SimulationStep {
+  eventType: string;
+
+  /** 该步之前的版本号 */
+  baseVersion: string;
+
+  /** 该步之后的版本号（被拒绝时与 baseVersion 相同） */
+  version: string;
+
+  /** 该步之后的状态（被拒绝时不变） */
+  state: unknown;
+
+  /** 事件被拒绝时的错误 */
+  error?: SimulationStepError;
+}
+
+/**
+ * 模拟结果
+ */
+export interface SimulationResult {
+  /** Blueprint 检查、参数或起始状态校验的错误；非空时不执行任何事件 */
+  errors: BlueprintIssue[];
+
+  /** 各步结果 */
+  steps: SimulationStep[];
+
+  /** 最终状态 */
+  finalState: unknown;
+
+  /** 最终版本号 */
+  finalVersion: string;
+}
+
+/**
+ * 将 TransitionError 转换为单步错误
+ */
+function toStepError(error: TransitionError): SimulationStepError {
+  if (error.code === 'INVALID_EVENT_DATA' || error.code === 'INVALID_RESULT_STATE') {
+    const { errors } = error.details as SchemaValidationDetails;
+    return { code: error.code, message: error.message, errors };
+  }
+  return { code: error.code, message: error.message };
+}
+
+/**
+ * 模拟事件序列
+ *
+ * 1. 检查 Blueprint（与 POST /v1/blueprints/validate 相同），参数和起始状态须符合各自的 Schema
+ * 2. 依次对每个事件调用 processEvent；被拒绝的事件记录错误，状态和版本号不变，继续下一个事件
+ */
+export async function simulateEvents(
+  content: BlueprintContent,
+  events: SimulationEventInput[],
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const startState =
+    options.initialState === undefined ? content.state?.initial : options.initialState;
+
+  const lint = await lintBlueprint(content);
+  const errors = [...lint.errors];
+  if (lint.valid && options.initialState !== undefined) {
+    const validator = compileSchema(content.state.schema, 'state.schema');
+    for (const issue of validateWithSchema(validator, options.initialState)) {
+      errors.push({
+        path: `initialState${issue.path}`,
+        code: 'INVALID_INITIAL_STATE',
+        message: `Initial state does not match state schema: ${issue.message}`,
+      });
+    }
+  }
+  const params = content.params && options.params === undefined ? {} : options.params;
+  if (lint.valid && content.params) {
+    const validator = compileSchema(content.params.schema, 'params.schema');
+    for (const issue of validateWithSchema(validator, params)) {
+      errors.push({
+        path: `params${issue.path}`,
+        code: 'INVALID_PARAMS',
+        message: `Params do not match params schema: ${issue.message}`,
+      });
+    }
+  } else if (lint.valid && params !== undefined) {
+    errors.push({
+      path: 'params',
+      code: 'INVALID_PARAMS',
+      message: 'Blueprint does not declare params',
+    });
+  }
+  if (errors.length > 0) {
+    return { errors, steps: [], finalState: startState, finalVersion: INITIAL_VERSION };
+  }
+
+  const steps: SimulationStep[] = [];
+  let state = startState;
+  let version = INITIAL_VERSION;
+
+  for (const { eventType, eventData, timestamp } of events) {
+    const meta = {
+      automataId: SIMULATION_ID,
+      baseVersion: version,
+      senderAccountId: options.senderAccountId ?? SIMULATION_ID,
+      timestamp: timestamp ?? new Date().toISOString(),
+      params,
+    };
+
+    try {
+      const newState = await processEvent(content, state, eventType, eventData, meta);
+      const newVersion = incrementVersion(version);
+      steps.push({ eventType, baseVersion: version, version: newVersion, state: newState });
+      state = newState;
+      version = newVersion;
+    } catch (error) {
+      if (!(error instanceof TransitionError)) {
+        throw error;
+      }
+      steps.push({ eventType, baseVersion: version, version, state, error: toStepError(error) });
+    }
+  }
+
+  return { errors: [], steps, finalState: state, finalVersion: version };
+}
@@ -0,0 +1,206 @@
+/**
+ * State History Service
+ *
+ * 基于 Snapshot + Event 重放查询 Automata 的历史状态
+ */
+
+import { getAutomataById } from '../db/automata-repository';
+import { getBlueprintById } from '../db/blueprint-repository';
+import { findFirstEventByType, getEventRange } from '../db/event-repository';
+import { findNearestSnapshot } from '../db/snapshot-repository';
+import type { Automata } from '../types/automata';
+import { type Blueprint, MIGRATED_EVENT_TYPE, type MigratedEventData } from '../types/blueprint';
+import type { AutomataEvent } from '../types/event';
+import { compareVersions, INITIAL_VERSION, incrementVersion } from '../utils/base62';
+import { executeTransition, TransitionError } from './transition-engine';
+
+/**
+ * 历史状态查询结果
+ */
+export interface HistoricalState {
+  automataId: string;
+
+  /** 查询的版本号 */
+  version: string;
+
+  /** 该版本的状态 */
+  state: unknown;
+}
+
+/**
+ * 重放的单个 Event 及其结果
+ */
+export interface ReplayedEvent {
+  event: AutomataEvent;
+
+  /** Event 提交后的版本号 */
+  newVersion: string;
+
+  /** Event 提交后的状态 */
+  newState: unknown;
+}
+
+/**
+ * 重放游标：当前状态、其所用的 Blueprint 及 Automata 的参数
+ */
+interface ReplayCursor {
+  blueprint: Blueprint;
+  state: unknown;
+  params: unknown;
+}
+
+/**
+ * 加载 Blueprint，不存在时抛出
+ */
+async function loadBlueprint(blueprintId: string): Promise<Blueprint> {
+  const blueprint = await getBlueprintById(blueprintId);
+  if (!blueprint) {
+    throw new Error(`Blueprint not found: ${blueprintId}`);
+  }
+  return blueprint;
+}
+
+/**
+ * 获取指定版本时生效的 Blueprint
+ *
+ * 该版本之后（含）的第一个 $MIGRATED 事件的源 Blueprint；没有迁移时为当前 Blueprint
+ */
+async function getBlueprintAtVersion(automata: Automata, version: string): Promise<Blueprint> {
+  const migration = await findFirstEventByType(automata.automataId, MIGRATED_EVENT_TYPE, version);
+  const blueprintId = migration
+    ? (migration.eventData as MigratedEventData).fromBlueprintId
+    : automata.blueprintId;
+  return loadBlueprint(blueprintId);
+}
+
+/**
+ * 在给定状态上重放单个 Event
+ *
+ * 转换上下文取自 Event 记录，与提交时一致；$MIGRATED 事件重新执行迁移表达式并切换 Blueprint
+ */
+async function applyEvent(cursor: ReplayCursor, event: AutomataEvent): Promise<ReplayCursor> {
+  const meta = {
+    automataId: event.automataId,
+    baseVersion: event.baseVersion,
+    senderAccountId: event.senderAccountId,
+    timestamp: event.timestamp,
+    params: cursor.params,
+  };
+
+  if (event.eventType === MIGRATED_EVENT_TYPE) {
+    const data = event.eventData as MigratedEventData;
+    return {
+      ...cursor,
+      blueprint: await loadBlueprint(data.toBlueprintId),
+      state: await executeTransition(cursor.state, data, data.transform, meta),
+    };
+  }
+
+  const definition = cursor.blueprint.events[event.eventType];
+  if (!definition) {
+    throw new TransitionError(
+      `Unknown event type in history: ${event.eventType}`,
+      'UNKNOWN_EVENT_TYPE'
+    );
+  }
+  return {
+    ...cursor,
+    state: await executeTransition(cursor.state, event.eventData, definition.transition, meta),
+  };
+}
+
+/**
+ * 从最近的 Snapshot 重放到指定版本（不晚于当前版本）
+ *
+ * 1. 找到不晚于目标版本的最近 Snapshot（没有则从当时 Blueprint 的初始状态开始）
+ * 2. 依次重放 [snapshot.version, version) 区间内的 Event
+ *
+ * @returns 该版本的状态及其生效的 Blueprint
+ */
+async function replayToVersion(automata: Automata, version: string): Promise<ReplayCursor> {
+  const { automataId } = automata;
+  const snapshot = await findNearestSnapshot(automataId, version);
+  const startVersion = snapshot ? snapshot.version : INITIAL_VERSION;
+  const blueprint = await getBlueprintAtVersion(automata, startVersion);
+  let cursor: ReplayCursor = {
+    blueprint,
+    state: snapshot ? snapshot.state : blueprint.state.initial,
+    params: automata.params,
+  };
+
+  const events = await getEventRange(automataId, startVersion, version);
+  for (const event of events) {
+    cursor = await applyEvent(cursor, event);
+  }
+  return cursor;
+}
+
+/**
+ * 获取已加载的 Automata 在指定版本的状态
+ *
+ * @returns 历史状态；版本超出当前版本时返回 null
+ */
+export async function getAutomataStateAtVersion(
+  automata: Automata,
+  version: string
+): Promise<HistoricalState | null> {
+  const { automataId } = automata;
+  if (compareVersions(version, automata.version) > 0) {
+    return null;
+  }
+
+  if (version === automata.version) {
+    return { automataId, version, state: automata.currentState };
+  }
+
+  const { state } = await replayToVersion(automata, version);
+  return { automataId, version, state };
+}
+
+/**
+ * 获取 Automata 在指定版本的状态
+ *
+ * @returns 历史状态；Automata 不存在或版本超出当前版本时返回 null
+ */
+export async function getStateAtVersion(
+  automataId: string,
+  version: string
+): Promise<HistoricalState | null> {
+  const automata = await getAutomataById(automataId);
+  return automata ? getAutomataStateAtVersion(automata, version) : null;
+}
+
+/**
+ * 重放 fromVersion 之后到 Automata 当前版本之间的 Event
+ *
+ * 用于 WebSocket 重新订阅时补发客户端错过的状态更新；
+ * 直接使用调用方已读取的 Automata，不再重复读取
+ *
+ * @returns 按版本顺序排列的 Event 及每个 Event 之后的状态；fromVersion 超出当前版本时返回 null
+ */
+export async function replayEventsSince(
+  automata: Automata,
+  fromVersion: string
+): Promise<ReplayedEvent[] | null> {
+  const { automataId } = automata;
+  if (compareVersions(fromVersion, automata.version) > 0) {
+    return null;
+  }
+  if (fromVersion === automata.version) {
+    return [];
+  }
+
+  let cursor = await replayToVersion(automata, fromVersion);
+  const events = await getEventRange(automataId, fromVersion, automata.version);
+  const replayed: ReplayedEvent[] = [];
+  for (const event of events) {
+    cursor = await applyEvent(cursor, event);
+    replayed.push({
+      event,
+      newVersion: incrementVersion(event.baseVersion),
+      newState: cursor.state,
+    });
+  }
+
+  return replayed;
+}
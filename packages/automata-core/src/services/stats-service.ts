@@ -0,0 +1,265 @@
+/**
+ * Stats Service
+ *
+ * 实时维护消费者 / Blueprint 统计（含时间分桶），以及消费者用量查询
+ */
+
+import { batchGetStats, getStats, incrementStats } from '../db/stats-repository';
+import {
+  buildStatsId,
+  getTimeBuckets,
+  STATS_TTL_SECONDS,
+  type StatsDelta,
+  type StatsGranularity,
+  type StatsIncrement,
+  type StatsScope,
+} from '../types/stats';
+
+/**
+ * 单次用量查询最多返回的时间段数
+ */
+const MAX_USAGE_PERIODS = 366;
+
+/**
+ * 各粒度的时间段格式
+ */
+const PERIOD_PATTERNS: Record<StatsGranularity, RegExp> = {
+  hour: /^\d{4}-\d{2}-\d{2}T\d{2}$/,
+  day: /^\d{4}-\d{2}-\d{2}$/,
+  month: /^\d{4}-\d{2}$/,
+};
+
+/**
+ * 统计查询错误
+ */
+export class StatsQueryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'StatsQueryError';
+  }
+}
+
+/**
+ * 单个时间段的用量
+ */
+export interface UsagePeriod {
+  period: string;
+  automataCount: number;
+  eventCount: number;
+}
+
+/**
+ * 消费者累计用量
+ */
+export interface ConsumerUsageSummary {
+  accountId: string;
+  role: 'consumer';
+  automataCount: number;
+  eventCount: number;
+  lastActivityAt: string | null;
+}
+
+/**
+ * 消费者时间范围用量
+ */
+export interface ConsumerUsageRange {
+  accountId: string;
+  role: 'consumer';
+  granularity: StatsGranularity;
+  from: string;
+  to: string;
+  data: UsagePeriod[];
+  total: {
+    automataCount: number;
+    eventCount: number;
+  };
+}
+
+/**
+ * 生成某个维度的累计值和全部时间分桶的递增操作
+ */
+export function buildStatsIncrements(
+  scope: StatsScope,
+  id: string,
+  delta: StatsDelta,
+  at: Date
+): StatsIncrement[] {
+  const activityAt = at.toISOString();
+  const nowSeconds = Math.floor(at.getTime() / 1000);
+  const buckets = getTimeBuckets(at);
+
+  return [
+    { statsId: buildStatsId(scope, id), delta, activityAt },
+    ...(Object.keys(buckets) as StatsGranularity[]).map((granularity) => {
+      const ttlSeconds = STATS_TTL_SECONDS[granularity];
+      return {
+        statsId: buildStatsId(scope, id, granularity, buckets[granularity]),
+        delta,
+        activityAt,
+        ttl: ttlSeconds === undefined ? undefined : nowSeconds + ttlSeconds,
+      };
+    }),
+  ];
+}
+
+/**
+ * 递增某个维度的累计值和全部时间分桶
+ */
+async function incrementWithBuckets(
+  scope: StatsScope,
+  id: string,
+  delta: StatsDelta,
+  at: Date
+): Promise<void> {
+  await Promise.all(
+    buildStatsIncrements(scope, id, delta, at).map(({ statsId, activityAt, ttl }) =>
+      incrementStats(statsId, delta, { activityAt, ttl })
+    )
+  );
+}
+
+/**
+ * 记录用量：同时更新消费者和 Blueprint 版本统计
+ */
+async function recordUsage(
+  ownerAccountId: string,
+  blueprintId: string,
+  delta: StatsDelta,
+  at: Date
+): Promise<void> {
+  await Promise.all([
+    incrementWithBuckets('CONSUMER', ownerAccountId, delta, at),
+    incrementWithBuckets('BLUEPRINT', blueprintId, delta, at),
+  ]);
+}
+
+/**
+ * 创建 Automata 后更新统计
+ */
+export async function recordAutomataCreated(
+  automata: { ownerAccountId: string; blueprintId: string },
+  at: Date = new Date()
+): Promise<void> {
+  await recordUsage(automata.ownerAccountId, automata.blueprintId, { automataCount: 1 }, at);
+}
+
+/**
+ * 创建 Event 后更新统计
+ */
+export async function recordEventCreated(
+  automata: { ownerAccountId: string; blueprintId: string },
+  at: Date = new Date()
+): Promise<void> {
+  await recordUsage(automata.ownerAccountId, automata.blueprintId, { eventCount: 1 }, at);
+}
+
+/**
+ * 将时间段字符串解析为 UTC 时间
+ */
+function parsePeriod(granularity: StatsGranularity, period: string): Date {
+  if (!PERIOD_PATTERNS[granularity].test(period)) {
+    throw new StatsQueryError(`Invalid ${granularity} period: ${period}`, 'INVALID_PERIOD');
+  }
+
+  const iso = {
+    hour: `${period}:00:00.000Z`,
+    day: `${period}T00:00:00.000Z`,
+    month: `${period}-01T00:00:00.000Z`,
+  }[granularity];
+
+  const date = new Date(iso);
+  // 拒绝 2024-13 / 2024-02-30 这类会被 Date 自动进位的值
+  if (Number.isNaN(date.getTime()) || getTimeBuckets(date)[granularity] !== period) {
+    throw new StatsQueryError(`Invalid ${granularity} period: ${period}`, 'INVALID_PERIOD');
+  }
+  return date;
+}
+
+/**
+ * 列出 [from, to] 范围内的全部时间段
+ */
+export function listPeriods(granularity: StatsGranularity, from: string, to: string): string[] {
+  const cursor = parsePeriod(granularity, from);
+  const end = parsePeriod(granularity, to);
+  if (cursor > end) {
+    throw new StatsQueryError('from must not be later than to', 'INVALID_RANGE');
+  }
+
+  const periods: string[] = [];
+  while (cursor <= end) {
+    if (periods.length >= MAX_USAGE_PERIODS) {
+      throw new StatsQueryError(
+        `Range exceeds ${MAX_USAGE_PERIODS} ${granularity} periods`,
+        'RANGE_TOO_LARGE'
+      );
+    }
+    periods.push(getTimeBuckets(cursor)[granularity]);
+
+    if (granularity === 'hour') {
+      cursor.setUTCHours(cursor.getUTCHours() + 1);
+    } else if (granularity === 'day') {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    } else {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * 获取消费者累计用量
+ */
+export async function getConsumerUsage(accountId: string): Promise<ConsumerUsageSummary> {
+  const stats = await getStats(buildStatsId('CONSUMER', accountId));
+  return {
+    accountId,
+    role: 'consumer',
+    automataCount: stats?.automataCount ?? 0,
+    eventCount: stats?.eventCount ?? 0,
+    lastActivityAt: stats?.lastActivityAt ?? null,
+  };
+}
+
+/**
+ * 获取消费者在时间范围内的用量（按粒度分桶）
+ *
+ * 没有活动的时间段以 0 补齐；超出保留期的小时 / 日分桶同样返回 0
+ */
+export async function getConsumerUsageRange(
+  accountId: string,
+  granularity: StatsGranularity,
+  from: string,
+  to: string
+): Promise<ConsumerUsageRange> {
+  const periods = listPeriods(granularity, from, to);
+  const statsIds = periods.map((period) =>
+    buildStatsId('CONSUMER', accountId, granularity, period)
+  );
+  const statsMap = await batchGetStats(statsIds);
+
+  const data = periods.map((period, index) => {
+    const stats = statsMap.get(statsIds[index]);
+    return {
+      period,
+      automataCount: stats?.automataCount ?? 0,
+      eventCount: stats?.eventCount ?? 0,
+    };
+  });
+
+  return {
+    accountId,
+    role: 'consumer',
+    granularity,
+    from,
+    to,
+    data,
+    total: {
+      automataCount: data.reduce((sum, item) => sum + item.automataCount, 0),
+      eventCount: data.reduce((sum, item) => sum + item.eventCount, 0),
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * 订阅过滤与投影
+ *
+ * 订阅可携带 JSONata filter / projection，推送前在服务端求值
+ */
+
+import type { WsSubscription } from '../types/websocket';
+import {
+  evaluateExpression,
+  type TransitionLimits,
+  validateTransitionExpression,
+} from './transition-engine';
+
+/**
+ * 表达式最大长度（限制订阅记录大小和求值开销）
+ */
+export const MAX_SUBSCRIPTION_EXPRESSION_LENGTH = 1024;
+
+/**
+ * filter / projection 的资源限制
+ *
+ * 广播时每个订阅者都要求值，远低于转换的默认限制，避免少数昂贵表达式拖垮整个广播任务
+ */
+export const SUBSCRIPTION_EXPRESSION_LIMITS: Partial<TransitionLimits> = {
+  timeoutMs: 50,
+  maxSteps: 10_000,
+};
+
+/**
+ * filter / projection 的输入
+ */
+export interface SubscriptionExpressionInput {
+  /** 新状态（full 同步时为当前状态） */
+  state: unknown;
+
+  /** 事件数据（full 同步时为空） */
+  event?: unknown;
+
+  /** 事件类型（full 同步时为空） */
+  eventType?: string;
+}
+
+/**
+ * 订阅求值结果（filter 命中时）
+ */
+export type SubscriptionEvaluation = { projected: false } | { projected: true; value: unknown };
+
+/**
+ * 校验订阅的 filter / projection
+ *
+ * @returns 错误信息；有效时返回 null
+ */
+export function validateSubscriptionExpressions(
+  subscription: Pick<WsSubscription, 'filter' | 'projection'>
+): string | null {
+  for (const key of ['filter', 'projection'] as const) {
+    const expression = subscription[key];
+    if (expression === undefined) {
+      continue;
+    }
+    if (typeof expression !== 'string' || expression.trim() === '') {
+      return `${key} must be a non-empty string`;
+    }
+    if (expression.length > MAX_SUBSCRIPTION_EXPRESSION_LENGTH) {
+      return `${key} exceeds ${MAX_SUBSCRIPTION_EXPRESSION_LENGTH} characters`;
+    }
+    const result = validateTransitionExpression(expression);
+    if (!result.valid) {
+      return `Invalid ${key} expression: ${result.error}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 对订阅求值 filter 和 projection
+ *
+ * 求值失败视为不匹配，避免错误的表达式导致推送失败
+ *
+ * @returns filter 未命中时返回 null
+ */
+export async function evaluateSubscription(
+  subscription: Pick<WsSubscription, 'filter' | 'projection'>,
+  input: SubscriptionExpressionInput
+): Promise<SubscriptionEvaluation | null> {
+  try {
+    if (
+      subscription.filter &&
+      !(await evaluateExpression(
+        subscription.filter,
+        input,
+        undefined,
+        SUBSCRIPTION_EXPRESSION_LIMITS
+      ))
+    ) {
+      return null;
+    }
+    if (subscription.projection) {
+      const value = await evaluateExpression(
+        subscription.projection,
+        input,
+        undefined,
+        SUBSCRIPTION_EXPRESSION_LIMITS
+      );
+      return { projected: true, value };
+    }
+    return { projected: false };
+  } catch (error) {
+    console.warn('[WS] Subscription expression failed:', (error as Error).message);
+    return null;
+  }
+}
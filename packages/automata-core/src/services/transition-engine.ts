@@ -5,7 +5,16 @@
  */
 
 import jsonata from 'jsonata';
-import type { BlueprintContent } from '../types/blueprint';
+import type { Blueprint, BlueprintContent, EventDefinition } from '../types/blueprint';
+import { computeBlueprintId } from '../utils/hash';
+import { LruCache } from '../utils/lru-cache';
+import {
+  type BlueprintValidators,
+  getBlueprintValidators,
+  SchemaCompileError,
+  type SchemaValidationIssue,
+  validateWithSchema,
+} from './schema-validator';
 
 /**
  * 转换引擎错误
@@ -22,9 +31,135 @@ export class TransitionError extends Error {
 }
 
 /**
- * 编译后的转换表达式缓存
+ * 表达式求值的资源限制
  */
-const compiledExpressions = new Map<string, jsonata.Expression>();
+export interface TransitionLimits {
+  /** 单次求值的最长时间（毫秒） */
+  timeoutMs: number;
+
+  /** 最大求值嵌套深度（含递归调用） */
+  maxDepth: number;
+
+  /** 最大求值步数 */
+  maxSteps: number;
+
+  /** 新状态 JSON 序列化后的最大字节数（远低于 DynamoDB 400 KB 的单项上限） */
+  maxStateBytes: number;
+}
+
+/**
+ * 默认资源限制
+ */
+export const DEFAULT_TRANSITION_LIMITS: TransitionLimits = {
+  timeoutMs: 1000,
+  maxDepth: 500,
+  maxSteps: 100_000,
+  maxStateBytes: 256 * 1024,
+};
+
+/**
+ * 超出资源限制时的错误码
+ */
+const LIMIT_ERROR_CODES = new Set([
+  'EVALUATION_TIMEOUT',
+  'EVALUATION_DEPTH_EXCEEDED',
+  'EVALUATION_STEPS_EXCEEDED',
+  'STATE_TOO_LARGE',
+]);
+
+/**
+ * 判断是否为超出资源限制的错误
+ */
+export function isLimitExceededError(error: unknown): error is TransitionError {
+  return error instanceof TransitionError && LIMIT_ERROR_CODES.has(error.code);
+}
+
+/**
+ * 单次求值的预算，通过绑定传入，由求值钩子累计
+ */
+interface EvaluationBudget {
+  limits: TransitionLimits;
+  deadline: number;
+  depth: number;
+  steps: number;
+}
+
+/**
+ * 预算的绑定名（含 #，表达式中无法以变量引用）
+ */
+const BUDGET_BINDING = '#budget';
+
+/**
+ * JSONata 每个求值节点进出时调用的钩子
+ */
+const EVALUATE_ENTRY = Symbol.for('jsonata.__evaluate_entry');
+const EVALUATE_EXIT = Symbol.for('jsonata.__evaluate_exit');
+
+interface EvaluationEnvironment {
+  lookup(name: string): unknown;
+}
+
+function onEvaluateEntry(_expr: unknown, _input: unknown, environment: EvaluationEnvironment) {
+  const budget = environment.lookup(BUDGET_BINDING) as EvaluationBudget | undefined;
+  if (!budget) {
+    return;
+  }
+
+  const { limits } = budget;
+  budget.depth++;
+  budget.steps++;
+  if (budget.depth > limits.maxDepth) {
+    throw new TransitionError(
+      `Evaluation depth exceeded ${limits.maxDepth}`,
+      'EVALUATION_DEPTH_EXCEEDED',
+      { limit: limits.maxDepth }
+    );
+  }
+  if (budget.steps > limits.maxSteps) {
+    throw new TransitionError(
+      `Evaluation exceeded ${limits.maxSteps} steps`,
+      'EVALUATION_STEPS_EXCEEDED',
+      { limit: limits.maxSteps }
+    );
+  }
+  if (Date.now() > budget.deadline) {
+    throw new TransitionError(
+      `Evaluation timed out after ${limits.timeoutMs}ms`,
+      'EVALUATION_TIMEOUT',
+      { limit: limits.timeoutMs }
+    );
+  }
+}
+
+function onEvaluateExit(_expr: unknown, _input: unknown, environment: EvaluationEnvironment) {
+  const budget = environment.lookup(BUDGET_BINDING) as EvaluationBudget | undefined;
+  if (budget) {
+    budget.depth--;
+  }
+}
+
+/**
+ * 在编译后的表达式上注册求值钩子
+ *
+ * 钩子是 JSONata 未公开的内部机制：以 Symbol 为名绑定，而 assign 的类型声明只接受字符串。
+ * 除状态大小外的全部资源限制都依赖它，因此 jsonata 固定为精确版本，
+ * 升级前须确认测试 "should fire the JSONata evaluation hooks" 仍然通过
+ */
+function installEvaluationHooks(compiled: jsonata.Expression): void {
+  const assignHook = compiled.assign as unknown as (name: symbol, hook: unknown) => void;
+  assignHook.call(compiled, EVALUATE_ENTRY, onEvaluateEntry);
+  assignHook.call(compiled, EVALUATE_EXIT, onEvaluateExit);
+}
+
+/**
+ * 表达式缓存的容量上限（simulate / validate 等公开接口会以用户输入填充缓存）
+ */
+export const MAX_CACHED_EXPRESSIONS = 1000;
+
+/**
+ * 编译后的转换表达式缓存（LRU）
+ */
+const compiledExpressions = new LruCache<string, jsonata.Expression>(MAX_CACHED_EXPRESSIONS);
 
 /**
  * 获取或编译 JSONata 表达式
@@ -34,7 +169,6 @@ function getCompiledExpression(transition: string): jsonata.Expression {
   if (!compiled) {
     try {
       compiled = jsonata(transition);
-      compiledExpressions.set(transition, compiled);
     } catch (error) {
       throw new TransitionError(
         `Invalid JSONata expression: ${(error as Error).message}`,
@@ -42,44 +176,260 @@ function getCompiledExpression(transition: string): jsonata.Expression {
         error
       );
     }
+    installEvaluationHooks(compiled);
+    compiledExpressions.set(transition, compiled);
   }
   return compiled;
 }
 
+/**
+ * 在资源限制下求值已编译的表达式
+ */
+async function evaluateWithLimits(
+  compiled: jsonata.Expression,
+  input: unknown,
+  bindings: Record<string, unknown> | undefined,
+  limits: Partial<TransitionLimits>
+): Promise<unknown> {
+  const resolved = { ...DEFAULT_TRANSITION_LIMITS, ...limits };
+  const budget: EvaluationBudget = {
+    limits: resolved,
+    deadline: Date.now() + resolved.timeoutMs,
+    depth: 0,
+    steps: 0,
+  };
+  return compiled.evaluate(input, { ...bindings, [BUDGET_BINDING]: budget });
+}
+
+/**
+ * 转换上下文（$.meta），取自 Event 记录，重放时可完全复现
+ */
+export interface TransitionMeta {
+  /** 归属自动机 ID */
+  automataId: string;
+
+  /** 事件提交前的版本号 */
+  baseVersion: string;
+
+  /** 发送者 Account ID */
+  senderAccountId: string;
+
+  /** 事件时间戳（ISO 8601） */
+  timestamp: string;
+
+  /** Automata 创建时绑定的参数，作为 $.params 暴露（不出现在 $.meta 中） */
+  params?: unknown;
+}
+
+/**
+ * 用于格式化 $now(picture, timezone)
+ */
+const formatMillis = jsonata('$fromMillis(millis, picture, timezone)');
+
+/**
+ * 由字符串生成 32 位种子（FNV-1a）
+ */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 基于种子的伪随机数生成器（mulberry32），返回 [0, 1) 区间的数
+ */
+function createSeededRandom(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 构建确定性的内置函数绑定
+ *
+ * 覆盖 JSONata 的 $now / $millis / $random：时间取自事件时间戳，
+ * 随机数以 automataId + baseVersion 为种子，每次求值重新开始序列
+ */
+function createDeterministicBindings(meta: TransitionMeta): Record<string, unknown> {
+  const millis = Date.parse(meta.timestamp);
+  return {
+    now: (picture?: string, timezone?: string) =>
+      picture === undefined ? meta.timestamp : formatMillis.evaluate({ millis, picture, timezone }),
+    millis: () => millis,
+    random: createSeededRandom(hashSeed(`${meta.automataId}:${meta.baseVersion}`)),
+  };
+}
+
+/**
+ * 构建表达式的输入和绑定
+ *
+ * JSONata 约定：$.state 表示当前状态，$.event 表示事件数据，$.meta 表示转换上下文，
+ * $.params 表示 Automata 的参数
+ */
+function buildTransitionInput(
+  currentState: unknown,
+  eventData: unknown,
+  meta?: TransitionMeta
+): { input: Record<string, unknown>; bindings?: Record<string, unknown> } {
+  if (!meta) {
+    return { input: { state: currentState, event: eventData } };
+  }
+  const { params, ...context } = meta;
+  return {
+    input: { state: currentState, event: eventData, meta: context, params },
+    bindings: createDeterministicBindings(meta),
+  };
+}
+
 /**
  * 执行状态转换
  *
  * @param currentState - 当前状态
  * @param eventData - 事件数据
  * @param transition - JSONata 转换表达式
+ * @param meta - 转换上下文；提供时 $now / $millis / $random 由其确定性地派生
+ * @param limits - 资源限制，未指定的项使用 DEFAULT_TRANSITION_LIMITS
  * @returns 新状态
+ * @throws TransitionError - 超出限制时抛出 EVALUATION_TIMEOUT / EVALUATION_DEPTH_EXCEEDED /
+ *   EVALUATION_STEPS_EXCEEDED / STATE_TOO_LARGE
  */
 export async function executeTransition(
   currentState: unknown,
   eventData: unknown,
-  transition: string
+  transition: string,
+  meta?: TransitionMeta,
+  limits: Partial<TransitionLimits> = {}
 ): Promise<unknown> {
   const expression = getCompiledExpression(transition);
+  const { input, bindings } = buildTransitionInput(currentState, eventData, meta);
 
-  // 构建输入数据
-  // JSONata 约定：$.state 表示当前状态，$.event 表示事件数据
-  // 保留 $xxx 命名空间给未来的扩展函数
-  const input = {
-    state: currentState,
-    event: eventData,
-  };
-
+  let newState: unknown;
   try {
-    // 第一个参数是输入数据，通过 $.state 和 $.event 访问
-    const newState = await expression.evaluate(input);
-    return newState;
+    // 第一个参数是输入数据，通过 $.state / $.event / $.meta 访问
+    newState = await evaluateWithLimits(expression, input, bindings, limits);
   } catch (error) {
+    if (error instanceof TransitionError) {
+      throw error;
+    }
     throw new TransitionError(
       `Transition execution failed: ${(error as Error).message}`,
       'EXECUTION_FAILED',
       error
     );
   }
+
+  const maxStateBytes = limits.maxStateBytes ?? DEFAULT_TRANSITION_LIMITS.maxStateBytes;
+  const stateBytes = Buffer.byteLength(JSON.stringify(newState) ?? '');
+  if (stateBytes > maxStateBytes) {
+    throw new TransitionError(
+      `Resulting state is ${stateBytes} bytes, exceeding ${maxStateBytes}`,
+      'STATE_TOO_LARGE',
+      { limit: maxStateBytes, size: stateBytes }
+    );
+  }
+
+  return newState;
+}
+
+/**
+ * 对任意输入求值 JSONata 表达式（与转换共用编译缓存）
+ *
+ * @param limits - 资源限制，未指定的项使用 DEFAULT_TRANSITION_LIMITS
+ */
+export async function evaluateExpression(
+  expression: string,
+  input: unknown,
+  bindings?: Record<string, unknown>,
+  limits: Partial<TransitionLimits> = {}
+): Promise<unknown> {
+  const compiled = getCompiledExpression(expression);
+  try {
+    return await evaluateWithLimits(compiled, input, bindings, limits);
+  } catch (error) {
+    if (error instanceof TransitionError) {
+      throw error;
+    }
+    throw new TransitionError(
+      `Expression evaluation failed: ${(error as Error).message}`,
+      'EXECUTION_FAILED',
+      error
+    );
+  }
+}
+
+/**
+ * 检查事件的前置条件
+ *
+ * @throws TransitionError - guard 结果为假时抛出 GUARD_REJECTED
+ */
+export async function checkGuard(
+  currentState: unknown,
+  eventData: unknown,
+  eventType: string,
+  definition: Pick<EventDefinition, 'guard' | 'guardMessage'>,
+  meta?: TransitionMeta
+): Promise<void> {
+  if (!definition.guard) {
+    return;
+  }
+
+  const { input, bindings } = buildTransitionInput(currentState, eventData, meta);
+  const passed = await evaluateExpression(definition.guard, input, bindings);
+  if (!passed) {
+    throw new TransitionError(
+      definition.guardMessage || `Event ${eventType} rejected by guard`,
+      'GUARD_REJECTED',
+      { eventType }
+    );
+  }
+}
+
+/**
+ * 模式信息
+ */
+export interface ModeInfo {
+  /** 当前模式；Blueprint 未声明 modes 时为 null */
+  currentMode: string | null;
+
+  /** 当前可发送的事件类型 */
+  allowedEvents: string[];
+}
+
+/**
+ * 计算状态所处的模式及允许的事件
+ *
+ * @throws TransitionError - 判别结果不是已声明的模式时抛出 UNKNOWN_MODE
+ */
+export async function getModeInfo(
+  blueprint: Pick<BlueprintContent, 'events' | 'modes'>,
+  state: unknown
+): Promise<ModeInfo> {
+  const { modes } = blueprint;
+  if (!modes) {
+    return { currentMode: null, allowedEvents: Object.keys(blueprint.events) };
+  }
+
+  const mode = await evaluateExpression(modes.discriminator, { state });
+  const definition =
+    typeof mode === 'string' && Object.hasOwn(modes.table, mode) ? modes.table[mode] : null;
+  if (!definition) {
+    throw new TransitionError(`State maps to an undeclared mode: ${String(mode)}`, 'UNKNOWN_MODE', {
+      mode,
+    });
+  }
+
+  const allowedEvents = definition.terminal
+    ? []
+    : (definition.events ?? []).filter((eventType) => eventType in blueprint.events);
+  return { currentMode: mode as string, allowedEvents };
 }
 
 /**
@@ -100,6 +450,101 @@ export function validateTransitionExpression(transition: string): {
   }
 }
 
+/**
+ * 表达式语法树的最大节点数
+ */
+export const MAX_EXPRESSION_NODES = 2000;
+
+/**
+ * 表达式语法树的最大嵌套层数
+ */
+export const MAX_EXPRESSION_NESTING = 64;
+
+/**
+ * 统计语法树的节点数和嵌套层数
+ */
+function measureExpression(ast: unknown): { nodes: number; nesting: number } {
+  let nodes = 0;
+  let nesting = 0;
+  const seen = new WeakSet<object>();
+  const visit = (value: unknown, depth: number) => {
+    if (!value || typeof value !== 'object' || seen.has(value)) {
+      return;
+    }
+    seen.add(value);
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        visit(item, depth);
+      }
+      return;
+    }
+    const isNode = typeof (value as { type?: unknown }).type === 'string';
+    const childDepth = isNode ? depth + 1 : depth;
+    if (isNode) {
+      nodes++;
+      nesting = Math.max(nesting, depth);
+    }
+    for (const child of Object.values(value)) {
+      visit(child, childDepth);
+    }
+  };
+  visit(ast, 1);
+  return { nodes, nesting };
+}
+
+/**
+ * 表达式开销预检
+ *
+ * 静态检查语法树规模，拒绝明显过大或嵌套过深的表达式
+ *
+ * @returns 错误信息；通过时返回 null
+ */
+export function checkExpressionCost(expression: string): string | null {
+  let ast: unknown;
+  try {
+    ast = jsonata(expression).ast();
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  const { nodes, nesting } = measureExpression(ast);
+  if (nodes > MAX_EXPRESSION_NODES) {
+    return `Expression has ${nodes} nodes, exceeding ${MAX_EXPRESSION_NODES}`;
+  }
+  if (nesting > MAX_EXPRESSION_NESTING) {
+    return `Expression nesting depth ${nesting} exceeds ${MAX_EXPRESSION_NESTING}`;
+  }
+  return null;
+}
+
+/**
+ * Schema 校验失败时 TransitionError.details 的结构
+ */
+export interface SchemaValidationDetails {
+  errors: SchemaValidationIssue[];
+}
+
+/**
+ * 获取 Blueprint 的校验函数
+ *
+ * 已存储的 Blueprint 直接使用 blueprintId 作为缓存键，纯内容则计算其 blueprintId
+ */
+async function resolveValidators(
+  blueprint: BlueprintContent | Blueprint
+): Promise<BlueprintValidators> {
+  const blueprintId =
+    'blueprintId' in blueprint ? blueprint.blueprintId : await computeBlueprintId(blueprint);
+
+  try {
+    return getBlueprintValidators(blueprintId, blueprint);
+  } catch (error) {
+    if (error instanceof SchemaCompileError) {
+      throw new TransitionError(error.message, 'INVALID_SCHEMA', { schemaPath: error.schemaPath });
+    }
+    throw error;
+  }
+}
+
 /**
  * 执行完整的事件处理流程
  *
@@ -107,13 +552,15 @@ export function validateTransitionExpression(transition: string): {
  * @param currentState - 当前状态
  * @param eventType - 事件类型
  * @param eventData - 事件数据
+ * @param meta - 转换上下文；提交事件时须与 Event 记录一致，以保证重放结果相同
  * @returns 新状态
  */
 export async function processEvent(
-  blueprint: BlueprintContent,
+  blueprint: BlueprintContent | Blueprint,
   currentState: unknown,
   eventType: string,
-  eventData: unknown
+  eventData: unknown,
+  meta?: TransitionMeta
 ): Promise<unknown> {
   // 1. 验证事件类型是否在 Blueprint 中定义
   const eventDefinition = blueprint.events[eventType];
@@ -121,13 +568,61 @@ export async function processEvent(
     throw new TransitionError(`Unknown event type: ${eventType}`, 'UNKNOWN_EVENT_TYPE');
   }
 
-  // 2. TODO: 验证 eventData 是否符合 eventDefinition.schema
-  // 这里可以使用 ajv 等 JSON Schema 验证库
+  // 2. 检查当前模式是否允许该事件
+  if (blueprint.modes) {
+    const { currentMode, allowedEvents } = await getModeInfo(blueprint, currentState);
+    if (!allowedEvents.includes(eventType)) {
+      const terminal = blueprint.modes.table[currentMode as string].terminal;
+      throw new TransitionError(
+        terminal
+          ? `Automata is in terminal mode ${currentMode}`
+          : `Event ${eventType} is not allowed in mode ${currentMode}`,
+        terminal ? 'TERMINAL_MODE' : 'EVENT_NOT_ALLOWED',
+        { currentMode, allowedEvents }
+      );
+    }
+  }
+
+  const validators = await resolveValidators(blueprint);
+
+  // 3. 验证 eventData 是否符合 eventDefinition.schema
+  const eventValidator = validators.events.get(eventType);
+  const eventErrors = eventValidator ? validateWithSchema(eventValidator, eventData) : [];
+  if (eventErrors.length > 0) {
+    const details: SchemaValidationDetails = { errors: eventErrors };
+    throw new TransitionError(
+      `Event data does not match schema of ${eventType}`,
+      'INVALID_EVENT_DATA',
+      details
+    );
+  }
 
-  // 3. 执行转换（使用该事件对应的 transition）
-  const newState = await executeTransition(currentState, eventData, eventDefinition.transition);
+  // 4. 检查前置条件（在提交之前拒绝，不消耗版本号）
+  await checkGuard(currentState, eventData, eventType, eventDefinition, meta);
 
-  // 4. TODO: 验证新状态是否符合 blueprint.state.schema
+  // 5. 执行转换（使用该事件对应的 transition）
+  const newState = await executeTransition(
+    currentState,
+    eventData,
+    eventDefinition.transition,
+    meta
+  );
+
+  // 6. 验证新状态是否符合 blueprint.state.schema
+  const stateErrors = validateWithSchema(validators.state, newState);
+  if (stateErrors.length > 0) {
+    const details: SchemaValidationDetails = { errors: stateErrors };
+    throw new TransitionError(
+      `Resulting state does not match state schema after ${eventType}`,
+      'INVALID_RESULT_STATE',
+      details
+    );
+  }
+
+  // 7. 新状态必须落在已声明的模式中
+  if (blueprint.modes) {
+    await getModeInfo(blueprint, newState);
+  }
 
   return newState;
 }
@@ -28,6 +28,9 @@ export interface Automata {
   /** 从 blueprintId 解析的 appId（冗余存储用于 GSI2） */
   appId: string;
 
+  /** 创建时绑定的 Blueprint 参数（Blueprint 声明 params 时存在），转换中通过 $.params 访问 */
+  params?: unknown;
+
   /** 创建时间 */
   createdAt: string; // ISO8601
 
@@ -69,18 +72,47 @@ export interface AutomataItem extends Automata {
   gsi2sk: string;
 }
 
+/**
+ * 与创建同时提交的初始事件（版本 000000 → 000001）
+ */
+export interface InitialEventRecord {
+  /** 事件类型 */
+  eventType: string;
+
+  /** 事件负载数据 */
+  eventData: unknown;
+
+  /** 发送者 Account ID */
+  senderAccountId: string;
+
+  /** 执行事件后的状态 */
+  newState: unknown;
+
+  /** 事件时间戳（与转换上下文的 $.meta.timestamp 一致） */
+  timestamp: string;
+}
+
 /**
  * 创建 Automata 的输入参数
  */
 export interface CreateAutomataInput {
+  /** Automata ID（可选，默认生成 ULID；执行初始事件前需要预先确定） */
+  automataId?: string;
+
   /** 归属的 Account ID */
   ownerAccountId: string;
 
   /** Blueprint ID（已验证并存储） */
   blueprintId: string;
 
-  /** 初始状态 */
+  /** 初始状态（版本 000000 的状态） */
   initialState: unknown;
+
+  /** Blueprint 参数（已按 params.schema 校验） */
+  params?: unknown;
+
+  /** 初始事件（可选），与创建在同一事务中提交 */
+  initialEvent?: InitialEventRecord;
 }
 
 /**
@@ -27,6 +27,51 @@ export interface EventDefinition {
 
   /** JSONata 转换表达式: ($state, $data) => newState */
   transition: string;
+
+  /**
+   * JSONata 前置条件（可选），输入与 transition 相同（`{ state, event }`）
+   *
+   * 结果为假时拒绝事件（GUARD_REJECTED），不执行转换也不消耗版本号
+   */
+  guard?: string;
+
+  /** guard 拒绝时返回的错误信息（可选） */
+  guardMessage?: string;
+}
+
+/**
+ * 参数定义
+ *
+ * 参数在创建 Automata 时提供并绑定，之后不可变；
+ * 只有常量不同的变体（人数上限、配额、超时等）可共用同一个签名的 Blueprint
+ */
+export interface ParamsDefinition {
+  /** 参数的 JSON Schema（未提供参数时按 {} 校验） */
+  schema: JSONSchema7;
+}
+
+/**
+ * 离散模式定义
+ */
+export interface ModeDefinition {
+  /** 该模式下允许的事件类型 */
+  events?: string[];
+
+  /** 终止模式：不再接受任何事件 */
+  terminal?: boolean;
+}
+
+/**
+ * 离散模式声明（有限状态集合 S）
+ *
+ * 连续的 state 通过 discriminator 映射到有限的模式，每个模式声明允许的事件
+ */
+export interface ModesDefinition {
+  /** JSONata 判别表达式，输入为 `{ state }`，返回当前模式名 */
+  discriminator: string;
+
+  /** 模式名 -> 模式定义 */
+  table: Record<string, ModeDefinition>;
 }
 
 /**
@@ -34,7 +79,7 @@ export interface EventDefinition {
  * 这是用户提交的 Blueprint 定义，用于计算 hash 和签名验证
  *
  * 对应有限状态机数学定义 M = (S, Σ, δ, s₀):
- * - S (状态集合) = state.schema
+ * - S (状态集合) = state.schema（声明 modes 时为 modes.table 的有限模式集合）
  * - s₀ (初始状态) = state.initial
  * - Σ (事件字母表) = Object.keys(events)
  * - δ (转换函数) = events[type].transition
@@ -54,6 +99,12 @@ export interface BlueprintContent {
 
   /** 事件定义：事件类型 -> { schema, transition } */
   events: Record<string, EventDefinition>;
+
+  /** 离散模式及各模式允许的事件（可选；未声明时所有事件始终可用） */
+  modes?: ModesDefinition;
+
+  /** 创建 Automata 时绑定的参数（可选） */
+  params?: ParamsDefinition;
 }
 
 /**
@@ -73,6 +124,47 @@ export interface Blueprint extends BlueprintContent {
   createdAt: string; // ISO8601
 }
 
+/**
+ * Blueprint 迁移（由 App owner 的设备签名）
+ *
+ * 将绑定到 {appId}:{name}:{fromHash} 的 Automata 升级到 {appId}:{name}:{toHash}
+ */
+export interface BlueprintMigration {
+  /** 归属的 App ID */
+  appId: string;
+
+  /** Blueprint 名称 */
+  name: string;
+
+  /** 源 Blueprint hash */
+  fromHash: string;
+
+  /** 目标 Blueprint hash */
+  toHash: string;
+
+  /** JSONata 状态迁移表达式，输入与 transition 相同（`{ state, event, meta }`），返回新状态 */
+  transform: string;
+}
+
+/**
+ * 系统事件：Blueprint 迁移
+ *
+ * 用户 Blueprint 不能定义以 $ 开头的事件类型
+ */
+export const MIGRATED_EVENT_TYPE = '$MIGRATED';
+
+/**
+ * $MIGRATED 事件的 eventData，重放时据此切换 Blueprint 并重新执行迁移表达式
+ */
+export interface MigratedEventData {
+  fromBlueprintId: string;
+  toBlueprintId: string;
+  transform: string;
+
+  /** 迁移的签名 */
+  signature: string;
+}
+
 /**
  * DynamoDB Item 结构
  */
@@ -90,6 +182,71 @@ export interface BlueprintItem extends Blueprint {
   gsi1sk: string;
 }
 
+/**
+ * Blueprint 引用：按 App 和名称引用已存储的 Blueprint
+ */
+export interface BlueprintReference {
+  /** 归属的 App ID */
+  appId: string;
+
+  /** Blueprint 名称 */
+  name: string;
+
+  /** 'latest'（按 latest 指针解析）或 Blueprint hash */
+  version: string;
+}
+
+/**
+ * latest 指针：每个 {appId}:{name} 当前推荐使用的 Blueprint，由 App owner 签名移动
+ */
+export interface BlueprintLatestPointer {
+  appId: string;
+  name: string;
+
+  /** 指向的 Blueprint ID */
+  blueprintId: string;
+
+  /** 指针修订号：首次设置为 1，每次移动加 1 */
+  revision: number;
+
+  /** App owner 设备对 BlueprintLatestUpdate 的签名 */
+  signature: string;
+
+  /** 最后移动指针的 Account ID */
+  updatedByAccountId: string;
+
+  /** 最后移动时间 */
+  updatedAt: string; // ISO8601
+}
+
+/**
+ * 移动 latest 指针时签名的内容
+ */
+export interface BlueprintLatestUpdate {
+  appId: string;
+  name: string;
+
+  /** 新的指向 */
+  blueprintId: string;
+
+  /** 期望的当前指向（首次设置时为 null）；指针已被移动时拒绝 */
+  previousBlueprintId: string | null;
+
+  /** 移动后的修订号（当前修订号 + 1，首次设置为 1）；修订号单调递增，每个签名请求至多生效一次 */
+  revision: number;
+}
+
+/**
+ * latest 指针的 DynamoDB Item 结构
+ */
+export interface BlueprintLatestItem extends BlueprintLatestPointer {
+  /** PK: BLUEPRINT_LATEST#{appId}:{name} */
+  pk: string;
+
+  /** SK: #META */
+  sk: string;
+}
+
 /**
  * 创建 Blueprint 的输入参数
  */
@@ -111,6 +268,23 @@ export function isBuiltinBlueprint(blueprintId: string): boolean {
   return blueprintId.startsWith('SYSTEM:');
 }
 
+/**
+ * 判断是否为 Blueprint 引用（而非完整的 Blueprint 内容）
+ */
+export function isBlueprintReference(value: unknown): value is BlueprintReference {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const ref = value as Record<string, unknown>;
+  return (
+    typeof ref.appId === 'string' &&
+    typeof ref.name === 'string' &&
+    typeof ref.version === 'string' &&
+    !('state' in ref) &&
+    !('events' in ref)
+  );
+}
+
 /**
  * 解析 Blueprint ID
  * @returns { appId, name, hash }
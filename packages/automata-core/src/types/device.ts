@@ -1,7 +1,7 @@
 /**
  * Device Entity
  *
- * Device 代表一个用户设备，每个设备有独立的 Ed25519 密钥对。
+ * Device 代表一个用户设备，每个设备有独立的密钥对（Ed25519 或 ECDSA P-256）。
  * 一个 Account 可以有多个 Device。
  */
 
@@ -10,6 +10,16 @@ import { ulid } from 'ulid';
 /** Device 状态 */
 export type DeviceStatus = 'active' | 'revoked';
 
+/**
+ * 设备密钥算法
+ * - Ed25519: 32 bytes 公钥
+ * - ECDSA-P256: 65 bytes 未压缩公钥（WebCrypto raw 格式，SDK 默认生成）
+ */
+export type DeviceKeyAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+/** 支持的设备密钥算法 */
+export const DEVICE_KEY_ALGORITHMS: readonly DeviceKeyAlgorithm[] = ['Ed25519', 'ECDSA-P256'];
+
 /**
  * Device 实体
  */
@@ -21,9 +31,12 @@ export interface Device {
   /** 所属 Account ID */
   accountId: string;
 
-  /** Ed25519 公钥，Base64URL 编码，32 bytes */
+  /** 公钥，Base64URL 编码 */
   publicKey: string;
 
+  /** 公钥算法（旧数据没有此字段，视为 Ed25519） */
+  keyAlgorithm: DeviceKeyAlgorithm;
+
   /** 创建时间 */
   createdAt: string;
 
@@ -51,9 +64,12 @@ export interface RegisterDeviceInput {
   /** 所属 Account ID */
   accountId: string;
 
-  /** Ed25519 公钥，Base64URL 编码 */
+  /** 公钥，Base64URL 编码 */
   publicKey: string;
 
+  /** 公钥算法 */
+  keyAlgorithm: DeviceKeyAlgorithm;
+
   /** 设备名称 */
   deviceName: string;
 
@@ -14,6 +14,12 @@ export * from './device';
 // Event
 export * from './event';
 
+// Snapshot
+export * from './snapshot';
+
+// Stats
+export * from './stats';
+
 // WebSocket
 export * from './websocket';
 
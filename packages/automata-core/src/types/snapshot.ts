@@ -0,0 +1,49 @@
+/**
+ * Snapshot - 状态快照（隐式实体）
+ *
+ * Snapshot 是 Automata 状态的定期快照，由系统自动创建，用于快速恢复历史状态。
+ */
+
+import { decodeBase62 } from '../utils/base62';
+
+/**
+ * 快照间隔：每 62 个版本创建一个快照
+ */
+export const SNAPSHOT_INTERVAL = 62;
+
+/**
+ * Snapshot 实体
+ */
+export interface AutomataSnapshot {
+  // 全部不可变
+
+  /** 归属自动机 ID（联合主键 1） */
+  automataId: string;
+
+  /** 快照版本号（联合主键 2）：6 位 Base62 编码 */
+  version: string;
+
+  /** 该版本的完整状态 */
+  state: unknown;
+
+  /** 快照创建时间 */
+  createdAt: string; // ISO8601
+}
+
+/**
+ * DynamoDB Item 结构
+ */
+export interface SnapshotItem extends AutomataSnapshot {
+  /** PK: AUTOMATA#{automataId} */
+  pk: string;
+
+  /** SK: SNAP#{version} */
+  sk: string;
+}
+
+/**
+ * 判断该版本是否需要创建快照
+ */
+export function shouldCreateSnapshot(version: string): boolean {
+  return decodeBase62(version) % BigInt(SNAPSHOT_INTERVAL) === 0n;
+}
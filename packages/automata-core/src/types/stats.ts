@@ -0,0 +1,132 @@
+/**
+ * Stats - 统计节点（隐式实体）
+ *
+ * Stats 由系统自动维护，用于计费（消费者侧）和分成（生产者侧）统计。
+ * 每个统计维度都有累计值以及小时 / 日 / 月时间分桶。
+ */
+
+/**
+ * 时间粒度
+ */
+export type StatsGranularity = 'hour' | 'day' | 'month';
+
+/**
+ * 统计维度
+ *
+ * - CONSUMER: 消费者（Automata 所有者）
+ * - BLUEPRINT: 特定 Blueprint 版本
+ * - APP / PRODUCER: 由 Streams 聚合器异步维护
+ */
+export type StatsScope = 'CONSUMER' | 'BLUEPRINT' | 'APP' | 'PRODUCER';
+
+/**
+ * 各时间粒度的保留时长（秒）；月统计永久保留
+ */
+export const STATS_TTL_SECONDS: Record<StatsGranularity, number | undefined> = {
+  hour: 7 * 24 * 60 * 60,
+  day: 90 * 24 * 60 * 60,
+  month: undefined,
+};
+
+/**
+ * Stats 实体
+ */
+export interface Stats {
+  /** Stats ID，例如 CONSUMER#{accountId}#DAY#2024-01-20 */
+  statsId: string;
+
+  /** Automata 数量 */
+  automataCount: number;
+
+  /** Event 数量 */
+  eventCount: number;
+
+  /** 最后活动时间 */
+  lastActivityAt: string; // ISO8601
+
+  /** 统计更新时间 */
+  updatedAt: string; // ISO8601
+}
+
+/**
+ * DynamoDB Item 结构
+ */
+export interface StatsItem extends Stats {
+  /** PK: STATS#{statsId} */
+  pk: string;
+
+  /** SK: #META */
+  sk: string;
+
+  /** TTL (Unix timestamp)：小时 / 日分桶自动过期 */
+  ttl?: number;
+}
+
+/**
+ * 统计增量
+ */
+export interface StatsDelta {
+  automataCount?: number;
+  eventCount?: number;
+}
+
+/**
+ * 单个 Stats 的递增操作
+ */
+export interface StatsIncrement {
+  statsId: string;
+
+  delta: StatsDelta;
+
+  /** 活动时间 */
+  activityAt: string; // ISO8601
+
+  /** 过期时间（Unix timestamp），仅时间分桶使用 */
+  ttl?: number;
+}
+
+/**
+ * 时间分桶
+ */
+export interface TimeBuckets {
+  /** 2024-01-20T10 */
+  hour: string;
+
+  /** 2024-01-20 */
+  day: string;
+
+  /** 2024-01 */
+  month: string;
+}
+
+/**
+ * 获取时间分桶后缀
+ */
+export function getTimeBuckets(date: Date = new Date()): TimeBuckets {
+  const iso = date.toISOString();
+  return {
+    hour: iso.slice(0, 13),
+    day: iso.slice(0, 10),
+    month: iso.slice(0, 7),
+  };
+}
+
+/**
+ * 构建 Stats ID
+ *
+ * @example
+ * buildStatsId('CONSUMER', 'acc123') // 'CONSUMER#acc123'
+ * buildStatsId('CONSUMER', 'acc123', 'day', '2024-01-20') // 'CONSUMER#acc123#DAY#2024-01-20'
+ */
+export function buildStatsId(
+  scope: StatsScope,
+  id: string,
+  granularity?: StatsGranularity,
+  period?: string
+): string {
+  const base = `${scope}#${id}`;
+  if (!granularity || !period) {
+    return base;
+  }
+  return `${base}#${granularity.toUpperCase()}#${period}`;
+}
@@ -19,6 +19,31 @@ export interface WsConnection {
   ttl: number;
 }
 
+/**
+ * 状态推送方式
+ *
+ * - full: state_update 携带完整 newState
+ * - patch: state_update 携带相对 baseVersion 状态的 JSON Patch
+ */
+export type SubscriptionMode = 'full' | 'patch';
+
+/**
+ * JSON Patch 操作（RFC 6902，推送只使用 add / remove / replace）
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown };
+
+/**
+ * 订阅范围
+ *
+ * - automata: 单个 Automata
+ * - account: 连接所属账户下的所有 Automata
+ * - app: 连接所属账户下属于指定 App 的所有 Automata
+ */
+export type SubscriptionScope = 'automata' | 'account' | 'app';
+
 /**
  * WebSocket 订阅记录
  */
@@ -26,9 +51,24 @@ export interface WsSubscription {
   /** 连接 ID */
   connectionId: string;
 
-  /** 订阅的 Automata ID */
+  /** 订阅范围（旧记录没有该字段，视为 automata） */
+  scope?: SubscriptionScope;
+
+  /** 订阅的 Automata ID（scope 为 account / app 时为空字符串） */
   automataId: string;
 
+  /** 订阅的 App ID（仅 scope 为 app） */
+  appId?: string;
+
+  /** 状态推送方式（缺省为 full） */
+  mode?: SubscriptionMode;
+
+  /** JSONata 过滤表达式，仅在结果为真时推送 state_update */
+  filter?: string;
+
+  /** JSONata 投影表达式，推送投影结果代替完整状态 */
+  projection?: string;
+
   /** 订阅时间 */
   subscribedAt: string;
 
@@ -66,10 +106,33 @@ export interface WsToken {
 
 /**
  * 订阅 Automata
+ *
+ * scope 缺省为 automata，此时 automataId 必填；
+ * scope 为 account 时订阅账户下所有 Automata，为 app 时还需 appId
  */
 export interface SubscribeMessage {
   action: 'subscribe';
-  automataId: string;
+  scope?: SubscriptionScope;
+  automataId?: string;
+  appId?: string;
+  /** 状态推送方式，缺省为 full */
+  mode?: SubscriptionMode;
+  /**
+   * JSONata 过滤表达式，输入为 `{ state, event, eventType }`（state 为新状态，event 为事件数据），
+   * 结果为真时才推送 state_update；生命周期消息不受影响
+   */
+  filter?: string;
+  /**
+   * JSONata 投影表达式，输入同 filter；state_update 和 full 同步只推送投影结果（projected 为 true），
+   * 此时忽略 patch 模式
+   */
+  projection?: string;
+  /**
+   * 客户端本地已有的版本（重连时使用）
+   *
+   * 服务端会按顺序补发之后错过的 state_update，差距过大时退回为全量状态
+   */
+  sinceVersion?: string;
 }
 
 /**
@@ -77,19 +140,28 @@ export interface SubscribeMessage {
  */
 export interface UnsubscribeMessage {
   action: 'unsubscribe';
-  automataId: string;
+  scope?: SubscriptionScope;
+  automataId?: string;
+  appId?: string;
 }
 
 /**
  * 发送 Event (通过 WebSocket)
+ *
+ * 签名按 REST 的 Canonical Request 规则计算，视为请求：
+ * method = `WS`，path = `/automatas/{automataId}/events`，
+ * headers = `x-request-id` / `x-request-timestamp`，body = `JSON.stringify({ eventType, eventData })`
  */
 export interface SendEventMessage {
   action: 'sendEvent';
   automataId: string;
   eventType: string;
   eventData: unknown;
+  /** UUID，用于防重放和关联 eventResult */
   requestId: string;
+  /** ISO 8601 时间戳 */
   timestamp: string;
+  /** 与 X-Signature 头格式相同：Algorithm=..., DeviceId=..., Signature=... */
   signature: string;
 }
 
@@ -122,14 +194,33 @@ export interface ConnectedMessage {
   timestamp: string;
 }
 
+/**
+ * 订阅同步方式
+ *
+ * - full: 消息中携带当前全量状态
+ * - replay: 不携带状态，随后按顺序推送 missedEvents 条 state_update
+ */
+export type SubscriptionSyncMode = 'full' | 'replay';
+
 /**
  * 订阅成功
  */
 export interface SubscribedMessage {
   type: 'subscribed';
-  automataId: string;
-  currentState: unknown;
-  version: string;
+  /** 订阅范围（account / app 订阅不含状态） */
+  scope?: SubscriptionScope;
+  automataId?: string;
+  appId?: string;
+  /** 同步方式（仅 automata 范围；未传 sinceVersion 时为 full） */
+  sync?: SubscriptionSyncMode;
+  /** 当前状态（仅 full；订阅带 projection 时为投影结果） */
+  currentState?: unknown;
+  /** currentState 是否为投影结果 */
+  projected?: boolean;
+  /** 当前版本（仅 automata 范围） */
+  version?: string;
+  /** 随后补发的 state_update 数量（仅 replay） */
+  missedEvents?: number;
   timestamp: string;
 }
 
@@ -138,7 +229,9 @@ export interface SubscribedMessage {
  */
 export interface UnsubscribedMessage {
   type: 'unsubscribed';
-  automataId: string;
+  scope?: SubscriptionScope;
+  automataId?: string;
+  appId?: string;
   timestamp: string;
 }
 
@@ -149,9 +242,39 @@ export interface StateUpdateMessage {
   type: 'state_update';
   automataId: string;
   eventType: string;
+  /** 基准版本，客户端据此检测是否有遗漏 */
   baseVersion: string;
   newVersion: string;
-  newState: unknown;
+  /** 完整新状态（full 模式，以及补发的历史更新） */
+  newState?: unknown;
+  /** 相对 baseVersion 状态的 JSON Patch（patch 模式） */
+  patch?: JsonPatchOperation[];
+  /** newState 是否为订阅 projection 的结果 */
+  projected?: boolean;
+  timestamp: string;
+}
+
+/**
+ * Automata 创建（推送给 account / app 订阅者）
+ */
+export interface AutomataCreatedMessage {
+  type: 'automata_created';
+  automataId: string;
+  appId: string;
+  blueprintId: string;
+  currentState: unknown;
+  version: string;
+  timestamp: string;
+}
+
+/**
+ * Automata 归档（推送给该 Automata 及 account / app 订阅者）
+ */
+export interface AutomataArchivedMessage {
+  type: 'automata_archived';
+  automataId: string;
+  appId: string;
+  version: string;
   timestamp: string;
 }
 
@@ -167,6 +290,12 @@ export interface EventResultMessage {
   newVersion?: string;
   newState?: unknown;
   error?: string;
+  /** 失败时的错误码 */
+  code?: string;
+  /** 版本冲突时的当前版本（与 REST 的 409 响应相同） */
+  currentVersion?: string;
+  /** 版本冲突时的当前状态 */
+  currentState?: unknown;
   timestamp: string;
 }
 
@@ -196,6 +325,8 @@ export type WsDownstreamMessage =
   | SubscribedMessage
   | UnsubscribedMessage
   | StateUpdateMessage
+  | AutomataCreatedMessage
+  | AutomataArchivedMessage
   | EventResultMessage
   | PongMessage
   | ErrorMessage;
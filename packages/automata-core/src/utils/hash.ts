@@ -6,6 +6,7 @@
  */
 
 import murmurhash3 from 'murmurhash3js-revisited';
+import { DEVICE_KEY_ALGORITHMS, type DeviceKeyAlgorithm } from '../types/device';
 import { encodeBase62Buffer } from './base62';
 
 // xxhash-wasm 需要异步初始化
@@ -50,22 +51,44 @@ export function generateAccountIdFromBase64(publicKeyBase64: string): string {
 
 /**
  * 验证公钥格式
- * Ed25519 公钥应该是 32 bytes
+ * - Ed25519 公钥应该是 32 bytes
+ * - ECDSA P-256 公钥应该是 65 bytes 的未压缩点（0x04 || X || Y）
  */
-export function validatePublicKey(publicKey: Uint8Array | Buffer): boolean {
+export function validatePublicKey(
+  publicKey: Uint8Array | Buffer,
+  algorithm: DeviceKeyAlgorithm = 'Ed25519'
+): boolean {
+  if (algorithm === 'ECDSA-P256') {
+    return publicKey.length === 65 && publicKey[0] === 0x04;
+  }
   return publicKey.length === 32;
 }
 
 /**
  * 验证 Base64URL 编码的公钥格式
  */
-export function validateBase64PublicKey(publicKeyBase64: string): boolean {
-  try {
-    const decoded = Buffer.from(publicKeyBase64, 'base64url');
-    return validatePublicKey(decoded);
-  } catch {
+export function validateBase64PublicKey(
+  publicKeyBase64: string,
+  algorithm: DeviceKeyAlgorithm = 'Ed25519'
+): boolean {
+  if (!/^[A-Za-z0-9_-]+$/.test(publicKeyBase64)) {
     return false;
   }
+  return validatePublicKey(Buffer.from(publicKeyBase64, 'base64url'), algorithm);
+}
+
+/**
+ * 根据公钥长度推断密钥算法
+ *
+ * @returns 无法识别时返回 null
+ */
+export function inferKeyAlgorithm(publicKeyBase64: string): DeviceKeyAlgorithm | null {
+  for (const algorithm of DEVICE_KEY_ALGORITHMS) {
+    if (validateBase64PublicKey(publicKeyBase64, algorithm)) {
+      return algorithm;
+    }
+  }
+  return null;
 }
 
 /**
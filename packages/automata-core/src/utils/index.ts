@@ -4,4 +4,6 @@
 
 export * from './base62';
 export * from './hash';
+export * from './json-patch';
+export * from './lru-cache';
 export * from './signature';
@@ -0,0 +1,96 @@
+/**
+ * JSON Patch (RFC 6902) 生成
+ *
+ * 用于 WebSocket 增量推送：只生成 add / remove / replace 操作
+ */
+
+import type { JsonPatchOperation } from '../types/websocket';
+
+/**
+ * 转义 JSON Pointer 的路径片段（RFC 6901）
+ */
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * 是否为普通对象（非数组、非 null）
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 深度比较两个 JSON 值
+ */
+function isJsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isJsonEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return (
+      keysA.length === keysB.length &&
+      keysA.every((key) => Object.hasOwn(b, key) && isJsonEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function diffInto(
+  oldValue: unknown,
+  newValue: unknown,
+  path: string,
+  ops: JsonPatchOperation[]
+): void {
+  if (isJsonEqual(oldValue, newValue)) {
+    return;
+  }
+
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    for (const key of Object.keys(oldValue)) {
+      if (!Object.hasOwn(newValue, key)) {
+        ops.push({ op: 'remove', path: `${path}/${escapePointerToken(key)}` });
+      }
+    }
+    for (const key of Object.keys(newValue)) {
+      const childPath = `${path}/${escapePointerToken(key)}`;
+      if (Object.hasOwn(oldValue, key)) {
+        diffInto(oldValue[key], newValue[key], childPath, ops);
+      } else {
+        ops.push({ op: 'add', path: childPath, value: newValue[key] });
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    const common = Math.min(oldValue.length, newValue.length);
+    for (let i = 0; i < common; i++) {
+      diffInto(oldValue[i], newValue[i], `${path}/${i}`, ops);
+    }
+    // 从尾部删除，保证下标在应用过程中保持有效
+    for (let i = oldValue.length - 1; i >= common; i--) {
+      ops.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    for (let i = common; i < newValue.length; i++) {
+      ops.push({ op: 'add', path: `${path}/${i}`, value: newValue[i] });
+    }
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: newValue });
+}
+
+/**
+ * 生成从 oldValue 到 newValue 的 JSON Patch
+ *
+ * @returns 按顺序应用的操作列表；两者相等时为空数组
+ */
+export function createJsonPatch(oldValue: unknown, newValue: unknown): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  diffInto(oldValue, newValue, '', ops);
+  return ops;
+}
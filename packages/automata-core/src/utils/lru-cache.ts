@@ -0,0 +1,46 @@
+/**
+ * LRU cache utilities
+ *
+ * 进程内缓存（编译后的 Schema / 表达式）的容量上限，避免长生命周期的 Lambda 内存无限增长
+ */
+
+/**
+ * 有容量上限的 LRU 缓存
+ *
+ * 基于 Map 的插入顺序：读取时移到末尾，超出容量时淘汰最早的条目
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>();
+
+  constructor(private readonly maxSize: number) {
+    if (!Number.isInteger(maxSize) || maxSize < 1) {
+      throw new Error(`Invalid LRU cache size: ${maxSize}`);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
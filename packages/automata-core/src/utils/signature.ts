@@ -1,12 +1,33 @@
 /**
- * Ed25519 签名验证工具
+ * 设备签名验证工具（Ed25519 / ECDSA P-256）
  *
  * 用于验证 Blueprint 签名
  */
 
 import * as crypto from 'node:crypto';
+import type { DeviceKeyAlgorithm } from '../types/device';
 import { canonicalize } from './hash';
 
+/**
+ * 按设备密钥算法验证签名
+ *
+ * @param message - 原始消息（对象会被规范化为 JSON）
+ * @param signature - Base64URL 编码的签名
+ * @param publicKey - Base64URL 编码的公钥
+ * @param algorithm - 公钥算法
+ */
+export function verifyDeviceSignature(
+  message: unknown,
+  signature: string,
+  publicKey: string,
+  algorithm: DeviceKeyAlgorithm
+): boolean {
+  if (algorithm === 'ECDSA-P256') {
+    return verifyEcdsaP256Signature(message, signature, publicKey);
+  }
+  return verifyEd25519Signature(message, signature, publicKey);
+}
+
 /**
  * 验证 Ed25519 签名
  *
@@ -47,6 +68,48 @@ export function verifyEd25519Signature(
   }
 }
 
+/**
+ * 验证 ECDSA P-256 签名
+ *
+ * 与 SDK 的 CryptoProvider 约定一致：对规范化 JSON 的 SHA-256 摘要做 ECDSA-SHA256 签名，
+ * 签名为 IEEE P1363 格式（r || s，64 bytes）
+ *
+ * @param message - 原始消息（对象会被规范化为 JSON）
+ * @param signature - Base64URL 编码的签名
+ * @param publicKey - Base64URL 编码的 P-256 未压缩公钥（65 bytes）
+ * @returns 签名是否有效
+ */
+export function verifyEcdsaP256Signature(
+  message: unknown,
+  signature: string,
+  publicKey: string
+): boolean {
+  try {
+    const canonical = typeof message === 'string' ? message : canonicalize(message);
+    const digest = crypto.createHash('sha256').update(canonical).digest();
+
+    const keyObject = crypto.createPublicKey({
+      key: Buffer.concat([
+        // P-256 SPKI header (26 bytes)
+        Buffer.from('3059301306072a8648ce3d020106082a8648ce3d030107034200', 'hex'),
+        Buffer.from(publicKey, 'base64url'),
+      ]),
+      format: 'der',
+      type: 'spki',
+    });
+
+    return crypto.verify(
+      'sha256',
+      digest,
+      { key: keyObject, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    );
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
+
 /**
  * 使用私钥签名消息（用于测试）
  *
@@ -4,7 +4,7 @@
  * Browser implementation of CryptoProvider using IndexedDB for key storage.
  */
 
-import type { CryptoProvider } from '@automabase/automata-client';
+import { type CryptoProvider, hashJsonData } from '@automabase/automata-client';
 
 const DB_NAME = 'automata-crypto';
 const DB_VERSION = 1;
@@ -133,17 +133,6 @@ async function generateKeyPair(): Promise<{
   };
 }
 
-/**
- * Hash JSON data for signing
- */
-async function hashJsonData(data: unknown): Promise<Uint8Array> {
-  const jsonString = JSON.stringify(data);
-  const encoder = new TextEncoder();
-  const dataBytes = encoder.encode(jsonString);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', dataBytes);
-  return new Uint8Array(hashBuffer);
-}
-
 /**
  * Sign data with private key
  */
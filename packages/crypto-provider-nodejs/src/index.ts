@@ -6,7 +6,7 @@
 
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import type { CryptoProvider } from '@automabase/automata-client';
+import { type CryptoProvider, hashJsonData } from '@automabase/automata-client';
 
 // Default key storage directory
 const DEFAULT_KEY_DIR = path.join(process.cwd(), '.automata-keys');
@@ -115,17 +115,6 @@ async function generateKeyPair(): Promise<{
   };
 }
 
-/**
- * Hash JSON data for signing
- */
-async function hashJsonData(data: unknown): Promise<Uint8Array> {
-  const jsonString = JSON.stringify(data);
-  const encoder = new TextEncoder();
-  const dataBytes = encoder.encode(jsonString);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', dataBytes);
-  return new Uint8Array(hashBuffer);
-}
-
 /**
  * Sign data with private key
  */
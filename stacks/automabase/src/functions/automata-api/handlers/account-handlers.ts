@@ -10,15 +10,21 @@ import {
 } from '@automabase/automata-auth';
 import {
   type CreateAccountInput,
+  DEVICE_KEY_ALGORITHMS,
+  type DeviceKeyAlgorithm,
   getAccountById,
   getAccountByOAuth,
+  getConsumerUsage,
+  getConsumerUsageRange,
   getDeviceByPublicKey,
   getOrCreateAccountByOAuth,
+  inferKeyAlgorithm,
   listActiveDevicesByAccountId,
   type OAuthProvider,
   type RegisterDeviceInput,
   registerDevice,
   revokeDevice,
+  StatsQueryError,
   type UpdateAccountInput,
   updateAccount,
   validateBase64PublicKey,
@@ -80,6 +86,48 @@ function error(message: string, statusCode = 400, code?: string): APIGatewayProx
   };
 }
 
+/**
+ * 解析并校验设备公钥算法
+ *
+ * 未指定 keyAlgorithm 时根据公钥长度推断（兼容旧客户端）
+ *
+ * @returns 校验失败时返回错误响应
+ */
+function resolveKeyAlgorithm(
+  publicKey: string,
+  keyAlgorithm: unknown
+): DeviceKeyAlgorithm | APIGatewayProxyResult {
+  if (keyAlgorithm === undefined) {
+    return (
+      inferKeyAlgorithm(publicKey) ??
+      error(
+        'Invalid publicKey format (expected 32-byte Ed25519 or 65-byte ECDSA P-256 key in Base64URL)',
+        400,
+        'INVALID_PUBLIC_KEY'
+      )
+    );
+  }
+
+  const algorithm = keyAlgorithm as DeviceKeyAlgorithm;
+  if (!DEVICE_KEY_ALGORITHMS.includes(algorithm)) {
+    return error(
+      `Unsupported keyAlgorithm (expected one of: ${DEVICE_KEY_ALGORITHMS.join(', ')})`,
+      400,
+      'UNSUPPORTED_KEY_ALGORITHM'
+    );
+  }
+
+  if (!validateBase64PublicKey(publicKey, algorithm)) {
+    const expected =
+      algorithm === 'ECDSA-P256'
+        ? '65-byte uncompressed ECDSA P-256 key in Base64URL'
+        : '32-byte Ed25519 key in Base64URL';
+    return error(`Invalid publicKey format (expected ${expected})`, 400, 'INVALID_PUBLIC_KEY');
+  }
+
+  return algorithm;
+}
+
 /**
  * GET /accounts/me - 获取当前用户
  */
@@ -141,7 +189,7 @@ export async function getCurrentAccount(
 /**
  * POST /accounts - 创建或获取账户（首次注册）
  *
- * Body: { publicKey?: string, deviceName?: string }
+ * Body: { publicKey?: string, keyAlgorithm?: string, deviceName?: string }
  *
  * 如果提供 publicKey 和 deviceName，会同时注册设备
  */
@@ -158,7 +206,7 @@ export async function createOrGetAccount(
 
     // 解析请求体
     const body = JSON.parse(event.body || '{}');
-    const { publicKey, deviceName } = body;
+    const { publicKey, deviceName, keyAlgorithm } = body;
 
     // 确定 OAuth 信息（如果没有外部 IdP，使用 'cognito'）
     const oauthProvider: OAuthProvider =
@@ -179,9 +227,10 @@ export async function createOrGetAccount(
     // 如果提供了 publicKey，同时注册设备
     let device = null;
     if (publicKey) {
-      // 验证公钥格式
-      if (!validateBase64PublicKey(publicKey)) {
-        return error('Invalid publicKey format (expected 32-byte Ed25519 key in Base64URL)', 400);
+      // 验证公钥算法和格式
+      const algorithm = resolveKeyAlgorithm(publicKey, keyAlgorithm);
+      if (typeof algorithm !== 'string') {
+        return algorithm;
       }
 
       // 检查设备是否已注册
@@ -193,6 +242,7 @@ export async function createOrGetAccount(
         const deviceInput: RegisterDeviceInput = {
           accountId: account.accountId,
           publicKey,
+          keyAlgorithm: algorithm,
           deviceName: deviceName || 'Default Device',
         };
         device = await registerDevice(deviceInput);
@@ -345,7 +395,7 @@ export async function listMyDevices(event: APIGatewayProxyEvent): Promise<APIGat
 /**
  * POST /accounts/me/devices - 注册新设备
  *
- * Body: { publicKey: string, deviceName: string, deviceType?: string }
+ * Body: { publicKey: string, keyAlgorithm?: string, deviceName: string, deviceType?: string }
  */
 export async function registerMyDevice(
   event: APIGatewayProxyEvent
@@ -360,7 +410,7 @@ export async function registerMyDevice(
 
     // 解析请求体
     const body = JSON.parse(event.body || '{}');
-    const { publicKey, deviceName, deviceType } = body;
+    const { publicKey, keyAlgorithm, deviceName, deviceType } = body;
 
     if (!publicKey) {
       return error('publicKey is required', 400);
@@ -369,9 +419,10 @@ export async function registerMyDevice(
       return error('deviceName is required', 400);
     }
 
-    // 验证公钥格式
-    if (!validateBase64PublicKey(publicKey)) {
-      return error('Invalid publicKey format (expected 32-byte Ed25519 key in Base64URL)', 400);
+    // 验证公钥算法和格式
+    const algorithm = resolveKeyAlgorithm(publicKey, keyAlgorithm);
+    if (typeof algorithm !== 'string') {
+      return algorithm;
     }
 
     // 获取当前用户的 accountId
@@ -397,6 +448,7 @@ export async function registerMyDevice(
     const input: RegisterDeviceInput = {
       accountId,
       publicKey,
+      keyAlgorithm: algorithm,
       deviceName,
       deviceType,
     };
@@ -453,3 +505,57 @@ export async function revokeMyDevice(event: APIGatewayProxyEvent): Promise<APIGa
     return error('Internal server error', 500);
   }
 }
+
+/**
+ * GET /accounts/me/usage - 查询当前用户的用量（消费者侧）
+ *
+ * Query:
+ *   - 无参数：返回累计用量
+ *   - granularity=hour|day|month&from=...&to=...：返回时间范围内各时间段的用量
+ */
+export async function getMyUsage(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const token = event.headers.Authorization || event.headers.authorization;
+    const authContext = await verifyAndExtractContextWithDevMode(
+      token,
+      getJwtConfig(),
+      getLocalDevConfig()
+    );
+
+    // 获取当前用户的 accountId
+    let accountId = authContext.accountId;
+    if (!accountId) {
+      const oauthProvider: OAuthProvider =
+        (authContext.identityProvider?.name?.toLowerCase() as OAuthProvider) || 'cognito';
+      const oauthSubject = authContext.identityProvider?.userId || authContext.cognitoUserId;
+      const account = await getAccountByOAuth(oauthProvider, oauthSubject);
+      if (!account) {
+        return error('Account not found', 404);
+      }
+      accountId = account.accountId;
+    }
+
+    const { granularity, from, to } = event.queryStringParameters || {};
+    if (!granularity) {
+      return success(await getConsumerUsage(accountId));
+    }
+
+    if (granularity !== 'hour' && granularity !== 'day' && granularity !== 'month') {
+      return error('granularity must be one of hour, day, month', 400, 'INVALID_GRANULARITY');
+    }
+    if (!from || !to) {
+      return error('from and to are required when granularity is set', 400, 'INVALID_RANGE');
+    }
+
+    return success(await getConsumerUsageRange(accountId, granularity, from, to));
+  } catch (err) {
+    if (err instanceof JwtVerificationError) {
+      return error(err.message, 401, err.code);
+    }
+    if (err instanceof StatsQueryError) {
+      return error(err.message, 400, err.code);
+    }
+    console.error('Error getting usage:', err);
+    return error('Internal server error', 500);
+  }
+}
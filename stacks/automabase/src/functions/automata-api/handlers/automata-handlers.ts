@@ -10,13 +10,31 @@ import {
 } from '@automabase/automata-auth';
 import {
   type BlueprintContent,
+  type BlueprintMigration,
+  type BlueprintReference,
   BlueprintValidationError,
-  createAutomata,
+  createLifecycleJob,
+  createStateUpdateJob,
+  enqueueBroadcast,
+  generateEventId,
   getAccountByOAuth,
   getAutomataById,
+  getAutomataStateAtVersion,
   getAutomatasByAccount,
   getBlueprintById,
+  getModeInfo,
+  type InitialEventInput,
+  initializeAutomata,
+  isBlueprintReference,
+  MigrationError,
+  migrateAutomata,
+  recordAutomataCreated,
+  recordEventCreated,
+  resolveBlueprintReference,
+  type SchemaValidationDetails,
+  TransitionError,
   updateAutomata,
+  VersionConflictError,
   validateAndGetBlueprint,
 } from '@automabase/automata-core';
 import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
@@ -65,17 +83,32 @@ function success(data: unknown, statusCode = 200): APIGatewayProxyResult {
 /**
  * 创建错误响应
  */
-function error(message: string, statusCode = 400, code?: string): APIGatewayProxyResult {
+function error(
+  message: string,
+  statusCode = 400,
+  code?: string,
+  extra?: Record<string, unknown>
+): APIGatewayProxyResult {
   return {
     statusCode,
     headers: {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
     },
-    body: JSON.stringify({ error: message, code }),
+    body: JSON.stringify({ error: message, code, ...extra }),
   };
 }
 
+/**
+ * 版本冲突响应：与提交 Event 时的 409 相同，返回当前版本和状态
+ */
+function versionConflict(currentVersion: string, currentState: unknown): APIGatewayProxyResult {
+  return error('Version conflict. Please retry with latest version.', 409, 'VERSION_CONFLICT', {
+    currentVersion,
+    currentState,
+  });
+}
+
 /**
  * 验证 JWT 并检查用户是否有权访问指定的 accountId
  *
@@ -130,10 +163,14 @@ function getAccountIdFromPath(event: APIGatewayProxyEvent): string | null {
 /**
  * POST /accounts/{accountId}/automatas - 创建 Automata
  *
- * Body: {
- *   blueprint: BlueprintContent,
+ * Body（三选一指定 Blueprint）: {
+ *   blueprint?: BlueprintContent,                         // 完整内容，首次使用时存储
  *   blueprintSignature?: string,
- *   initialEvent?: { eventType: string, eventData: unknown }
+ *   blueprint?: { appId, name, version: 'latest' | hash }, // 引用已存储的 Blueprint
+ *   blueprintId?: string,                                  // 已存储的 Blueprint ID
+ *   params?: unknown,                                      // Blueprint 参数，须符合 params.schema
+ *   initialState?: unknown,                                // 自定义初始状态，须符合 state.schema
+ *   initialEvent?: { eventType: string, eventData: unknown } // 作为 000000 → 000001 与创建原子提交
  * }
  */
 export async function createAutomataHandler(
@@ -150,37 +187,77 @@ export async function createAutomataHandler(
 
     // 解析请求体
     const body = JSON.parse(event.body || '{}');
-    const { blueprint, blueprintSignature } = body as {
-      blueprint: BlueprintContent;
-      blueprintSignature?: string;
-    };
-
-    if (!blueprint) {
-      return error('blueprint is required', 400);
+    const { blueprint, blueprintSignature, blueprintId, params, initialState, initialEvent } =
+      body as {
+        blueprint?: BlueprintContent | BlueprintReference;
+        blueprintSignature?: string;
+        blueprintId?: string;
+        params?: unknown;
+        initialState?: unknown;
+        initialEvent?: InitialEventInput;
+      };
+
+    if (initialEvent !== undefined && typeof initialEvent?.eventType !== 'string') {
+      return error('initialEvent.eventType is required', 400);
     }
 
-    if (!blueprint.appId || !blueprint.name) {
-      return error('blueprint.appId and blueprint.name are required', 400);
+    // 获取 Blueprint：按 ID 或引用获取已存储的，否则验证并获取/创建
+    let stored: (BlueprintContent & { blueprintId: string }) | null;
+    if (blueprintId) {
+      stored = await getBlueprintById(blueprintId);
+      if (!stored) {
+        return error(`Blueprint not found: ${blueprintId}`, 400, 'BLUEPRINT_NOT_FOUND');
+      }
+    } else if (isBlueprintReference(blueprint)) {
+      stored = await resolveBlueprintReference(blueprint);
+    } else {
+      if (!blueprint) {
+        return error('blueprint or blueprintId is required', 400);
+      }
+
+      if (!blueprint.appId || !blueprint.name) {
+        return error('blueprint.appId and blueprint.name are required', 400);
+      }
+
+      stored = {
+        ...blueprint,
+        blueprintId: await validateAndGetBlueprint(
+          blueprint,
+          blueprintSignature || null,
+          accountId
+        ),
+      };
     }
 
-    // 验证并获取/创建 Blueprint
-    const blueprintId = await validateAndGetBlueprint(
-      blueprint,
-      blueprintSignature || null,
-      accountId
-    );
-
-    // 创建 Automata
-    const automata = await createAutomata({
+    // 创建 Automata（初始状态校验、初始事件与创建在同一事务中完成）
+    const automata = await initializeAutomata({
       ownerAccountId: accountId,
-      blueprintId,
-      initialState: blueprint.state.initial,
+      blueprint: stored,
+      params,
+      initialState,
+      initialEvent,
+    });
+
+    // 更新用量统计（失败不影响创建结果）
+    await recordAutomataCreated(automata).catch((err) => {
+      console.error('[Stats] Failed to record automata creation:', err);
+    });
+    if (initialEvent) {
+      await recordEventCreated(automata).catch((err) => {
+        console.error('[Stats] Failed to record event:', err);
+      });
+    }
+
+    // 通知 account / app 范围的 WebSocket 订阅者（入队失败不影响创建结果）
+    await enqueueBroadcast(createLifecycleJob('automata_created', automata)).catch((err) => {
+      console.error('[WS] Failed to enqueue broadcast:', err);
     });
 
     return success(
       {
         automataId: automata.automataId,
         blueprintId: automata.blueprintId,
+        params: automata.params,
         currentState: automata.currentState,
         version: automata.version,
         createdAt: automata.createdAt,
@@ -194,6 +271,19 @@ export async function createAutomataHandler(
     if (err instanceof BlueprintValidationError) {
       return error(err.message, 400, err.code);
     }
+    if (err instanceof TransitionError) {
+      // 参数、初始状态或初始事件 Schema 校验失败时返回出错的 JSON Pointer 路径
+      if (
+        err.code === 'INVALID_PARAMS' ||
+        err.code === 'INVALID_INITIAL_STATE' ||
+        err.code === 'INVALID_EVENT_DATA' ||
+        err.code === 'INVALID_RESULT_STATE'
+      ) {
+        const { errors } = err.details as SchemaValidationDetails;
+        return error(err.message, 400, err.code, { errors });
+      }
+      return error(err.message, 400, err.code);
+    }
     console.error('Error creating automata:', err);
     return error('Internal server error', 500);
   }
@@ -275,12 +365,23 @@ export async function getAutomataHandler(
     // 获取 Blueprint 详情
     const blueprint = await getBlueprintById(automata.blueprintId);
 
+    // 当前模式及可发送的事件（归档后不接受事件）
+    const modeInfo = blueprint
+      ? await getModeInfo(blueprint, automata.currentState).catch((err) => {
+          console.error('[Automata] Failed to resolve mode:', err);
+          return { currentMode: null, allowedEvents: [] };
+        })
+      : { currentMode: null, allowedEvents: [] };
+
     return success({
       automataId: automata.automataId,
       ownerAccountId: automata.ownerAccountId,
       blueprintId: automata.blueprintId,
       blueprint: blueprint || null,
+      params: automata.params,
       currentState: automata.currentState,
+      currentMode: modeInfo.currentMode,
+      allowedEvents: automata.status === 'active' ? modeInfo.allowedEvents : [],
       version: automata.version,
       status: automata.status,
       createdAt: automata.createdAt,
@@ -297,6 +398,8 @@ export async function getAutomataHandler(
 
 /**
  * GET /accounts/{accountId}/automatas/{automataId}/state - 获取 Automata 当前状态
+ *
+ * Query: version? - 指定版本号时返回该版本的历史状态（Snapshot + Event 重放）
  */
 export async function getAutomataStateHandler(
   event: APIGatewayProxyEvent
@@ -325,6 +428,26 @@ export async function getAutomataStateHandler(
       return error('Automata does not belong to this account', 404);
     }
 
+    // 历史状态查询
+    const version = event.queryStringParameters?.version;
+    if (version !== undefined) {
+      if (!/^[0-9A-Za-z]{6}$/.test(version)) {
+        return error('version must be a 6-character Base62 string', 400, 'INVALID_VERSION');
+      }
+
+      const historical = await getAutomataStateAtVersion(automata, version);
+      if (!historical) {
+        return error('Version not found', 404, 'VERSION_NOT_FOUND');
+      }
+
+      return success({
+        automataId: historical.automataId,
+        version: historical.version,
+        state: historical.state,
+        currentVersion: automata.version,
+      });
+    }
+
     return success({
       automataId: automata.automataId,
       currentState: automata.currentState,
@@ -377,6 +500,13 @@ export async function archiveAutomataHandler(
 
     const updated = await updateAutomata(automataId, { status: 'archived' });
 
+    // 通知该 Automata 及 account / app 范围的 WebSocket 订阅者（入队失败不影响归档结果）
+    if (updated) {
+      await enqueueBroadcast(createLifecycleJob('automata_archived', updated)).catch((err) => {
+        console.error('[WS] Failed to enqueue broadcast:', err);
+      });
+    }
+
     return success({
       automataId: updated?.automataId,
       status: updated?.status,
@@ -440,3 +570,126 @@ export async function unarchiveAutomataHandler(
     return error('Internal server error', 500);
   }
 }
+
+/**
+ * POST /accounts/{accountId}/automatas/{automataId}/migrate - 迁移 Automata 到新的 Blueprint
+ *
+ * Body: {
+ *   migration: { appId, name, fromHash, toHash, transform },
+ *   migrationSignature: string,
+ *   blueprint?: BlueprintContent,      // 目标 Blueprint 尚未存储时一并提交
+ *   blueprintSignature?: string
+ * }
+ */
+export async function migrateAutomataHandler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const accountId = getAccountIdFromPath(event);
+    if (!accountId) {
+      return error('accountId is required in path', 400);
+    }
+
+    const authResult = await verifyAccessToAccount(event, accountId);
+    if ('statusCode' in authResult) return authResult;
+
+    const automataId = event.pathParameters?.automataId;
+    if (!automataId) {
+      return error('automataId is required', 400);
+    }
+
+    const automata = await getAutomataById(automataId);
+    if (!automata) {
+      return error('Automata not found', 404);
+    }
+
+    // 检查 automata 是否属于该 account
+    if (automata.ownerAccountId !== accountId) {
+      return error('Automata does not belong to this account', 404);
+    }
+
+    // 解析请求体
+    const body = JSON.parse(event.body || '{}');
+    const { migration, migrationSignature, blueprint, blueprintSignature } = body as {
+      migration: BlueprintMigration;
+      migrationSignature?: string;
+      blueprint?: BlueprintContent;
+      blueprintSignature?: string;
+    };
+
+    if (!migration) {
+      return error('migration is required', 400);
+    }
+
+    if (!migrationSignature) {
+      return error('migrationSignature is required', 400, 'SIGNATURE_REQUIRED');
+    }
+
+    // 随请求提交的目标 Blueprint 先存储，且必须就是迁移的目标
+    if (blueprint) {
+      const blueprintId = await validateAndGetBlueprint(
+        blueprint,
+        blueprintSignature || null,
+        accountId
+      );
+      if (blueprintId !== `${migration.appId}:${migration.name}:${migration.toHash}`) {
+        return error('blueprint is not the migration target', 400, 'BLUEPRINT_MISMATCH');
+      }
+    }
+
+    const baseVersion = automata.version;
+    const result = await migrateAutomata({
+      automata,
+      migration,
+      signature: migrationSignature,
+      senderAccountId: accountId,
+    });
+
+    // 广播任务入队，由 broadcast-worker 推送给 WebSocket 订阅者（失败不影响迁移结果）
+    await enqueueBroadcast(
+      createStateUpdateJob(
+        automata,
+        result.event.eventType,
+        result.event.eventData,
+        baseVersion,
+        result.newVersion,
+        result.newState
+      )
+    ).catch((err) => {
+      console.error('[WS] Failed to enqueue broadcast:', err);
+    });
+
+    return success({
+      eventId: generateEventId(automataId, baseVersion),
+      blueprintId: result.blueprintId,
+      baseVersion,
+      newVersion: result.newVersion,
+      newState: result.newState,
+      timestamp: result.event.timestamp,
+    });
+  } catch (err) {
+    if (err instanceof JwtVerificationError) {
+      return error(err.message, 401, err.code);
+    }
+    if (err instanceof MigrationError || err instanceof BlueprintValidationError) {
+      return error(err.message, 400, err.code);
+    }
+    if (err instanceof TransitionError) {
+      // 迁移结果或参数不符合目标 Schema 时返回出错的 JSON Pointer 路径
+      if (err.code === 'INVALID_RESULT_STATE' || err.code === 'INVALID_PARAMS') {
+        const { errors } = err.details as SchemaValidationDetails;
+        return error(err.message, 400, err.code, { errors });
+      }
+      return error(err.message, 400, err.code);
+    }
+    if (err instanceof VersionConflictError) {
+      const latest = await getAutomataById(err.automataId).catch(() => null);
+      if (latest) {
+        return versionConflict(latest.version, latest.currentState);
+      }
+      return error('Version conflict. Please retry with latest version.', 409, err.code);
+    }
+    console.error('Error migrating automata:', err);
+    return error('Internal server error', 500);
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * Blueprint API Handlers
+ */
+
+import {
+  type AuthContext,
+  JwtVerificationError,
+  type JwtVerifierConfig,
+  type LocalDevConfig,
+  verifyAndExtractContextWithDevMode,
+} from '@automabase/automata-auth';
+import {
+  type BlueprintContent,
+  BlueprintValidationError,
+  compareBlueprints,
+  getAccountByOAuth,
+  getLatestBlueprintPointer,
+  lintBlueprint,
+  MAX_COMPARE_SAMPLES,
+  MAX_SIMULATION_STEPS,
+  type OAuthProvider,
+  type SimulationEventInput,
+  setLatestBlueprint,
+  simulateEvents,
+} from '@automabase/automata-core';
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+/**
+ * 获取 JWT 验证配置
+ */
+function getJwtConfig(): JwtVerifierConfig {
+  return {
+    userPoolId: process.env.COGNITO_USER_POOL_ID || '',
+    region: process.env.AWS_REGION || 'ap-northeast-1',
+    clientId: process.env.COGNITO_CLIENT_ID,
+  };
+}
+
+/**
+ * 获取本地 JWT 配置
+ */
+function getLocalDevConfig(): LocalDevConfig {
+  const localPublicKey = process.env.LOCAL_JWT_PUBLIC_KEY;
+
+  return {
+    enabled: !!localPublicKey,
+    localPublicKey,
+    localIssuer: process.env.LOCAL_JWT_ISSUER || 'local-dev',
+  };
+}
+
+/**
+ * 创建成功响应
+ */
+function success(data: unknown, statusCode = 200): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(data),
+  };
+}
+
+/**
+ * 创建错误响应
+ */
+function error(message: string, statusCode = 400, code?: string): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify({ error: message, code }),
+  };
+}
+
+/**
+ * 验证 JWT（Blueprint 工具接口不涉及具体 account，只要求已登录）
+ */
+async function verifyToken(event: APIGatewayProxyEvent): Promise<AuthContext> {
+  const token = event.headers.Authorization || event.headers.authorization;
+  return verifyAndExtractContextWithDevMode(token, getJwtConfig(), getLocalDevConfig());
+}
+
+/**
+ * POST /v1/blueprints/validate - 检查 Blueprint（不存储）
+ *
+ * Body: { blueprint: BlueprintContent }
+ *
+ * 与创建 Automata 时存储新 Blueprint 前的检查相同；
+ * 返回计算出的 blueprintId / hash，便于开发者对完全相同的内容签名
+ */
+export async function validateBlueprintHandler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    await verifyToken(event);
+
+    const body = JSON.parse(event.body || '{}');
+    const { blueprint } = body as { blueprint?: unknown };
+    if (blueprint === undefined) {
+      return error('blueprint is required', 400);
+    }
+
+    return success(await lintBlueprint(blueprint));
+  } catch (err) {
+    if (err instanceof JwtVerificationError) {
+      return error(err.message, 401, err.code);
+    }
+    console.error('Error validating blueprint:', err);
+    return error('Internal server error', 500);
+  }
+}
+
+/**
+ * 检查待模拟的事件列表
+ *
+ * @returns 错误信息；有效时返回 null
+ */
+function validateSimulationEvents(events: unknown): string | null {
+  if (!Array.isArray(events)) {
+    return 'events must be an array';
+  }
+  if (events.length > MAX_SIMULATION_STEPS) {
+    return `events exceeds ${MAX_SIMULATION_STEPS} items`;
+  }
+  const invalid = events.findIndex(
+    (item) =>
+      !item ||
+      typeof item !== 'object' ||
+      typeof item.eventType !== 'string' ||
+      (item.timestamp !== undefined && Number.isNaN(Date.parse(item.timestamp)))
+  );
+  if (invalid >= 0) {
+    return `events[${invalid}] requires an eventType and an optional ISO 8601 timestamp`;
+  }
+  return null;
+}
+
+/**
+ * POST /v1/blueprints/simulate - 试运行事件序列（不持久化）
+ *
+ * Body: {
+ *   blueprint: BlueprintContent,
+ *   params?: unknown,
+ *   initialState?: unknown,
+ *   events: Array<{ eventType: string, eventData?: unknown, timestamp?: string }>,
+ *   senderAccountId?: string
+ * }
+ *
+ * 每一步都经过 processEvent，返回各步的状态和被拒绝事件的错误
+ */
+export async function simulateBlueprintHandler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const authContext = await verifyToken(event);
+
+    const body = JSON.parse(event.body || '{}');
+    const { blueprint, params, initialState, events, senderAccountId } = body as {
+      blueprint?: BlueprintContent;
+      params?: unknown;
+      initialState?: unknown;
+      events?: SimulationEventInput[];
+      senderAccountId?: string;
+    };
+    if (blueprint === undefined) {
+      return error('blueprint is required', 400);
+    }
+    const invalidEvents = validateSimulationEvents(events);
+    if (invalidEvents) {
+      return error(invalidEvents, 400, 'INVALID_EVENTS');
+    }
+
+    const result = await simulateEvents(blueprint, events as SimulationEventInput[], {
+      params,
+      initialState,
+      senderAccountId: senderAccountId ?? authContext.accountId,
+    });
+    return success(result);
+  } catch (err) {
+    if (err instanceof JwtVerificationError) {
+      return error(err.message, 401, err.code);
+    }
+    console.error('Error simulating blueprint:', err);
+    return error('Internal server error', 500);
+  }
+}
+
+/**
+ * POST /v1/blueprints/compare - 比较两个版本的 Blueprint
+ *
+ * Body: { from: BlueprintContent, to: BlueprintContent, samples?: unknown[] }
+ *
+ * 返回事件类型和 Schema 的变更、样本状态的校验结果，
+ * 以及兼容性分类（compatible / requires-migration / breaking）
+ */
+export async function compareBlueprintsHandler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    await verifyToken(event);
+
+    const body = JSON.parse(event.body || '{}');
+    const { from, to, samples = [] } = body as { from?: unknown; to?: unknown; samples?: unknown };
+    if (from === undefined || to === undefined) {
+      return error('from and to are required', 400);
+    }
+    if (!Array.isArray(samples) || samples.length > MAX_COMPARE_SAMPLES) {
+      return error(
+        `samples must be an array of at most ${MAX_COMPARE_SAMPLES} states`,
+        400,
+        'INVALID_SAMPLES'
+      );
+    }
+
+    return success(await compareBlueprints(from, to, samples));
+  } catch (err) {
+    if (err instanceof JwtVerificationError) {
+      return error(err.message, 401, err.code);
+    }
+    console.error('Error comparing blueprints:', err);
+    return error('Internal server error', 500);
+  }
+}
+
+/**
+ * GET /v1/blueprints/{appId}/{name}/latest - 获取 latest 指针
+ */
+export async function getLatestBlueprintHandler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    await verifyToken(event);
+
+    const appId = event.pathParameters?.appId;
+    const name = event.pathParameters?.name;
+    if (!appId || !name) {
+      return error('appId and name are required', 400);
+    }
+
+    const pointer = await getLatestBlueprintPointer(appId, name);
+    if (!pointer) {
+      return error('Latest blueprint not set', 404, 'BLUEPRINT_NOT_FOUND');
+    }
+
+    return success(pointer);
+  } catch (err) {
+    if (err instanceof JwtVerificationError) {
+      return error(err.message, 401, err.code);
+    }
+    console.error('Error getting latest blueprint:', err);
+    return error('Internal server error', 500);
+  }
+}
+
+/**
+ * PUT /v1/blueprints/{appId}/{name}/latest - 移动 latest 指针
+ *
+ * Body: {
+ *   blueprintId: string,
+ *   previousBlueprintId: string | null,
+ *   revision: number,    // 当前修订号 + 1（首次设置为 1）
+ *   signature: string    // App owner 设备对 { appId, name, blueprintId, previousBlueprintId, revision } 的签名
+ * }
+ */
+export async function setLatestBlueprintHandler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const authContext = await verifyToken(event);
+
+    const appId = event.pathParameters?.appId;
+    const name = event.pathParameters?.name;
+    if (!appId || !name) {
+      return error('appId and name are required', 400);
+    }
+
+    const body = JSON.parse(event.body || '{}');
+    const {
+      blueprintId,
+      previousBlueprintId = null,
+      revision,
+      signature,
+    } = body as {
+      blueprintId?: string;
+      previousBlueprintId?: string | null;
+      revision?: number;
+      signature?: string;
+    };
+    if (!blueprintId) {
+      return error('blueprintId is required', 400);
+    }
+    if (typeof revision !== 'number') {
+      return error('revision is required', 400, 'INVALID_LATEST_UPDATE');
+    }
+    if (!signature) {
+      return error('signature is required', 400, 'SIGNATURE_REQUIRED');
+    }
+
+    // 获取当前用户的 accountId
+    let accountId = authContext.accountId;
+    if (!accountId) {
+      const oauthProvider: OAuthProvider =
+        (authContext.identityProvider?.name?.toLowerCase() as OAuthProvider) || 'cognito';
+      const oauthSubject = authContext.identityProvider?.userId || authContext.cognitoUserId;
+      const account = await getAccountByOAuth(oauthProvider, oauthSubject);
+      if (!account) {
+        return error('Account not found', 404);
+      }
+      accountId = account.accountId;
+    }
+
+    const pointer = await setLatestBlueprint(
+      { appId, name, blueprintId, previousBlueprintId, revision },
+      signature,
+      accountId
+    );
+    return success(pointer);
+  } catch (err) {
+    if (err instanceof JwtVerificationError) {
+      return error(err.message, 401, err.code);
+    }
+    if (err instanceof BlueprintValidationError) {
+      return error(err.message, err.code === 'LATEST_CONFLICT' ? 409 : 400, err.code);
+    }
+    console.error('Error setting latest blueprint:', err);
+    return error('Internal server error', 500);
+  }
+}
@@ -9,30 +9,25 @@ import {
   verifyAndExtractContextWithDevMode,
 } from '@automabase/automata-auth';
 import {
-  broadcastStateUpdate,
-  createEvent,
+  commitEvent,
+  createStateUpdateJob,
+  enqueueBroadcast,
   generateEventId,
   getAccountByOAuth,
   getAutomataById,
   getBlueprintById,
   getEvent,
-  incrementVersion,
   processEvent,
   type QueryEventsInput,
   queryEvents,
-  shouldBroadcast,
+  recordEventCreated,
+  type SchemaValidationDetails,
   TransitionError,
-  updateAutomata,
+  type TransitionMeta,
+  VersionConflictError,
 } from '@automabase/automata-core';
 import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 
-/**
- * 获取 WebSocket API endpoint
- */
-function getWsEndpoint(): string | undefined {
-  return process.env.WEBSOCKET_API_ENDPOINT;
-}
-
 /**
  * 获取 JWT 验证配置
  */
@@ -77,17 +72,55 @@ function success(data: unknown, statusCode = 200): APIGatewayProxyResult {
 /**
  * 创建错误响应
  */
-function error(message: string, statusCode = 400, code?: string): APIGatewayProxyResult {
+function error(
+  message: string,
+  statusCode = 400,
+  code?: string,
+  extra?: Record<string, unknown>
+): APIGatewayProxyResult {
   return {
     statusCode,
     headers: {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
     },
-    body: JSON.stringify({ error: message, code }),
+    body: JSON.stringify({ error: message, code, ...extra }),
   };
 }
 
+/**
+ * 版本冲突响应：返回当前版本和状态，便于客户端基于最新状态重试
+ */
+function versionConflict(currentVersion: string, currentState: unknown): APIGatewayProxyResult {
+  return error('Version conflict. Please retry with latest version.', 409, 'VERSION_CONFLICT', {
+    currentVersion,
+    currentState,
+  });
+}
+
+/**
+ * 获取客户端期望的版本号
+ *
+ * 优先使用 body.expectedVersion，其次使用 If-Match 请求头（允许 ETag 形式的引号和 W/ 前缀）
+ */
+function getExpectedVersion(
+  event: APIGatewayProxyEvent,
+  bodyExpectedVersion: unknown
+): string | undefined {
+  if (typeof bodyExpectedVersion === 'string' && bodyExpectedVersion) {
+    return bodyExpectedVersion;
+  }
+
+  const ifMatch = event.headers?.['If-Match'] || event.headers?.['if-match'];
+  if (!ifMatch || ifMatch.trim() === '*') {
+    return undefined;
+  }
+  return ifMatch
+    .trim()
+    .replace(/^W\//, '')
+    .replace(/^"(.*)"$/, '$1');
+}
+
 /**
  * 验证 JWT 并检查用户是否有权访问指定的 accountId
  *
@@ -142,7 +175,8 @@ function getAccountIdFromPath(event: APIGatewayProxyEvent): string | null {
  *
  * Body: {
  *   eventType: string,
- *   eventData: unknown
+ *   eventData: unknown,
+ *   expectedVersion?: string  // 也可通过 If-Match 请求头传递
  * }
  */
 export async function sendEventHandler(
@@ -180,57 +214,67 @@ export async function sendEventHandler(
 
     // 解析请求体
     const body = JSON.parse(event.body || '{}');
-    const { eventType, eventData } = body as {
+    const { eventType, eventData, expectedVersion } = body as {
       eventType: string;
       eventData: unknown;
+      expectedVersion?: unknown;
     };
 
     if (!eventType) {
       return error('eventType is required', 400);
     }
 
+    // 客户端乐观并发控制：期望版本与当前版本不一致时直接拒绝
+    const clientVersion = getExpectedVersion(event, expectedVersion);
+    if (clientVersion !== undefined && clientVersion !== automata.version) {
+      return versionConflict(automata.version, automata.currentState);
+    }
+
     // 获取 Blueprint
     const blueprint = await getBlueprintById(automata.blueprintId);
     if (!blueprint) {
       return error('Blueprint not found', 500, 'BLUEPRINT_NOT_FOUND');
     }
 
-    // 执行状态转换
-    const newState = await processEvent(blueprint, automata.currentState, eventType, eventData);
-
-    // 计算新版本号
+    // 执行状态转换（转换上下文与 Event 记录使用同一时间戳，保证可重放）
     const baseVersion = automata.version;
-    const newVersion = incrementVersion(baseVersion);
-
-    // 创建 Event 记录
-    const eventRecord = await createEvent(
-      {
-        automataId,
-        eventType,
-        eventData,
-        senderAccountId: accountId,
-      },
-      baseVersion
+    const meta: TransitionMeta = {
+      automataId,
+      baseVersion,
+      senderAccountId: accountId,
+      timestamp: new Date().toISOString(),
+      params: automata.params,
+    };
+    const newState = await processEvent(
+      blueprint,
+      automata.currentState,
+      eventType,
+      eventData,
+      meta
     );
 
-    // 更新 Automata 状态
-    await updateAutomata(automataId, {
-      currentState: newState,
-      version: newVersion,
+    // 原子提交 Event 并推进版本
+    const { event: eventRecord, newVersion } = await commitEvent({
+      automataId,
+      eventType,
+      eventData,
+      senderAccountId: accountId,
+      baseVersion,
+      newState,
+      timestamp: meta.timestamp,
     });
 
-    // 广播状态更新到 WebSocket 订阅者 (异步，不阻塞响应)
-    const wsEndpoint = getWsEndpoint();
-    console.log('[DEBUG] wsEndpoint:', wsEndpoint, 'shouldBroadcast:', shouldBroadcast(wsEndpoint));
-    if (shouldBroadcast(wsEndpoint)) {
-      // 使用 Promise 不等待，让广播异步执行
-      console.log('[DEBUG] Broadcasting state update to', automataId);
-      broadcastStateUpdate(automataId, eventType, baseVersion, newVersion, newState, {
-        wsEndpoint,
-      }).catch((err) => {
-        console.error('[WS] Broadcast error:', err);
-      });
-    }
+    // 更新用量统计（失败不影响事件提交结果）
+    await recordEventCreated(automata).catch((err) => {
+      console.error('[Stats] Failed to record event:', err);
+    });
+
+    // 广播任务入队，由 broadcast-worker 推送给 WebSocket 订阅者（失败不影响事件提交结果）
+    await enqueueBroadcast(
+      createStateUpdateJob(automata, eventType, eventData, baseVersion, newVersion, newState)
+    ).catch((err) => {
+      console.error('[WS] Failed to enqueue broadcast:', err);
+    });
 
     return success({
       eventId: generateEventId(automataId, baseVersion),
@@ -244,11 +288,20 @@ export async function sendEventHandler(
       return error(err.message, 401, err.code);
     }
     if (err instanceof TransitionError) {
+      // Schema 校验失败时返回出错的 JSON Pointer 路径
+      if (err.code === 'INVALID_EVENT_DATA' || err.code === 'INVALID_RESULT_STATE') {
+        const { errors } = err.details as SchemaValidationDetails;
+        return error(err.message, 400, err.code, { errors });
+      }
       return error(err.message, 400, err.code);
     }
     // 处理乐观锁冲突
-    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
-      return error('Version conflict. Please retry with latest version.', 409, 'VERSION_CONFLICT');
+    if (err instanceof VersionConflictError) {
+      const latest = await getAutomataById(err.automataId).catch(() => null);
+      if (latest) {
+        return versionConflict(latest.version, latest.currentState);
+      }
+      return error('Version conflict. Please retry with latest version.', 409, err.code);
     }
     console.error('Error sending event:', err);
     return error('Internal server error', 500);
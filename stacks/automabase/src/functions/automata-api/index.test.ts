@@ -101,4 +101,17 @@ describe('handler', () => {
     expect(result.statusCode).toBe(401);
     expect(JSON.parse(result.body).error).toContain('Authorization');
   });
+
+  it('should reject unauthenticated write requests before reaching handlers', async () => {
+    const event = createEvent({
+      httpMethod: 'POST',
+      path: '/v1/accounts/acc-1/automatas',
+      body: JSON.stringify({ blueprint: {} }),
+    });
+
+    const result = await handler(event, mockContext);
+
+    expect(result.statusCode).toBe(401);
+    expect(JSON.parse(result.body).code).toBe('MISSING_AUTH_HEADER');
+  });
 });
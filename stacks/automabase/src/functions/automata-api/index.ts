@@ -3,6 +3,7 @@ import {
   createOrGetAccount,
   getAccount,
   getCurrentAccount,
+  getMyUsage,
   listMyDevices,
   registerMyDevice,
   revokeMyDevice,
@@ -14,10 +15,19 @@ import {
   getAutomataHandler,
   getAutomataStateHandler,
   listAutomatasHandler,
+  migrateAutomataHandler,
   unarchiveAutomataHandler,
 } from './handlers/automata-handlers';
+import {
+  compareBlueprintsHandler,
+  getLatestBlueprintHandler,
+  setLatestBlueprintHandler,
+  simulateBlueprintHandler,
+  validateBlueprintHandler,
+} from './handlers/blueprint-handlers';
 import { getEventHandler, listEventsHandler, sendEventHandler } from './handlers/event-handlers';
 import { getWsTokenHandler } from './handlers/ws-token-handler';
+import { verifyWriteRequest } from './services/request-security';
 
 /**
  * 路由定义
@@ -28,24 +38,48 @@ interface Route {
   method: string;
   pathPattern: RegExp;
   handler: RouteHandler;
+
+  /**
+   * 写操作免签名（仅防重放）：请求发出时设备尚未注册，无法签名；
+   * 或为不修改任何数据的 POST 查询（检查 / 试运行 / 对比 Blueprint）
+   */
+  skipSignature?: boolean;
 }
 
+/**
+ * 需要签名和防重放验证的 HTTP 方法
+ */
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
 const routes: Route[] = [
   // Account API
   { method: 'GET', pathPattern: /^\/v1\/accounts\/me$/, handler: getCurrentAccount },
-  { method: 'POST', pathPattern: /^\/v1\/accounts$/, handler: createOrGetAccount },
+  {
+    method: 'POST',
+    pathPattern: /^\/v1\/accounts$/,
+    handler: createOrGetAccount,
+    skipSignature: true,
+  },
   { method: 'PATCH', pathPattern: /^\/v1\/accounts\/me$/, handler: updateCurrentAccount },
   { method: 'GET', pathPattern: /^\/v1\/accounts\/(?<accountId>[^/]+)$/, handler: getAccount },
 
   // Device API
   { method: 'GET', pathPattern: /^\/v1\/accounts\/me\/devices$/, handler: listMyDevices },
-  { method: 'POST', pathPattern: /^\/v1\/accounts\/me\/devices$/, handler: registerMyDevice },
+  {
+    method: 'POST',
+    pathPattern: /^\/v1\/accounts\/me\/devices$/,
+    handler: registerMyDevice,
+    skipSignature: true,
+  },
   {
     method: 'DELETE',
     pathPattern: /^\/v1\/accounts\/me\/devices\/(?<deviceId>[^/]+)$/,
     handler: revokeMyDevice,
   },
 
+  // Usage API
+  { method: 'GET', pathPattern: /^\/v1\/accounts\/me\/usage$/, handler: getMyUsage },
+
   // WebSocket Token API
   { method: 'POST', pathPattern: /^\/v1\/ws\/token$/, handler: getWsTokenHandler },
 
@@ -81,6 +115,41 @@ const routes: Route[] = [
       /^\/v1\/accounts\/(?<accountId>[^/]+)\/automatas\/(?<automataId>[^/]+)\/unarchive$/,
     handler: unarchiveAutomataHandler,
   },
+  {
+    method: 'POST',
+    pathPattern: /^\/v1\/accounts\/(?<accountId>[^/]+)\/automatas\/(?<automataId>[^/]+)\/migrate$/,
+    handler: migrateAutomataHandler,
+  },
+
+  // Blueprint API
+  {
+    method: 'POST',
+    pathPattern: /^\/v1\/blueprints\/validate$/,
+    handler: validateBlueprintHandler,
+    skipSignature: true,
+  },
+  {
+    method: 'POST',
+    pathPattern: /^\/v1\/blueprints\/simulate$/,
+    handler: simulateBlueprintHandler,
+    skipSignature: true,
+  },
+  {
+    method: 'POST',
+    pathPattern: /^\/v1\/blueprints\/compare$/,
+    handler: compareBlueprintsHandler,
+    skipSignature: true,
+  },
+  {
+    method: 'GET',
+    pathPattern: /^\/v1\/blueprints\/(?<appId>[^/]+)\/(?<name>[^/]+)\/latest$/,
+    handler: getLatestBlueprintHandler,
+  },
+  {
+    method: 'PUT',
+    pathPattern: /^\/v1\/blueprints\/(?<appId>[^/]+)\/(?<name>[^/]+)\/latest$/,
+    handler: setLatestBlueprintHandler,
+  },
 
   // Event API - nested under /accounts/{accountId}/automatas/{automataId}
   {
@@ -107,14 +176,14 @@ const routes: Route[] = [
 function matchRoute(
   method: string,
   path: string
-): { handler: RouteHandler; pathParams: Record<string, string> } | null {
+): { route: Route; pathParams: Record<string, string> } | null {
   for (const route of routes) {
     if (route.method === method) {
       const match = route.pathPattern.exec(path);
       if (match) {
         // 提取命名捕获组作为路径参数
         const pathParams = match.groups || {};
-        return { handler: route.handler, pathParams };
+        return { route, pathParams };
       }
     }
   }
@@ -131,7 +200,7 @@ function handleOptions(): APIGatewayProxyResult {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
       'Access-Control-Allow-Headers':
-        'Content-Type, Authorization, X-Request-Id, X-Request-Timestamp, X-Request-Signature',
+        'Content-Type, Authorization, X-Request-Id, X-Request-Timestamp, X-Signature, If-Match',
       'Access-Control-Max-Age': '86400',
     },
     body: '',
@@ -185,7 +254,17 @@ export const handler = async (
   };
 
   try {
-    return await routeMatch.handler(enrichedEvent);
+    // 写操作：验证请求签名和防重放
+    if (WRITE_METHODS.includes(method)) {
+      const rejected = await verifyWriteRequest(enrichedEvent, {
+        skipSignature: routeMatch.route.skipSignature,
+      });
+      if (rejected) {
+        return rejected;
+      }
+    }
+
+    return await routeMatch.route.handler(enrichedEvent);
   } catch (error) {
     console.error('Unhandled error:', error);
     return {
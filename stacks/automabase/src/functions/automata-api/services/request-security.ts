@@ -0,0 +1,102 @@
+/**
+ * Request Security
+ *
+ * 写操作的请求签名验证和防重放保护
+ */
+
+import {
+  AntiReplayError,
+  type AuthContext,
+  createSecurityConfig,
+  type DevicePublicKey,
+  JwtVerificationError,
+  type SecurityConfig,
+  SignatureVerificationError,
+  validateSecurity,
+} from '@automabase/automata-auth';
+import { getAccountByOAuth, getDeviceById } from '@automabase/automata-core';
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+/**
+ * 获取安全配置
+ *
+ * 配置了 LOCAL_JWT_PUBLIC_KEY 时（本地开发）跳过签名和防重放验证
+ */
+function getSecurityConfig(): SecurityConfig {
+  return createSecurityConfig({
+    userPoolId: process.env.COGNITO_USER_POOL_ID || '',
+    clientId: process.env.COGNITO_CLIENT_ID || '',
+    requestIdTableName: process.env.REQUEST_ID_TABLE || 'automabase-request-ids-dev',
+    localJwtPublicKey: process.env.LOCAL_JWT_PUBLIC_KEY,
+    localJwtIssuer: process.env.LOCAL_JWT_ISSUER,
+  });
+}
+
+/**
+ * 从设备注册表获取签名设备的公钥（已撤销的设备不可用）
+ */
+async function getDevicePublicKey(
+  accountId: string,
+  deviceId: string
+): Promise<DevicePublicKey | null> {
+  const device = await getDeviceById(accountId, deviceId);
+  if (!device || device.status !== 'active') {
+    return null;
+  }
+  return { publicKey: device.publicKey, keyAlgorithm: device.keyAlgorithm };
+}
+
+/**
+ * JWT 中没有 accountId 时，通过 OAuth 信息查询账户
+ */
+async function resolveAccountId(authContext: AuthContext): Promise<string | undefined> {
+  const oauthSubject = authContext.identityProvider?.userId || authContext.cognitoUserId;
+  const oauthProvider = authContext.identityProvider?.name || 'cognito';
+  const account = await getAccountByOAuth(oauthProvider, oauthSubject);
+  return account?.accountId;
+}
+
+/**
+ * 创建 401 响应
+ */
+function unauthorized(message: string, code: string): APIGatewayProxyResult {
+  return {
+    statusCode: 401,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify({ error: message, code }),
+  };
+}
+
+/**
+ * 验证写操作的签名和防重放
+ *
+ * @param event - API Gateway 事件
+ * @param options.skipSignature - 只做防重放验证（用于设备尚未注册的请求）
+ * @returns 验证失败时返回 401 响应；通过时返回 null
+ */
+export async function verifyWriteRequest(
+  event: APIGatewayProxyEvent,
+  options: { skipSignature?: boolean } = {}
+): Promise<APIGatewayProxyResult | null> {
+  const config = getSecurityConfig();
+  if (options.skipSignature) {
+    config.skipSignatureVerification = true;
+  }
+
+  try {
+    await validateSecurity(event, config, getDevicePublicKey, resolveAccountId);
+    return null;
+  } catch (err) {
+    if (
+      err instanceof SignatureVerificationError ||
+      err instanceof AntiReplayError ||
+      err instanceof JwtVerificationError
+    ) {
+      return unauthorized(err.message, err.code);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * WebSocket 事件处理器
+ */
+
+import { AntiReplayError, SignatureVerificationError } from '@automabase/automata-auth';
+import type {
+  EventResultMessage,
+  SendEventMessage,
+  TransitionMeta,
+} from '@automabase/automata-core';
+import {
+  commitEvent,
+  createStateUpdateJob,
+  enqueueBroadcast,
+  getAutomataById,
+  getBlueprintById,
+  getConnection,
+  processEvent,
+  recordEventCreated,
+  TransitionError,
+  VersionConflictError,
+} from '@automabase/automata-core';
+import type { APIGatewayProxyResult } from 'aws-lambda';
+import { verifySendEventMessage } from '../services/message-security';
+
+/**
+ * sendEvent 处理失败
+ */
+class SendEventError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'SendEventError';
+  }
+}
+
+/**
+ * 创建失败的 eventResult 消息
+ */
+function failedResult(
+  requestId: string,
+  automataId: string,
+  message: string,
+  code: string
+): EventResultMessage {
+  return {
+    type: 'eventResult',
+    requestId,
+    success: false,
+    automataId,
+    error: message,
+    code,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * 处理 sendEvent 请求
+ *
+ * 与 REST 发送 Event 走同一条转换与提交路径；结果以 eventResult 回复发送方（按 requestId 关联），
+ * 状态更新广播给其它订阅者
+ */
+export async function handleSendEvent(
+  connectionId: string,
+  message: SendEventMessage,
+  sendMessage: (message: unknown) => Promise<void>
+): Promise<APIGatewayProxyResult> {
+  const { automataId, eventType, eventData, requestId } = message;
+  console.log(`[WS] sendEvent request: ${connectionId} -> ${automataId} (${requestId})`);
+
+  try {
+    if (!requestId || !automataId || !eventType) {
+      throw new SendEventError(
+        'automataId, eventType and requestId are required',
+        'INVALID_MESSAGE',
+        400
+      );
+    }
+
+    // 1. 获取连接信息
+    const connection = await getConnection(connectionId);
+    if (!connection) {
+      throw new SendEventError('Connection not found', 'CONNECTION_NOT_FOUND', 400);
+    }
+
+    // 2. 验证签名和防重放
+    await verifySendEventMessage(connection.accountId, message);
+
+    // 3. 验证 Automata 存在、属于该用户且处于活跃状态
+    const automata = await getAutomataById(automataId);
+    if (!automata) {
+      throw new SendEventError('Automata not found', 'AUTOMATA_NOT_FOUND', 404);
+    }
+    if (automata.ownerAccountId !== connection.accountId) {
+      throw new SendEventError('Access denied to this automata', 'ACCESS_DENIED', 403);
+    }
+    if (automata.status !== 'active') {
+      throw new SendEventError('Automata is not active', 'AUTOMATA_NOT_ACTIVE', 400);
+    }
+
+    const blueprint = await getBlueprintById(automata.blueprintId);
+    if (!blueprint) {
+      throw new SendEventError('Blueprint not found', 'BLUEPRINT_NOT_FOUND', 500);
+    }
+
+    // 4. 执行状态转换并原子提交（转换上下文与 Event 记录使用同一时间戳）
+    const baseVersion = automata.version;
+    const meta: TransitionMeta = {
+      automataId,
+      baseVersion,
+      senderAccountId: connection.accountId,
+      timestamp: new Date().toISOString(),
+      params: automata.params,
+    };
+    const newState = await processEvent(
+      blueprint,
+      automata.currentState,
+      eventType,
+      eventData,
+      meta
+    );
+    const { newVersion } = await commitEvent({
+      automataId,
+      eventType,
+      eventData,
+      senderAccountId: connection.accountId,
+      baseVersion,
+      newState,
+      timestamp: meta.timestamp,
+    });
+
+    // 更新用量统计（失败不影响事件提交结果）
+    await recordEventCreated(automata).catch((err) => {
+      console.error('[Stats] Failed to record event:', err);
+    });
+
+    // 5. 回复发送方
+    const resultMsg: EventResultMessage = {
+      type: 'eventResult',
+      requestId,
+      success: true,
+      automataId,
+      baseVersion,
+      newVersion,
+      newState,
+      timestamp: new Date().toISOString(),
+    };
+    await sendMessage(resultMsg);
+
+    // 6. 广播任务入队，由 broadcast-worker 推送给其它订阅者
+    await enqueueBroadcast(
+      createStateUpdateJob(
+        automata,
+        eventType,
+        eventData,
+        baseVersion,
+        newVersion,
+        newState,
+        connectionId
+      )
+    ).catch((err) => {
+      console.error('[WS] Failed to enqueue broadcast:', err);
+    });
+
+    console.log(`[WS] Event committed: ${automataId} ${baseVersion} -> ${newVersion}`);
+    return { statusCode: 200, body: 'Event sent' };
+  } catch (err) {
+    if (err instanceof SendEventError) {
+      await sendMessage(failedResult(requestId, automataId, err.message, err.code));
+      return { statusCode: err.statusCode, body: err.message };
+    }
+    if (err instanceof SignatureVerificationError || err instanceof AntiReplayError) {
+      await sendMessage(failedResult(requestId, automataId, err.message, err.code));
+      return { statusCode: 401, body: err.message };
+    }
+    if (err instanceof TransitionError) {
+      await sendMessage(failedResult(requestId, automataId, err.message, err.code));
+      return { statusCode: 400, body: err.message };
+    }
+    if (err instanceof VersionConflictError) {
+      // 与 REST 的 409 响应相同，附带当前版本和状态，便于客户端基于最新状态重试
+      const latest = await getAutomataById(err.automataId).catch(() => null);
+      await sendMessage({
+        ...failedResult(
+          requestId,
+          automataId,
+          'Version conflict. Please retry with latest version.',
+          err.code
+        ),
+        currentVersion: latest?.version,
+        currentState: latest?.currentState,
+      });
+      return { statusCode: 409, body: 'Version conflict' };
+    }
+    console.error('[WS] sendEvent error:', err);
+    await sendMessage(
+      failedResult(requestId, automataId, 'Failed to send event', 'SEND_EVENT_ERROR')
+    );
+    return { statusCode: 500, body: 'Send event error' };
+  }
+}
@@ -3,28 +3,86 @@
  */
 
 import type {
+  Automata,
   ErrorMessage,
+  ReplayedEvent,
+  StateUpdateMessage,
   SubscribedMessage,
+  SubscriptionScope,
   UnsubscribedMessage,
   WsSubscription,
 } from '@automabase/automata-core';
 import {
   createSubscription,
+  decodeBase62,
   deleteSubscription,
+  evaluateSubscription,
   getAutomataById,
   getConnection,
+  removeSubscription,
+  replayEventsSince,
 } from '@automabase/automata-core';
 import type { APIGatewayProxyResult } from 'aws-lambda';
 
+/**
+ * 重新订阅时最多补发的 Event 数量，超过则退回全量状态
+ */
+const MAX_REPLAY_EVENTS = 100;
+
+/**
+ * 版本号格式：6 位 Base62
+ */
+const VERSION_PATTERN = /^[0-9A-Za-z]{6}$/;
+
+/**
+ * 订阅选项
+ */
+export type SubscriptionOptions = Pick<WsSubscription, 'mode' | 'filter' | 'projection'>;
+
+/**
+ * 获取 sinceVersion 之后错过的 Event
+ *
+ * @returns 可补发时返回按顺序排列的 Event；版本无效、差距过大或重放失败时返回 null（退回全量状态）
+ */
+async function getMissedEvents(
+  automata: Automata,
+  sinceVersion: string | undefined
+): Promise<ReplayedEvent[] | null> {
+  if (!sinceVersion || !VERSION_PATTERN.test(sinceVersion)) {
+    return null;
+  }
+
+  const gap = decodeBase62(automata.version) - decodeBase62(sinceVersion);
+  if (gap < 0n || gap > BigInt(MAX_REPLAY_EVENTS)) {
+    return null;
+  }
+
+  try {
+    return await replayEventsSince(automata, sinceVersion);
+  } catch (error) {
+    console.error('[WS] Replay failed, falling back to full state:', error);
+    return null;
+  }
+}
+
 /**
  * 处理订阅请求
+ *
+ * 先建立订阅，再重新读取 Automata 并补发错过的 state_update（或发送全量状态）到最新版本：
+ * 首次读取与写入订阅之间提交的 Event 不会实时推送给该连接，由补发覆盖，保证没有空档；
+ * 两者可能有重叠，客户端按 baseVersion 去重
  */
 export async function handleSubscribe(
   connectionId: string,
   automataId: string,
-  sendMessage: (message: unknown) => Promise<void>
+  sendMessage: (message: unknown) => Promise<void>,
+  sinceVersion?: string,
+  options: SubscriptionOptions = {}
 ): Promise<APIGatewayProxyResult> {
-  console.log(`[WS] Subscribe request: ${connectionId} -> ${automataId}`);
+  console.log(
+    `[WS] Subscribe request: ${connectionId} -> ${automataId}` +
+      (sinceVersion ? ` (since ${sinceVersion})` : '')
+  );
 
   try {
     // 1. 获取连接信息
@@ -64,26 +122,154 @@ export async function handleSubscribe(
       return { statusCode: 403, body: 'Access denied' };
     }
 
-    // 3. 创建订阅
+    // 3. 创建订阅（先于读取错过的 Event，避免遗漏期间的实时推送）
     const subscription: WsSubscription = {
       connectionId,
+      scope: 'automata',
       automataId,
+      mode: options.mode ?? 'full',
+      filter: options.filter,
+      projection: options.projection,
+      accountId: connection.accountId,
+      subscribedAt: new Date().toISOString(),
+    };
+    await createSubscription(subscription);
+
+    // 4. 重新读取 Automata，同步到订阅生效时的最新版本
+    const current = (await getAutomataById(automataId)) ?? automata;
+
+    // 5. 补发错过的 Event，无法补发时发送全量状态
+    const missedEvents = await getMissedEvents(current, sinceVersion);
+    if (missedEvents) {
+      const subscribedMsg: SubscribedMessage = {
+        type: 'subscribed',
+        scope: 'automata',
+        automataId,
+        sync: 'replay',
+        version: current.version,
+        missedEvents: missedEvents.length,
+        timestamp: new Date().toISOString(),
+      };
+      await sendMessage(subscribedMsg);
+
+      // 补发的更新同样按订阅的 filter / projection 处理
+      for (const { event, newVersion, newState } of missedEvents) {
+        const evaluation = await evaluateSubscription(subscription, {
+          state: newState,
+          event: event.eventData,
+          eventType: event.eventType,
+        });
+        if (!evaluation) {
+          continue;
+        }
+        const updateMsg: StateUpdateMessage = {
+          type: 'state_update',
+          automataId,
+          eventType: event.eventType,
+          baseVersion: event.baseVersion,
+          newVersion,
+          newState: evaluation.projected ? evaluation.value : newState,
+          projected: evaluation.projected || undefined,
+          timestamp: event.timestamp,
+        };
+        await sendMessage(updateMsg);
+      }
+    } else {
+      const projected = subscription.projection
+        ? await evaluateSubscription(
+            { projection: subscription.projection },
+            { state: current.currentState }
+          )
+        : null;
+      const subscribedMsg: SubscribedMessage = {
+        type: 'subscribed',
+        scope: 'automata',
+        automataId,
+        sync: 'full',
+        currentState: projected?.projected ? projected.value : current.currentState,
+        projected: projected?.projected || undefined,
+        version: current.version,
+        timestamp: new Date().toISOString(),
+      };
+      await sendMessage(subscribedMsg);
+    }
+
+    console.log(`[WS] Subscribed: ${connectionId} -> ${automataId}`);
+    return { statusCode: 200, body: 'Subscribed' };
+  } catch (error) {
+    console.error('[WS] Subscribe error:', error);
+    const errorMsg: ErrorMessage = {
+      type: 'error',
+      code: 'SUBSCRIBE_ERROR',
+      message: 'Failed to subscribe',
+      timestamp: new Date().toISOString(),
+    };
+    await sendMessage(errorMsg);
+    return { statusCode: 500, body: 'Subscribe error' };
+  }
+}
+
+/**
+ * 处理 account / app 范围的订阅请求
+ *
+ * 范围限定在连接所属账户下的 Automata；订阅后推送 state_update 以及
+ * automata_created / automata_archived 生命周期消息
+ */
+export async function handleScopedSubscribe(
+  connectionId: string,
+  scope: Exclude<SubscriptionScope, 'automata'>,
+  appId: string | undefined,
+  sendMessage: (message: unknown) => Promise<void>,
+  options: SubscriptionOptions = {}
+): Promise<APIGatewayProxyResult> {
+  console.log(`[WS] Subscribe request: ${connectionId} -> ${scope}${appId ? `:${appId}` : ''}`);
+
+  try {
+    if (scope === 'app' && !appId) {
+      const errorMsg: ErrorMessage = {
+        type: 'error',
+        code: 'INVALID_MESSAGE',
+        message: 'appId is required for app scope',
+        timestamp: new Date().toISOString(),
+      };
+      await sendMessage(errorMsg);
+      return { statusCode: 400, body: 'appId is required' };
+    }
+
+    const connection = await getConnection(connectionId);
+    if (!connection) {
+      const errorMsg: ErrorMessage = {
+        type: 'error',
+        code: 'CONNECTION_NOT_FOUND',
+        message: 'Connection not found',
+        timestamp: new Date().toISOString(),
+      };
+      await sendMessage(errorMsg);
+      return { statusCode: 400, body: 'Connection not found' };
+    }
+
+    const subscription: WsSubscription = {
+      connectionId,
+      scope,
+      automataId: '',
+      appId: scope === 'app' ? appId : undefined,
+      mode: options.mode ?? 'full',
+      filter: options.filter,
+      projection: options.projection,
       accountId: connection.accountId,
       subscribedAt: new Date().toISOString(),
     };
     await createSubscription(subscription);
 
-    // 4. 发送订阅成功消息，包含当前状态
     const subscribedMsg: SubscribedMessage = {
       type: 'subscribed',
-      automataId,
-      currentState: automata.currentState,
-      version: automata.version,
+      scope,
+      appId: subscription.appId,
       timestamp: new Date().toISOString(),
     };
     await sendMessage(subscribedMsg);
 
-    console.log(`[WS] Subscribed: ${connectionId} -> ${automataId}`);
+    console.log(`[WS] Subscribed: ${connectionId} -> ${scope}`);
     return { statusCode: 200, body: 'Subscribed' };
   } catch (error) {
     console.error('[WS] Subscribe error:', error);
@@ -98,6 +284,52 @@ export async function handleSubscribe(
   }
 }
 
+/**
+ * 处理 account / app 范围的取消订阅请求
+ */
+export async function handleScopedUnsubscribe(
+  connectionId: string,
+  scope: Exclude<SubscriptionScope, 'automata'>,
+  appId: string | undefined,
+  sendMessage: (message: unknown) => Promise<void>
+): Promise<APIGatewayProxyResult> {
+  console.log(`[WS] Unsubscribe request: ${connectionId} -> ${scope}${appId ? `:${appId}` : ''}`);
+
+  try {
+    const connection = await getConnection(connectionId);
+    if (connection) {
+      await removeSubscription({
+        connectionId,
+        scope,
+        automataId: '',
+        appId,
+        accountId: connection.accountId,
+      });
+    }
+
+    const unsubscribedMsg: UnsubscribedMessage = {
+      type: 'unsubscribed',
+      scope,
+      appId,
+      timestamp: new Date().toISOString(),
+    };
+    await sendMessage(unsubscribedMsg);
+
+    console.log(`[WS] Unsubscribed: ${connectionId} -> ${scope}`);
+    return { statusCode: 200, body: 'Unsubscribed' };
+  } catch (error) {
+    console.error('[WS] Unsubscribe error:', error);
+    const errorMsg: ErrorMessage = {
+      type: 'error',
+      code: 'UNSUBSCRIBE_ERROR',
+      message: 'Failed to unsubscribe',
+      timestamp: new Date().toISOString(),
+    };
+    await sendMessage(errorMsg);
+    return { statusCode: 500, body: 'Unsubscribe error' };
+  }
+}
+
 /**
  * 处理取消订阅请求
  */
@@ -1,7 +1,35 @@
+import type { Automata, ReplayedEvent } from '@automabase/automata-core';
+import {
+  commitEvent,
+  createSubscription,
+  getAutomataById,
+  getBlueprintById,
+  getConnection,
+  processEvent,
+  replayEventsSince,
+  VersionConflictError,
+} from '@automabase/automata-core';
 import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { handleSendEvent } from './handlers/event-handlers';
+import { handleSubscribe } from './handlers/subscription-handlers';
 import { handler } from './index';
 
+vi.mock('@automabase/automata-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@automabase/automata-core')>()),
+  commitEvent: vi.fn(),
+  createSubscription: vi.fn(),
+  getAutomataById: vi.fn(),
+  getBlueprintById: vi.fn(),
+  getConnection: vi.fn(),
+  processEvent: vi.fn(),
+  replayEventsSince: vi.fn(),
+}));
+
+vi.mock('./services/message-security', () => ({
+  verifySendEventMessage: vi.fn(),
+}));
+
 describe('handler', () => {
   it('should return 400 when connectionId is missing', async () => {
     const event = {
@@ -65,4 +93,172 @@ describe('handler', () => {
     expect(result.statusCode).toBe(401);
     expect(result.body).toContain('Missing token');
   });
+
+  it('should reject sendEvent without requestId', async () => {
+    process.env.WEBSOCKET_API_ENDPOINT = 'http://localhost:3202';
+
+    const event = {
+      requestContext: {
+        connectionId: 'test-conn',
+        routeKey: '$default',
+      },
+      body: JSON.stringify({ action: 'sendEvent', automataId: 'automata-1', eventType: 'SET' }),
+      isBase64Encoded: false,
+    } as unknown as APIGatewayProxyEvent;
+
+    const result = await handler(event, {} as Context);
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toContain('requestId');
+  });
+
+  it('should reject app-scope subscribe without appId', async () => {
+    const event = {
+      requestContext: {
+        connectionId: 'test-conn',
+        routeKey: '$default',
+      },
+      body: JSON.stringify({ action: 'subscribe', scope: 'app' }),
+      isBase64Encoded: false,
+    } as unknown as APIGatewayProxyEvent;
+
+    const result = await handler(event, {} as Context);
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toContain('appId');
+  });
+
+  it('should reject subscribe with an invalid filter expression', async () => {
+    const event = {
+      requestContext: {
+        connectionId: 'test-conn',
+        routeKey: '$default',
+      },
+      body: JSON.stringify({ action: 'subscribe', automataId: 'a1', filter: 'state.status =' }),
+      isBase64Encoded: false,
+    } as unknown as APIGatewayProxyEvent;
+
+    const result = await handler(event, {} as Context);
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toContain('filter');
+  });
+});
+
+describe('handleSubscribe', () => {
+  const automata = (version: string, count: number): Automata => ({
+    automataId: 'automata-1',
+    ownerAccountId: 'account-1',
+    blueprintId: 'app:Counter:hash',
+    appId: 'app',
+    currentState: { count },
+    version,
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  const replayed = (baseVersion: string, newVersion: string, count: number): ReplayedEvent => ({
+    event: {
+      automataId: 'automata-1',
+      baseVersion,
+      eventType: 'ADD',
+      eventData: {},
+      senderAccountId: 'account-1',
+      timestamp: '2024-01-01T00:00:00.000Z',
+    },
+    newVersion,
+    newState: { count },
+  });
+
+  it('should replay events committed between the automata read and the subscription write', async () => {
+    vi.mocked(getConnection).mockResolvedValue({
+      connectionId: 'conn-1',
+      accountId: 'account-1',
+    } as never);
+    // 读取 Automata 后、写入订阅前有一个 Event 提交（000002 -> 000003）
+    vi.mocked(getAutomataById)
+      .mockResolvedValueOnce(automata('000002', 1))
+      .mockResolvedValueOnce(automata('000003', 2));
+    vi.mocked(createSubscription).mockResolvedValue();
+    vi.mocked(replayEventsSince).mockImplementation(async (current) =>
+      current.version === '000003'
+        ? [replayed('000001', '000002', 1), replayed('000002', '000003', 2)]
+        : [replayed('000001', '000002', 1)]
+    );
+
+    const messages: Array<Record<string, unknown>> = [];
+    const result = await handleSubscribe(
+      'conn-1',
+      'automata-1',
+      async (message) => {
+        messages.push(message as Record<string, unknown>);
+      },
+      '000001'
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(messages[0]).toMatchObject({ type: 'subscribed', sync: 'replay', version: '000003' });
+    expect(messages.slice(1).map((message) => message.newVersion)).toEqual(['000002', '000003']);
+  });
+});
+
+describe('handleSendEvent', () => {
+  const automata = (version: string, count: number): Automata => ({
+    automataId: 'automata-1',
+    ownerAccountId: 'account-1',
+    blueprintId: 'app:Counter:hash',
+    appId: 'app',
+    currentState: { count },
+    version,
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  it('should return the current version and state on a version conflict', async () => {
+    vi.mocked(getConnection).mockResolvedValue({
+      connectionId: 'conn-1',
+      accountId: 'account-1',
+    } as never);
+    // 读取 Automata 后有其它写入先提交（000002 -> 000003）
+    vi.mocked(getAutomataById)
+      .mockReset()
+      .mockResolvedValueOnce(automata('000002', 1))
+      .mockResolvedValueOnce(automata('000003', 5));
+    vi.mocked(getBlueprintById).mockResolvedValue({} as never);
+    vi.mocked(processEvent).mockResolvedValue({ count: 2 });
+    vi.mocked(commitEvent).mockRejectedValue(
+      new VersionConflictError('Version conflict', 'automata-1', '000002')
+    );
+
+    const messages: Array<Record<string, unknown>> = [];
+    const result = await handleSendEvent(
+      'conn-1',
+      {
+        action: 'sendEvent',
+        automataId: 'automata-1',
+        eventType: 'ADD',
+        eventData: {},
+        requestId: 'request-1',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        signature: 'Algorithm=ECDSA-P256, DeviceId=device-1, Signature=sig',
+      },
+      async (message) => {
+        messages.push(message as Record<string, unknown>);
+      }
+    );
+
+    expect(result.statusCode).toBe(409);
+    expect(messages).toEqual([
+      expect.objectContaining({
+        type: 'eventResult',
+        requestId: 'request-1',
+        success: false,
+        code: 'VERSION_CONFLICT',
+        currentVersion: '000003',
+        currentState: { count: 5 },
+      }),
+    ]);
+  });
 });
@@ -5,6 +5,7 @@
  */
 
 import type { ErrorMessage, PongMessage, WsUpstreamMessage } from '@automabase/automata-core';
+import { validateSubscriptionExpressions } from '@automabase/automata-core';
 import type {
   APIGatewayProxyEvent,
   APIGatewayProxyResult,
@@ -12,7 +13,13 @@ import type {
   Context,
 } from 'aws-lambda';
 import { handleConnect, handleDisconnect } from './handlers/connection-handlers';
-import { handleSubscribe, handleUnsubscribe } from './handlers/subscription-handlers';
+import { handleSendEvent } from './handlers/event-handlers';
+import {
+  handleScopedSubscribe,
+  handleScopedUnsubscribe,
+  handleSubscribe,
+  handleUnsubscribe,
+} from './handlers/subscription-handlers';
 import { createSendMessageFn, initApiGatewayClient } from './services/broadcast-service';
 
 /**
@@ -121,6 +128,23 @@ export const handler = async (
   }
 };
 
+/**
+ * 回复消息格式错误
+ */
+async function rejectInvalidMessage(
+  message: string,
+  sendMessage: (message: unknown) => Promise<void>
+): Promise<APIGatewayProxyResult> {
+  const errorMsg: ErrorMessage = {
+    type: 'error',
+    code: 'INVALID_MESSAGE',
+    message,
+    timestamp: new Date().toISOString(),
+  };
+  await sendMessage(errorMsg);
+  return { statusCode: 400, body: message };
+}
+
 /**
  * 处理消息分发
  */
@@ -130,11 +154,51 @@ async function handleMessage(
   sendMessage: (message: unknown) => Promise<void>
 ): Promise<APIGatewayProxyResult> {
   switch (message.action) {
-    case 'subscribe':
-      return await handleSubscribe(connectionId, message.automataId, sendMessage);
+    case 'subscribe': {
+      const mode = message.mode ?? 'full';
+      if (mode !== 'full' && mode !== 'patch') {
+        return await rejectInvalidMessage(`Unknown mode: ${mode}`, sendMessage);
+      }
+      const expressionError = validateSubscriptionExpressions(message);
+      if (expressionError) {
+        return await rejectInvalidMessage(expressionError, sendMessage);
+      }
+      const options = { mode, filter: message.filter, projection: message.projection };
+      if (message.scope === 'account' || message.scope === 'app') {
+        return await handleScopedSubscribe(
+          connectionId,
+          message.scope,
+          message.appId,
+          sendMessage,
+          options
+        );
+      }
+      if (!message.automataId) {
+        return await rejectInvalidMessage('automataId is required', sendMessage);
+      }
+      return await handleSubscribe(
+        connectionId,
+        message.automataId,
+        sendMessage,
+        message.sinceVersion,
+        options
+      );
+    }
 
-    case 'unsubscribe':
+    case 'unsubscribe': {
+      if (message.scope === 'account' || message.scope === 'app') {
+        return await handleScopedUnsubscribe(
+          connectionId,
+          message.scope,
+          message.appId,
+          sendMessage
+        );
+      }
+      if (!message.automataId) {
+        return await rejectInvalidMessage('automataId is required', sendMessage);
+      }
       return await handleUnsubscribe(connectionId, message.automataId, sendMessage);
+    }
 
     case 'ping': {
       const pongMsg: PongMessage = {
@@ -145,18 +209,8 @@ async function handleMessage(
       return { statusCode: 200, body: 'pong' };
     }
 
-    case 'sendEvent': {
-      // TODO: 实现通过 WebSocket 发送事件
-      // 需要签名验证，暂时禁用
-      const errorMsg: ErrorMessage = {
-        type: 'error',
-        code: 'NOT_IMPLEMENTED',
-        message: 'Sending events via WebSocket is not yet implemented. Use REST API instead.',
-        timestamp: new Date().toISOString(),
-      };
-      await sendMessage(errorMsg);
-      return { statusCode: 501, body: 'Not implemented' };
-    }
+    case 'sendEvent':
+      return await handleSendEvent(connectionId, message, sendMessage);
 
     default: {
       const errorMsg: ErrorMessage = {
@@ -1,9 +1,9 @@
 /**
- * WebSocket 消息广播服务
+ * WebSocket 消息发送服务
+ *
+ * 订阅者广播由 broadcast-worker 负责，这里只处理对当前连接的回复
  */
 
-import type { StateUpdateMessage } from '@automabase/automata-core';
-import { deleteSubscription, getSubscribersByAutomata } from '@automabase/automata-core';
 import {
   ApiGatewayManagementApiClient,
   PostToConnectionCommand,
@@ -62,54 +62,3 @@ export function createSendMessageFn(connectionId: string): (message: unknown) =>
     await sendToConnection(connectionId, message);
   };
 }
-
-/**
- * 广播状态更新到所有订阅者
- */
-export async function broadcastStateUpdate(
-  automataId: string,
-  eventType: string,
-  baseVersion: string,
-  newVersion: string,
-  newState: unknown
-): Promise<void> {
-  const subscribers = await getSubscribersByAutomata(automataId);
-
-  if (subscribers.length === 0) {
-    console.log(`[WS] No subscribers for automata ${automataId}`);
-    return;
-  }
-
-  console.log(`[WS] Broadcasting to ${subscribers.length} subscribers for ${automataId}`);
-
-  const message: StateUpdateMessage = {
-    type: 'state_update',
-    automataId,
-    eventType,
-    baseVersion,
-    newVersion,
-    newState,
-    timestamp: new Date().toISOString(),
-  };
-
-  // 并行发送到所有订阅者
-  const results = await Promise.all(
-    subscribers.map(async (sub: { connectionId: string }) => {
-      const success = await sendToConnection(sub.connectionId, message);
-      return { connectionId: sub.connectionId, success };
-    })
-  );
-
-  // 清理失效的连接
-  const failedConnections = results.filter(
-    (r: { connectionId: string; success: boolean }) => !r.success
-  );
-  for (const { connectionId } of failedConnections) {
-    console.log(`[WS] Cleaning up stale subscription: ${connectionId} -> ${automataId}`);
-    await deleteSubscription(connectionId, automataId);
-  }
-
-  console.log(
-    `[WS] Broadcast complete: ${results.filter((r: { connectionId: string; success: boolean }) => r.success).length}/${subscribers.length} succeeded`
-  );
-}
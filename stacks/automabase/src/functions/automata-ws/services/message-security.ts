@@ -0,0 +1,104 @@
+/**
+ * WebSocket 消息签名验证
+ *
+ * sendEvent 消息按 REST 的 Canonical Request 规则签名，并复用同一张防重放表
+ */
+
+import {
+  parseSignatureHeader,
+  type RequestInfo,
+  SignatureVerificationError,
+  validateAntiReplay,
+  verifyRequestSignature,
+} from '@automabase/automata-auth';
+import type { Device, SendEventMessage } from '@automabase/automata-core';
+import { getDeviceById, listActiveDevicesByAccountId } from '@automabase/automata-core';
+
+/**
+ * 将 sendEvent 消息映射为用于签名的请求
+ */
+export function buildSendEventRequest(message: SendEventMessage): RequestInfo {
+  return {
+    method: 'WS',
+    path: `/automatas/${message.automataId}/events`,
+    headers: {
+      'x-request-id': message.requestId,
+      'x-request-timestamp': message.timestamp,
+    },
+    body: JSON.stringify({ eventType: message.eventType, eventData: message.eventData }),
+  };
+}
+
+/**
+ * 获取可用于验证的设备
+ *
+ * 签名中带 DeviceId 时只使用该设备，否则尝试账户下所有有效设备
+ */
+async function getCandidateDevices(
+  accountId: string,
+  deviceId: string | undefined
+): Promise<Device[]> {
+  if (deviceId) {
+    const device = await getDeviceById(accountId, deviceId);
+    return device && device.status === 'active' ? [device] : [];
+  }
+  return listActiveDevicesByAccountId(accountId);
+}
+
+/**
+ * 验证 sendEvent 消息的签名和防重放
+ *
+ * 配置了 LOCAL_JWT_PUBLIC_KEY 时（本地开发）跳过验证，与 REST 写操作一致
+ *
+ * @throws SignatureVerificationError - 签名缺失或无效
+ * @throws AntiReplayError - 时间戳过期或 requestId 重复
+ */
+export async function verifySendEventMessage(
+  accountId: string,
+  message: SendEventMessage
+): Promise<void> {
+  if (process.env.LOCAL_JWT_PUBLIC_KEY) {
+    return;
+  }
+
+  if (!message.signature) {
+    throw new SignatureVerificationError('Missing signature', 'MISSING_SIGNATURE');
+  }
+
+  const { deviceId } = parseSignatureHeader(message.signature);
+  const devices = await getCandidateDevices(accountId, deviceId);
+  if (devices.length === 0) {
+    throw new SignatureVerificationError('No active device found', 'DEVICE_NOT_FOUND');
+  }
+
+  const request = buildSendEventRequest(message);
+  let verified = false;
+  for (const device of devices) {
+    try {
+      if (
+        await verifyRequestSignature(
+          request,
+          message.signature,
+          device.publicKey,
+          device.keyAlgorithm
+        )
+      ) {
+        verified = true;
+        break;
+      }
+    } catch (err) {
+      // 算法不匹配的设备直接跳过，继续尝试其它设备
+      if (!(err instanceof SignatureVerificationError) || deviceId) {
+        throw err;
+      }
+    }
+  }
+
+  if (!verified) {
+    throw new SignatureVerificationError('Invalid message signature', 'INVALID_SIGNATURE');
+  }
+
+  await validateAntiReplay(message.requestId, message.timestamp, accountId, {
+    tableName: process.env.REQUEST_ID_TABLE || 'automabase-request-ids-dev',
+  });
+}
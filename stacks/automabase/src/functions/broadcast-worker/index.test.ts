@@ -0,0 +1,193 @@
+import {
+  type BroadcastJob,
+  type DeliverOptions,
+  deliverBroadcast,
+  getBroadcastProgress,
+  saveBroadcastProgress,
+} from '@automabase/automata-core';
+import type { SQSEvent, SQSRecord } from 'aws-lambda';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handler } from './index';
+
+vi.mock('@automabase/automata-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@automabase/automata-core')>()),
+  deliverBroadcast: vi.fn(),
+  getBroadcastProgress: vi.fn(),
+  saveBroadcastProgress: vi.fn(),
+}));
+
+function createRecord(
+  messageId: string,
+  body: string,
+  attributes: Partial<SQSRecord['attributes']> = {}
+): SQSRecord {
+  return {
+    messageId,
+    receiptHandle: messageId,
+    body,
+    attributes: attributes as SQSRecord['attributes'],
+    messageAttributes: {},
+    md5OfBody: '',
+    eventSource: 'aws:sqs',
+    eventSourceARN: 'arn:aws:sqs:local:000000000000:automabase-broadcast-test',
+    awsRegion: 'local',
+  };
+}
+
+describe('handler', () => {
+  const originalEndpoint = process.env.WEBSOCKET_API_ENDPOINT;
+
+  afterEach(() => {
+    if (originalEndpoint === undefined) {
+      delete process.env.WEBSOCKET_API_ENDPOINT;
+    } else {
+      process.env.WEBSOCKET_API_ENDPOINT = originalEndpoint;
+    }
+  });
+
+  it('should skip delivery when the WebSocket endpoint is not configured', async () => {
+    delete process.env.WEBSOCKET_API_ENDPOINT;
+    const event: SQSEvent = { Records: [createRecord('m1', '{}')] };
+
+    await expect(handler(event)).resolves.toEqual({ batchItemFailures: [] });
+  });
+
+  it('should report malformed jobs as batch item failures', async () => {
+    process.env.WEBSOCKET_API_ENDPOINT = 'http://localhost:3201';
+    const event: SQSEvent = { Records: [createRecord('m1', 'not-json')] };
+
+    await expect(handler(event)).resolves.toEqual({
+      batchItemFailures: [{ itemIdentifier: 'm1' }],
+    });
+  });
+
+  const job = (automataId: string, baseVersion: string) =>
+    JSON.stringify({
+      automataId,
+      ownerAccountId: 'account-1',
+      appId: 'app',
+      message: {
+        type: 'state_update',
+        automataId,
+        eventType: 'ADD',
+        baseVersion,
+        newVersion: '000002',
+        newState: {},
+        timestamp: '2024-01-01T00:00:00.000Z',
+      },
+    });
+
+  const delivered = (connections: string[], throttled: string[] = []) => ({
+    total: connections.length + throttled.length,
+    success: connections.length,
+    delivered: connections,
+    gone: 0,
+    filtered: 0,
+    throttled,
+  });
+
+  // 模拟分批投递：每批成功后回调 onDelivered
+  const deliverTo =
+    (connections: string[], throttled: string[] = []) =>
+    async (_job: BroadcastJob, options: DeliverOptions) => {
+      for (let i = 0; i < connections.length; i += 50) {
+        options.onDelivered?.(connections.slice(i, i + 50));
+      }
+      return delivered(connections, throttled);
+    };
+
+  it('should hold back later jobs of a failed message group to keep them in order', async () => {
+    process.env.WEBSOCKET_API_ENDPOINT = 'http://localhost:3201';
+    vi.mocked(deliverBroadcast)
+      .mockReset()
+      .mockResolvedValue(delivered(['conn-1']));
+    const event: SQSEvent = {
+      Records: [
+        createRecord('m1', 'not-json', { MessageGroupId: 'a1' }),
+        createRecord('m2', job('a1', '000001'), { MessageGroupId: 'a1' }),
+        createRecord('m3', job('a2', '000001'), { MessageGroupId: 'a2' }),
+      ],
+    };
+
+    await expect(handler(event)).resolves.toEqual({
+      batchItemFailures: [{ itemIdentifier: 'm1' }, { itemIdentifier: 'm2' }],
+    });
+    expect(deliverBroadcast).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry the connections that were throttled on the previous delivery', async () => {
+    process.env.WEBSOCKET_API_ENDPOINT = 'http://localhost:3201';
+    vi.mocked(getBroadcastProgress).mockResolvedValue(['conn-1']);
+    vi.mocked(saveBroadcastProgress).mockReset().mockResolvedValue();
+    vi.mocked(deliverBroadcast)
+      .mockReset()
+      .mockImplementation(deliverTo(['conn-2'], ['conn-3']));
+    const event: SQSEvent = {
+      Records: [
+        createRecord('m1', job('a1', '000001'), {
+          MessageGroupId: 'a1',
+          ApproximateReceiveCount: '2',
+        }),
+      ],
+    };
+
+    await expect(handler(event)).resolves.toEqual({
+      batchItemFailures: [{ itemIdentifier: 'm1' }],
+    });
+    expect(getBroadcastProgress).toHaveBeenCalledWith('a1:state_update:000001');
+    expect(vi.mocked(deliverBroadcast).mock.calls[0][1].skipConnectionIds).toEqual(
+      new Set(['conn-1'])
+    );
+    expect(saveBroadcastProgress).toHaveBeenCalledWith('a1:state_update:000001', ['conn-2']);
+  });
+
+  it('should record progress when delivery fails partway through', async () => {
+    process.env.WEBSOCKET_API_ENDPOINT = 'http://localhost:3201';
+    vi.mocked(getBroadcastProgress).mockReset();
+    vi.mocked(saveBroadcastProgress).mockReset().mockResolvedValue();
+    vi.mocked(deliverBroadcast)
+      .mockReset()
+      .mockImplementation(async (_job, options) => {
+        options.onDelivered?.(['conn-1', 'conn-2']);
+        throw new Error('Lambda ran out of time');
+      });
+    const event: SQSEvent = {
+      Records: [createRecord('m1', job('a1', '000001'), { MessageGroupId: 'a1' })],
+    };
+
+    await expect(handler(event)).resolves.toEqual({
+      batchItemFailures: [{ itemIdentifier: 'm1' }],
+    });
+    expect(getBroadcastProgress).not.toHaveBeenCalled();
+    expect(saveBroadcastProgress).toHaveBeenCalledWith('a1:state_update:000001', [
+      'conn-1',
+      'conn-2',
+    ]);
+  });
+
+  it('should only append this delivery to the progress of a large fan-out', async () => {
+    process.env.WEBSOCKET_API_ENDPOINT = 'http://localhost:3201';
+    const connectionIds = Array.from({ length: 50_000 }, (_, i) => `conn-${i}`);
+    const previous = connectionIds.slice(0, 30_000);
+    const current = connectionIds.slice(30_000, 49_990);
+    vi.mocked(getBroadcastProgress).mockReset().mockResolvedValue(previous);
+    vi.mocked(saveBroadcastProgress).mockReset().mockResolvedValue();
+    vi.mocked(deliverBroadcast)
+      .mockReset()
+      .mockImplementation(deliverTo(current, connectionIds.slice(49_990)));
+    const event: SQSEvent = {
+      Records: [
+        createRecord('m1', job('a1', '000001'), {
+          MessageGroupId: 'a1',
+          ApproximateReceiveCount: '3',
+        }),
+      ],
+    };
+
+    await expect(handler(event)).resolves.toEqual({
+      batchItemFailures: [{ itemIdentifier: 'm1' }],
+    });
+    expect(saveBroadcastProgress).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(saveBroadcastProgress).mock.calls[0][1]).toEqual(current);
+  });
+});
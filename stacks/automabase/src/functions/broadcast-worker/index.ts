@@ -0,0 +1,97 @@
+/**
+ * Broadcast Worker Lambda Handler
+ *
+ * 消费广播队列（SQS），将状态更新和 Automata 生命周期消息推送给 WebSocket 订阅者
+ */
+
+import {
+  type BroadcastJob,
+  deliverBroadcast,
+  getBroadcastJobId,
+  getBroadcastProgress,
+  saveBroadcastProgress,
+} from '@automabase/automata-core';
+import type { SQSBatchResponse, SQSEvent, SQSRecord } from 'aws-lambda';
+
+/**
+ * 每批同时推送的连接数
+ */
+const DELIVERY_CONCURRENCY = 50;
+
+/**
+ * 投递单条广播任务
+ *
+ * 重新投递的任务跳过此前已投递的连接；未全部完成（仍有连接被限流或投递中途失败）时
+ * 追加记录本次已投递的连接
+ *
+ * @returns 是否全部投递完成
+ */
+async function processRecord(record: SQSRecord, wsEndpoint: string): Promise<boolean> {
+  const job = JSON.parse(record.body) as BroadcastJob;
+  const jobId = getBroadcastJobId(job);
+  const redelivered = Number(record.attributes.ApproximateReceiveCount ?? '1') > 1;
+  const previouslyDelivered = redelivered ? await getBroadcastProgress(jobId) : [];
+
+  const delivered: string[] = [];
+  let completed = false;
+  try {
+    const result = await deliverBroadcast(job, {
+      wsEndpoint,
+      concurrency: DELIVERY_CONCURRENCY,
+      skipConnectionIds: new Set(previouslyDelivered),
+      onDelivered: (connectionIds) => delivered.push(...connectionIds),
+    });
+    completed = result.throttled.length === 0;
+    if (!completed) {
+      console.warn(
+        `[BroadcastWorker] ${result.throttled.length} connection(s) still throttled for ${job.automataId}`
+      );
+    }
+    return completed;
+  } finally {
+    if (!completed && delivered.length > 0) {
+      await saveBroadcastProgress(jobId, delivered);
+    }
+  }
+}
+
+/**
+ * Lambda 入口
+ *
+ * 队列为 FIFO（按 automataId 分组）：单条任务失败或仍有连接被限流时报告该条消息，
+ * 同组中其后的消息不处理并一并报告，由 SQS 按原顺序重新投递；
+ * 重新投递时只推送上次未送达的连接
+ */
+export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  const wsEndpoint = process.env.WEBSOCKET_API_ENDPOINT;
+  if (!wsEndpoint) {
+    console.warn('[BroadcastWorker] WEBSOCKET_API_ENDPOINT is not configured, skipping');
+    return { batchItemFailures: [] };
+  }
+
+  const batchItemFailures: SQSBatchResponse['batchItemFailures'] = [];
+  const blockedGroups = new Set<string>();
+
+  for (const record of event.Records) {
+    const groupId = record.attributes.MessageGroupId;
+    if (groupId && blockedGroups.has(groupId)) {
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+      continue;
+    }
+
+    let completed = false;
+    try {
+      completed = await processRecord(record, wsEndpoint);
+    } catch (err) {
+      console.error(`[BroadcastWorker] Failed to process message ${record.messageId}:`, err);
+    }
+    if (!completed) {
+      if (groupId) {
+        blockedGroups.add(groupId);
+      }
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  return { batchItemFailures };
+};
@@ -0,0 +1,165 @@
+import type { DynamoDBStreamEvent } from 'aws-lambda';
+import { describe, expect, it } from 'vitest';
+import { handler } from './index';
+import {
+  chunkUsages,
+  mergeUsage,
+  parseStreamRecord,
+  type ResolvedUsage,
+} from './services/usage-aggregator';
+
+describe('parseStreamRecord', () => {
+  it('should extract automata creation from #META inserts', () => {
+    const usage = parseStreamRecord({
+      eventID: 'r1',
+      eventName: 'INSERT',
+      dynamodb: {
+        NewImage: {
+          pk: { S: 'AUTOMATA#a1' },
+          sk: { S: '#META' },
+          automataId: { S: 'a1' },
+          blueprintId: { S: 'app1:Todo:hash' },
+          createdAt: { S: '2026-01-01T00:00:00.000Z' },
+        },
+      },
+    });
+
+    expect(usage).toEqual({
+      recordId: 'r1',
+      kind: 'automata',
+      automataId: 'a1',
+      blueprintId: 'app1:Todo:hash',
+      at: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should count user events but not system events', () => {
+    const eventRecord = (eventType: string) =>
+      parseStreamRecord({
+        eventID: 'r2',
+        eventName: 'INSERT',
+        dynamodb: {
+          NewImage: {
+            pk: { S: 'AUTOMATA#a1' },
+            sk: { S: 'EVT#000001' },
+            automataId: { S: 'a1' },
+            eventType: { S: eventType },
+            timestamp: { S: '2026-01-01T00:00:00.000Z' },
+          },
+        },
+      });
+
+    expect(eventRecord('SET')).toEqual({
+      recordId: 'r2',
+      kind: 'event',
+      automataId: 'a1',
+      at: '2026-01-01T00:00:00.000Z',
+    });
+    expect(eventRecord('$MIGRATED')).toBeNull();
+  });
+
+  it('should ignore modifications and non-automata items', () => {
+    expect(
+      parseStreamRecord({
+        eventName: 'MODIFY',
+        dynamodb: { NewImage: { pk: { S: 'AUTOMATA#a1' }, sk: { S: '#META' } } },
+      })
+    ).toBeNull();
+    expect(
+      parseStreamRecord({
+        eventName: 'INSERT',
+        dynamodb: { NewImage: { pk: { S: 'STATS#APP#app1' }, sk: { S: '#META' } } },
+      })
+    ).toBeNull();
+  });
+});
+
+describe('mergeUsage', () => {
+  it('should merge deltas per app, blueprint name and producer', () => {
+    const deltas = mergeUsage([
+      {
+        recordId: 'r1',
+        blueprintId: 'app1:Todo:h1',
+        producerAccountId: 'acc1',
+        kind: 'automata',
+        at: '2026-01-01T00:00:00.000Z',
+      },
+      {
+        recordId: 'r2',
+        blueprintId: 'app1:Todo:h2',
+        producerAccountId: 'acc1',
+        kind: 'event',
+        at: '2026-01-01T00:00:05.000Z',
+      },
+      {
+        recordId: 'r3',
+        blueprintId: 'SYSTEM:AppRegistry:h3',
+        producerAccountId: null,
+        kind: 'event',
+        at: '2026-01-01T00:00:01.000Z',
+      },
+    ]);
+
+    expect(deltas.get('APP#app1')).toEqual({
+      automataCount: 1,
+      eventCount: 1,
+      lastActivityAt: '2026-01-01T00:00:05.000Z',
+    });
+    expect(deltas.get('APP#app1#NAME#Todo')?.eventCount).toBe(1);
+    expect(deltas.get('PRODUCER#acc1')?.automataCount).toBe(1);
+    expect(deltas.get('APP#SYSTEM')?.eventCount).toBe(1);
+    // 每个维度含累计值和小时 / 日 / 月分桶
+    expect(deltas.size).toBe(20);
+  });
+
+  it('should maintain hourly, daily and monthly buckets with retention', () => {
+    const deltas = mergeUsage([
+      {
+        recordId: 'r1',
+        blueprintId: 'app1:Todo:h1',
+        producerAccountId: 'acc1',
+        kind: 'event',
+        at: '2026-01-01T10:30:00.000Z',
+      },
+    ]);
+
+    expect(deltas.get('PRODUCER#acc1#HOUR#2026-01-01T10')).toMatchObject({
+      eventCount: 1,
+      ttl: Date.parse('2026-01-01T10:30:00.000Z') / 1000 + 7 * 24 * 60 * 60,
+    });
+    expect(deltas.get('APP#app1#DAY#2026-01-01')?.eventCount).toBe(1);
+    expect(deltas.get('APP#app1#NAME#Todo#MONTH#2026-01')).toEqual({
+      automataCount: 0,
+      eventCount: 1,
+      lastActivityAt: '2026-01-01T10:30:00.000Z',
+    });
+  });
+});
+
+describe('chunkUsages', () => {
+  it('should keep record markers and stats updates of each chunk within the limit', () => {
+    const usages: ResolvedUsage[] = Array.from({ length: 150 }, (_, index) => ({
+      recordId: `r${index}`,
+      blueprintId: 'app1:Todo:h1',
+      producerAccountId: 'acc1',
+      kind: 'event',
+      at: '2026-01-01T00:00:00.000Z',
+    }));
+
+    const chunks = chunkUsages(usages);
+    expect(chunks.flat()).toEqual(usages);
+    for (const chunk of chunks) {
+      expect(chunk.length + mergeUsage(chunk).size).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe('handler', () => {
+  it('should skip batches without usage records', async () => {
+    const event = {
+      Records: [{ eventName: 'REMOVE', dynamodb: {} }],
+    } as DynamoDBStreamEvent;
+
+    await expect(handler(event)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Stats Aggregator Lambda Handler
+ *
+ * 消费 DynamoDB Streams，批量聚合高热点的 App / Producer 统计
+ * （Consumer / Blueprint 统计由 API 实时更新）
+ */
+
+import {
+  applyStreamStats,
+  getAppliedStreamRecords,
+  getAutomataById,
+  isBuiltinBlueprint,
+  parseBlueprintId,
+} from '@automabase/automata-core';
+import type { DynamoDBStreamEvent } from 'aws-lambda';
+import {
+  chunkUsages,
+  mergeUsage,
+  parseStreamRecord,
+  type ResolvedUsage,
+  toStatsIncrements,
+  type UsageRecord,
+} from './services/usage-aggregator';
+
+/**
+ * 批次内的 Automata 查询（按 automataId 缓存）
+ */
+type AutomataLookup = (automataId: string) => Promise<{
+  blueprintId: string;
+  ownerAccountId: string;
+} | null>;
+
+/**
+ * 创建带缓存的 Automata 查询
+ */
+function createAutomataLookup(): AutomataLookup {
+  const cache = new Map<string, ReturnType<AutomataLookup>>();
+  return (automataId) => {
+    let pending = cache.get(automataId);
+    if (!pending) {
+      pending = getAutomataById(automataId);
+      cache.set(automataId, pending);
+    }
+    return pending;
+  };
+}
+
+/**
+ * 解析用量的 Blueprint 和 App 所有者
+ */
+async function resolveUsage(
+  usage: UsageRecord,
+  lookup: AutomataLookup
+): Promise<ResolvedUsage | null> {
+  let blueprintId = usage.blueprintId;
+  if (!blueprintId) {
+    const automata = await lookup(usage.automataId);
+    if (!automata) {
+      console.warn(`[StatsAggregator] Automata not found: ${usage.automataId}`);
+      return null;
+    }
+    blueprintId = automata.blueprintId;
+  }
+
+  // App 本身是一个 Automata，其所有者即生产者
+  let producerAccountId: string | null = null;
+  if (!isBuiltinBlueprint(blueprintId)) {
+    const app = await lookup(parseBlueprintId(blueprintId).appId);
+    producerAccountId = app?.ownerAccountId ?? null;
+  }
+
+  return {
+    recordId: usage.recordId,
+    blueprintId,
+    producerAccountId,
+    kind: usage.kind,
+    at: usage.at,
+  };
+}
+
+/**
+ * Lambda 入口
+ *
+ * 1. 跳过已计入的记录（之前的调用已提交，但批次整体失败被重试）
+ * 2. 分组后每组在一个事务中写入记录标记并递增合并后的计数器
+ *
+ * 处理失败时抛出异常，由 Lambda 重试整个批次；已提交的分组不会重复计入
+ */
+export const handler = async (event: DynamoDBStreamEvent): Promise<void> => {
+  const usages = event.Records.map(parseStreamRecord).filter(
+    (usage): usage is UsageRecord => usage !== null
+  );
+  if (usages.length === 0) {
+    return;
+  }
+
+  const applied = await getAppliedStreamRecords(usages.map((usage) => usage.recordId));
+  const pending = usages.filter((usage) => !applied.has(usage.recordId));
+
+  const lookup = createAutomataLookup();
+  const resolved = (await Promise.all(pending.map((usage) => resolveUsage(usage, lookup)))).filter(
+    (usage): usage is ResolvedUsage => usage !== null
+  );
+
+  let statsCount = 0;
+  for (const chunk of chunkUsages(resolved)) {
+    const increments = toStatsIncrements(mergeUsage(chunk));
+    await applyStreamStats(
+      chunk.map((usage) => usage.recordId),
+      increments
+    );
+    statsCount += increments.length;
+  }
+
+  console.log(
+    `[StatsAggregator] Aggregated ${resolved.length} usage record(s) into ${statsCount} stats update(s)` +
+      (applied.size > 0 ? `, skipped ${applied.size} already applied` : '')
+  );
+};
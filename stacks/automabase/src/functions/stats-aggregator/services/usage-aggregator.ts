@@ -0,0 +1,195 @@
+/**
+ * Usage Aggregator
+ *
+ * 从 DynamoDB Stream 记录中提取用量，并按 App / Blueprint Name / Producer（含时间分桶）合并增量
+ */
+
+import {
+  buildStatsIncrements,
+  parseBlueprintId,
+  type StatsDelta,
+  type StatsIncrement,
+  type StatsScope,
+  TRANSACT_WRITE_LIMIT,
+} from '@automabase/automata-core';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import type { DynamoDBRecord } from 'aws-lambda';
+
+/**
+ * 从 Stream 记录中提取的用量
+ */
+export interface UsageRecord {
+  /** Stream 记录的 eventID（用于幂等计入） */
+  recordId: string;
+
+  kind: 'automata' | 'event';
+
+  automataId: string;
+
+  /** Automata 记录自带 blueprintId；Event 记录需要通过 automataId 解析 */
+  blueprintId?: string;
+
+  /** 活动时间 */
+  at: string;
+}
+
+/**
+ * 已解析归属的用量
+ */
+export interface ResolvedUsage {
+  recordId: string;
+
+  blueprintId: string;
+
+  /** App 所有者（生产者）；系统内置 App 没有所有者 */
+  producerAccountId: string | null;
+
+  kind: 'automata' | 'event';
+
+  at: string;
+}
+
+/**
+ * 合并后的统计增量
+ */
+export interface MergedDelta extends Required<StatsDelta> {
+  /** 批次内最新的活动时间 */
+  lastActivityAt: string;
+
+  /** 时间分桶的过期时间（取批次内最晚的） */
+  ttl?: number;
+}
+
+/**
+ * 解析 Stream 记录
+ *
+ * 只关心新建的 Automata（AUTOMATA#/#META）和 Event（AUTOMATA#/EVT#）；
+ * `$` 开头的系统事件（如 $MIGRATED）不计入用量
+ */
+export function parseStreamRecord(record: DynamoDBRecord): UsageRecord | null {
+  const newImage = record.dynamodb?.NewImage;
+  if (record.eventName !== 'INSERT' || !newImage) {
+    return null;
+  }
+
+  const item = unmarshall(newImage as Parameters<typeof unmarshall>[0]);
+  const pk = item.pk as string | undefined;
+  const sk = item.sk as string | undefined;
+  if (!pk?.startsWith('AUTOMATA#') || !sk) {
+    return null;
+  }
+
+  const recordId = record.eventID as string;
+  if (sk === '#META') {
+    return {
+      recordId,
+      kind: 'automata',
+      automataId: item.automataId as string,
+      blueprintId: item.blueprintId as string,
+      at: item.createdAt as string,
+    };
+  }
+
+  if (sk.startsWith('EVT#') && !(item.eventType as string | undefined)?.startsWith('$')) {
+    return {
+      recordId,
+      kind: 'event',
+      automataId: item.automataId as string,
+      at: item.timestamp as string,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 累加单个 Stats 的增量
+ */
+function accumulate(deltas: Map<string, MergedDelta>, increment: StatsIncrement): void {
+  const { statsId, delta, activityAt, ttl } = increment;
+  const merged = deltas.get(statsId) ?? { automataCount: 0, eventCount: 0, lastActivityAt: '' };
+  merged.automataCount += delta.automataCount ?? 0;
+  merged.eventCount += delta.eventCount ?? 0;
+  if (activityAt > merged.lastActivityAt) {
+    merged.lastActivityAt = activityAt;
+  }
+  if (ttl !== undefined && (merged.ttl === undefined || ttl > merged.ttl)) {
+    merged.ttl = ttl;
+  }
+  deltas.set(statsId, merged);
+}
+
+/**
+ * 单条用量的全部递增操作
+ *
+ * 分别计入 APP#{appId}、APP#{appId}#NAME#{name} 和 PRODUCER#{accountId}，各自含累计值和时间分桶
+ */
+function getUsageIncrements(usage: ResolvedUsage): StatsIncrement[] {
+  const { appId, name } = parseBlueprintId(usage.blueprintId);
+  const targets: Array<[StatsScope, string]> = [
+    ['APP', appId],
+    ['APP', `${appId}#NAME#${name}`],
+  ];
+  if (usage.producerAccountId) {
+    targets.push(['PRODUCER', usage.producerAccountId]);
+  }
+
+  const delta: StatsDelta = usage.kind === 'automata' ? { automataCount: 1 } : { eventCount: 1 };
+  const at = new Date(usage.at);
+  return targets.flatMap(([scope, id]) => buildStatsIncrements(scope, id, delta, at));
+}
+
+/**
+ * 合并一组用量：statsId -> 增量
+ */
+export function mergeUsage(usages: ResolvedUsage[]): Map<string, MergedDelta> {
+  const deltas = new Map<string, MergedDelta>();
+  for (const usage of usages) {
+    for (const increment of getUsageIncrements(usage)) {
+      accumulate(deltas, increment);
+    }
+  }
+  return deltas;
+}
+
+/**
+ * 将合并后的增量转换为递增操作
+ */
+export function toStatsIncrements(deltas: Map<string, MergedDelta>): StatsIncrement[] {
+  return [...deltas].map(([statsId, delta]) => ({
+    statsId,
+    delta: { automataCount: delta.automataCount, eventCount: delta.eventCount },
+    activityAt: delta.lastActivityAt,
+    ttl: delta.ttl,
+  }));
+}
+
+/**
+ * 将用量分组，每组的记录标记数与合并后的 Stats 数之和不超过单个事务的上限
+ */
+export function chunkUsages(
+  usages: ResolvedUsage[],
+  limit: number = TRANSACT_WRITE_LIMIT
+): ResolvedUsage[][] {
+  const chunks: ResolvedUsage[][] = [];
+  let current: ResolvedUsage[] = [];
+  let statsIds = new Set<string>();
+
+  for (const usage of usages) {
+    const ids = getUsageIncrements(usage).map((increment) => increment.statsId);
+    const merged = new Set([...statsIds, ...ids]);
+    if (current.length > 0 && current.length + 1 + merged.size > limit) {
+      chunks.push(current);
+      current = [usage];
+      statsIds = new Set(ids);
+    } else {
+      current.push(usage);
+      statsIds = merged;
+    }
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}